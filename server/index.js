@@ -9,6 +9,7 @@ app.use(cors());
 
 // Serve static files from the React app build directory
 const path = require('path');
+const fs = require('fs');
 app.use(express.static(path.join(__dirname, '../dist')));
 
 const server = http.createServer(app);
@@ -23,6 +24,88 @@ const io = new Server(server, {
 const rooms = {}; // roomId -> { players: {}, timeLeft: 300, status: 'WAITING' | 'PLAYING', timerInterval: null }
 
 const GAME_DURATION = 300; // 5 minutes in seconds
+const DOOR_HOLD_TIME = 4000; // ms a door stays open before the server closes it
+const DEFAULT_COLOR = '#1e3a8a'; // The guard's own suit, for clients that send no colour
+
+// What is wrong with a map file as far as the server is concerned, or null if it can be used.
+// The client validates the full format (src/engine/maps.ts); this only covers the fields read here.
+function checkMap(map) {
+    if (!map || typeof map !== 'object') return 'not a JSON object';
+    if (typeof map.id !== 'string' || map.id === '') return 'missing id';
+    if (typeof map.name !== 'string') return 'missing name';
+    if (!Array.isArray(map.grid) || map.grid.length === 0 || !map.grid.every(column => Array.isArray(column))) return 'grid must be a list of columns';
+    if (!Array.isArray(map.playerSpawns) || map.playerSpawns.length === 0) return 'no player spawns';
+    const inside = s => s && Number.isFinite(s.x) && Number.isFinite(s.y) && s.x >= 0 && s.y >= 0 && s.x < map.grid.length && s.y < map.grid[0].length;
+    if (!map.playerSpawns.every(inside)) return 'player spawn outside the grid';
+    return null;
+}
+
+// The client's bundled map library (src/maps). The server only needs each map's name, grid and player spawns.
+// A broken file is logged and left out, like the client does.
+const MAPS_DIR = path.join(__dirname, '../src/maps');
+const MAPS = {};
+for (const file of fs.readdirSync(MAPS_DIR).filter(f => f.endsWith('.json'))) {
+    try {
+        const map = JSON.parse(fs.readFileSync(path.join(MAPS_DIR, file), 'utf8'));
+        const issue = checkMap(map);
+        if (issue) throw new Error(issue);
+        MAPS[map.id] = map;
+    } catch (e) {
+        console.error(`Skipping map ${file}: ${e.message}`);
+    }
+}
+if (Object.keys(MAPS).length === 0) throw new Error(`No usable maps in ${MAPS_DIR}`);
+const DEFAULT_MAP_ID = 'compound';
+// Maps built on the client from a seed (src/engine/generator.ts): gen-<seed>-<width>x<height>-<rooms>-<corridor>
+const GENERATED_MAP_ID = /^gen-(\d+)-(\d+)x(\d+)-(\d+)-(\d+)$/;
+const MAX_SPAWNS = 16;
+const DOOR_CELL = 6; // CellType.DOOR in src/types.ts
+const MAX_WAYPOINTS = 3; // Per player
+
+// Player spawns sent along with a generated map, kept only if they are all points on the map
+function sanitizeSpawns(mapId, spawns) {
+    const match = GENERATED_MAP_ID.exec(mapId);
+    if (!match || !Array.isArray(spawns) || spawns.length === 0 || spawns.length > MAX_SPAWNS) return null;
+    const width = Number(match[2]), height = Number(match[3]);
+    const valid = spawns.every(s => s && Number.isFinite(s.x) && Number.isFinite(s.y) && s.x > 0 && s.y > 0 && s.x < width && s.y < height);
+    return valid ? spawns.map(s => ({ x: s.x, y: s.y, angle: Number.isFinite(s.angle) ? s.angle : 0 })) : null;
+}
+
+// Whether a client-sent cell is a door on the room's map. Generated maps are only built on the clients,
+// so for those the cell can only be checked against the size in the map ID.
+function isDoorCell(room, x, y) {
+    if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0) return false;
+    const match = GENERATED_MAP_ID.exec(room.mapId);
+    if (match) return x < Number(match[2]) && y < Number(match[3]);
+    const { grid } = getLibraryMap(room.mapId);
+    return x < grid.length && grid[x][y] === DOOR_CELL;
+}
+
+// Unknown IDs fall back to the default map, or any map if the default file was skipped
+function getLibraryMap(mapId) {
+    return MAPS[mapId] || MAPS[DEFAULT_MAP_ID] || Object.values(MAPS)[0];
+}
+
+function getMapName(mapId) {
+    const match = GENERATED_MAP_ID.exec(mapId);
+    return match ? `Generated #${match[1]}` : getLibraryMap(mapId).name;
+}
+
+// A random player spawn on the room's map, used for joining and respawning
+function pickSpawn(room) {
+    const spawns = room.spawns || getLibraryMap(room.mapId).playerSpawns;
+    return spawns[Math.floor(Math.random() * spawns.length)];
+}
+
+function removeWaypoint(roomId, id) {
+    delete rooms[roomId].waypoints[id];
+    io.to(roomId).emit('waypointRemoved', { id });
+}
+
+// Suit colour picked in the lobby, '#rrggbb'
+function sanitizeColor(color) {
+    return typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color) ? color.toLowerCase() : DEFAULT_COLOR;
+}
 
 io.on('connection', (socket) => {
     console.log('User connected:', socket.id);
@@ -38,11 +121,15 @@ io.on('connection', (socket) => {
 
     socket.on('createRoom', (data) => {
         // data can be string (old) or object (new)
-        let requestedId, duration = 5, username = 'Anonymous';
+        let requestedId, duration = 5, username = 'Anonymous', color = DEFAULT_COLOR, mapId = DEFAULT_MAP_ID, spawns = null;
         if (typeof data === 'object') {
             requestedId = data.customId;
             duration = parseInt(data.duration) || 5;
             username = data.username || 'Anonymous';
+            color = sanitizeColor(data.color);
+            if (MAPS[data.mapId]) mapId = data.mapId;
+            spawns = sanitizeSpawns(data.mapId, data.spawns);
+            if (spawns) mapId = data.mapId;
         } else {
             requestedId = data;
         }
@@ -62,6 +149,10 @@ io.on('connection', (socket) => {
             id: roomId,
             players: {},
             items: {},
+            doors: {}, // "x,y" -> { isOpen, closeTimeout }
+            mapId,
+            spawns, // Only for generated maps; bundled maps use MAPS
+            waypoints: {}, // id -> { id, pos, ownerId, color }, markers placed on the tactical map
             timeLeft: duration * 60, // Convert minutes to seconds
             status: 'WAITING',
             scores: {},
@@ -71,7 +162,7 @@ io.on('connection', (socket) => {
         socket.emit('roomCreated', roomId);
 
         // Auto-join the creator
-        joinRoomInternal(socket, roomId, username);
+        joinRoomInternal(socket, roomId, username, color);
 
         io.emit('roomListUpdate', getRoomList());
         console.log(`Room ${roomId} created by ${socket.id} (Duration: ${duration}m)`);
@@ -79,18 +170,19 @@ io.on('connection', (socket) => {
 
     socket.on('joinRoom', (data) => {
         // data can be string or object
-        let roomId, username = 'Anonymous';
+        let roomId, username = 'Anonymous', color = DEFAULT_COLOR;
         if (typeof data === 'object') {
             roomId = data.roomId;
             username = data.username || 'Anonymous';
+            color = sanitizeColor(data.color);
         } else {
             roomId = data;
         }
 
-        joinRoomInternal(socket, roomId, username);
+        joinRoomInternal(socket, roomId, username, color);
     });
 
-    function joinRoomInternal(socket, roomId, username) {
+    function joinRoomInternal(socket, roomId, username, color) {
         const room = rooms[roomId];
         if (!room) {
             socket.emit('error', 'Room not found');
@@ -99,9 +191,11 @@ io.on('connection', (socket) => {
 
         socket.join(roomId);
 
+        const spawn = pickSpawn(room);
         room.players[socket.id] = {
-            x: 2.5, y: 2.5, angle: 0, health: 100, id: socket.id, isDead: false,
-            name: username // Store Name
+            x: spawn.x, y: spawn.y, z: 0, angle: spawn.angle || 0, health: 100, id: socket.id, isDead: false,
+            name: username, // Store Name
+            color // Suit colour, so every client draws this player the same
         };
         room.scores[socket.id] = 0;
 
@@ -123,9 +217,13 @@ io.on('connection', (socket) => {
         io.to(roomId).emit('playerJoined', {
             id: socket.id,
             roomId: roomId, // Send RoomID so client knows what they joined
+            mapId: room.mapId,
             name: username,
+            color,
             currentPlayers: room.players,
-            timeLeft: room.timeLeft
+            timeLeft: room.timeLeft,
+            doors: getDoorStates(room),
+            waypoints: room.waypoints
         });
 
         io.emit('roomListUpdate', getRoomList());
@@ -137,21 +235,60 @@ io.on('connection', (socket) => {
     // --- GAME EVENTS ---
 
     socket.on('playerMove', (data) => {
-        // data = { roomId, x, y, angle }
+        // data = { roomId, x, y, angle, z }
         const { roomId, x, y, angle } = data;
+        const z = data.z || 0; // Elevation when standing on a ledge
         const room = rooms[roomId];
         if (room && room.status === 'PLAYING') {
             if (room.players[socket.id]) {
                 room.players[socket.id].x = x;
                 room.players[socket.id].y = y;
                 room.players[socket.id].angle = angle;
+                room.players[socket.id].z = z;
 
                 // Broadcast to others immediately (or throttle in tick)
-                socket.to(roomId).emit('playerMoved', { id: socket.id, x, y, angle });
+                socket.to(roomId).emit('playerMoved', { id: socket.id, x, y, angle, z });
             }
         }
     });
 
+    socket.on('useDoor', (data) => {
+        // data = { roomId, x, y }
+        const { roomId, x, y } = data;
+        const room = rooms[roomId];
+        if (!room || room.status !== 'PLAYING' || !room.players[socket.id] || !isDoorCell(room, x, y)) return;
+
+        const key = `${x},${y}`;
+        const door = room.doors[key] || (room.doors[key] = { isOpen: false, closeTimeout: null });
+        if (!door.isOpen) {
+            setDoorOpen(roomId, x, y, true);
+        } else if (!isDoorOccupied(room, x, y)) {
+            setDoorOpen(roomId, x, y, false);
+        }
+    });
+
+    // Tactical map markers, shared with the whole room. Each player keeps their newest few.
+    socket.on('placeWaypoint', (data) => {
+        // data = { roomId, x, y }
+        const { roomId, x, y } = data;
+        const room = rooms[roomId];
+        const player = room && room.players[socket.id];
+        if (!player || !Number.isFinite(x) || !Number.isFinite(y)) return;
+
+        const own = Object.values(room.waypoints).filter(w => w.ownerId === socket.id);
+        if (own.length >= MAX_WAYPOINTS) removeWaypoint(roomId, own[0].id);
+        const waypoint = { id: uuidv4().substring(0, 8), pos: { x, y }, ownerId: socket.id, color: player.color };
+        room.waypoints[waypoint.id] = waypoint;
+        io.to(roomId).emit('waypointPlaced', waypoint);
+    });
+
+    socket.on('removeWaypoint', (data) => {
+        // data = { roomId, id }
+        const room = rooms[data.roomId];
+        const waypoint = room && room.waypoints[data.id];
+        if (waypoint && waypoint.ownerId === socket.id) removeWaypoint(data.roomId, data.id);
+    });
+
     socket.on('playerShoot', (data) => {
         const { roomId } = data;
         socket.to(roomId).emit('otherPlayerShot', { id: socket.id });
@@ -197,19 +334,13 @@ io.on('connection', (socket) => {
 
                     const victimRef = roomRef.players[victimId];
 
-                    const SAFE_SPAWNS = [
-                        { x: 2.5, y: 2.5 },
-                        { x: 21.5, y: 2.5 },
-                        { x: 2.5, y: 21.5 },
-                        { x: 21.5, y: 21.5 },
-                        { x: 12.0, y: 12.0 }
-                    ];
-                    const spawn = SAFE_SPAWNS[Math.floor(Math.random() * SAFE_SPAWNS.length)];
+                    const spawn = pickSpawn(roomRef);
 
                     victimRef.health = 100;
                     victimRef.isDead = false;
                     victimRef.x = spawn.x;
                     victimRef.y = spawn.y;
+                    victimRef.angle = spawn.angle || 0;
 
                     // 3. Tell everyone they are alive again at the new spot
                     io.to(roomId).emit('healthUpdate', { id: victimId, health: 100, isDead: false });
@@ -219,11 +350,11 @@ io.on('connection', (socket) => {
                         id: victimId,
                         x: victimRef.x,
                         y: victimRef.y,
-                        angle: 0
+                        angle: victimRef.angle
                     });
 
                     // Tell the player specifically to reset their local camera
-                    io.to(victimId).emit('playerRespawn', { x: victimRef.x, y: victimRef.y });
+                    io.to(victimId).emit('playerRespawn', { x: victimRef.x, y: victimRef.y, angle: victimRef.angle });
                 }, 3000); // Close setTimeout
             } // Close if (victim.health <= 0)
 
@@ -280,6 +411,7 @@ io.on('connection', (socket) => {
             const room = rooms[roomId];
             if (room.players[socket.id]) {
                 delete room.players[socket.id];
+                Object.values(room.waypoints).filter(w => w.ownerId === socket.id).forEach(w => removeWaypoint(roomId, w.id));
 
                 const count = Object.keys(room.players).length;
 
@@ -316,6 +448,7 @@ io.on('connection', (socket) => {
                         // Room empty
                         if (room.timerInterval) clearInterval(room.timerInterval);
                         if (room.autoWinTimeout) clearTimeout(room.autoWinTimeout);
+                        Object.values(room.doors).forEach(d => d.closeTimeout && clearTimeout(d.closeTimeout));
                         delete rooms[roomId];
                         console.log(`Room ${roomId} deleted`);
                     }
@@ -333,12 +466,50 @@ io.on('connection', (socket) => {
     });
 });
 
+function getDoorStates(room) {
+    const states = {};
+    for (const [key, door] of Object.entries(room.doors)) {
+        states[key] = door.isOpen;
+    }
+    return states;
+}
+
+function isDoorOccupied(room, x, y) {
+    return Object.values(room.players).some(p => !p.isDead && Math.floor(p.x) === x && Math.floor(p.y) === y);
+}
+
+function setDoorOpen(roomId, x, y, isOpen) {
+    const room = rooms[roomId];
+    if (!room) return;
+
+    const door = room.doors[`${x},${y}`];
+    if (door.closeTimeout) clearTimeout(door.closeTimeout);
+    door.closeTimeout = null;
+    door.isOpen = isOpen;
+    io.to(roomId).emit('doorUpdate', { x, y, isOpen });
+
+    if (isOpen) scheduleDoorClose(roomId, x, y);
+}
+
+function scheduleDoorClose(roomId, x, y) {
+    const door = rooms[roomId].doors[`${x},${y}`];
+    door.closeTimeout = setTimeout(() => {
+        const roomRef = rooms[roomId]; // Re-fetch to ensure room still exists
+        if (!roomRef) return;
+        // Never close on top of a player, try again later
+        if (isDoorOccupied(roomRef, x, y)) scheduleDoorClose(roomId, x, y);
+        else setDoorOpen(roomId, x, y, false);
+    }, DOOR_HOLD_TIME);
+}
+
 function getRoomList() {
     return Object.values(rooms).map(r => ({
         id: r.id,
         count: Object.keys(r.players).length,
         status: r.status,
-        timeLeft: r.timeLeft
+        timeLeft: r.timeLeft,
+        mapId: r.mapId,
+        mapName: getMapName(r.mapId)
     }));
 }
 
@@ -1,21 +1,28 @@
 import React, { useState } from 'react';
 import { Game } from './components/Game';
 import { Homepage } from './components/Homepage';
-import { type DifficultyLevel, Difficulty } from './types';
+import { type DifficultyLevel, type LocalMatchConfig, Difficulty } from './types';
 import { Lobby } from './components/Lobby';
+import { SplitScreen } from './components/SplitScreen';
+import { MapEditor } from './components/MapEditor';
+import { DEFAULT_MAP_ID } from './maps';
 
 const App: React.FC = () => {
   const [difficulty, setDifficulty] = useState<DifficultyLevel | null>(null);
-  const [view, setView] = useState<'HOME' | 'LOBBY'>('HOME');
+  const [mapId, setMapId] = useState(DEFAULT_MAP_ID);
+  const [view, setView] = useState<'HOME' | 'LOBBY' | 'EDITOR'>('HOME');
   const [isMultiplayer, setIsMultiplayer] = useState(false);
+  const [localMatch, setLocalMatch] = useState<LocalMatchConfig | null>(null);
 
-  const handleStartGame = (diff: DifficultyLevel) => {
+  const handleStartGame = (diff: DifficultyLevel, map: string) => {
     setDifficulty(diff);
+    setMapId(map);
     setIsMultiplayer(false);
   };
 
-  const handleMultiplayerJoin = (roomId: string) => {
+  const handleMultiplayerJoin = (_roomId: string, map: string) => {
     setDifficulty(Difficulty.MEDIUM); // Default difficulty for MP
+    setMapId(map); // The room's map, picked by whoever created it
     setIsMultiplayer(true);
     // Note: We don't need to store roomId here, NetworkManager handles it.
   };
@@ -23,6 +30,7 @@ const App: React.FC = () => {
   const handleExit = () => {
     setDifficulty(null);
     setIsMultiplayer(false);
+    setLocalMatch(null);
     setView('HOME');
   };
 
@@ -36,13 +44,19 @@ const App: React.FC = () => {
         }}
       />
 
-      {!difficulty && view === 'HOME' && (
+      {!difficulty && !localMatch && view === 'HOME' && (
         <Homepage
           onStart={handleStartGame}
           onMultiplayer={() => setView('LOBBY')}
+          onLocal={setLocalMatch}
+          onEditor={() => setView('EDITOR')}
         />
       )}
 
+      {view === 'EDITOR' && (
+        <MapEditor onExit={() => setView('HOME')} />
+      )}
+
       {!difficulty && view === 'LOBBY' && (
         <Lobby
           onJoin={handleMultiplayerJoin}
@@ -50,11 +64,19 @@ const App: React.FC = () => {
         />
       )}
 
+      {localMatch && (
+        <SplitScreen
+          config={localMatch}
+          onExit={handleExit}
+        />
+      )}
+
       {difficulty && (
         <Game
           difficulty={difficulty}
           onExit={handleExit}
           isMultiplayer={isMultiplayer}
+          mapId={mapId}
         />
       )}
     </div>
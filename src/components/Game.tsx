@@ -1,40 +1,84 @@
 
 import React, { useEffect, useRef, useState } from 'react';
 import { NetworkManager } from '../engine/NetworkManager';
-import { Raycaster } from '../engine/Raycaster';
+import { RenderHost } from '../engine/RenderHost';
 import { generateTextures } from '../engine/textures';
 import { SoundManager } from '../engine/SoundManager';
+import { getDoor } from '../engine/doors';
+import { addDynamicLight } from '../engine/lighting';
+import { createMapItems, createMapWorld } from '../engine/maps';
+import { getMap } from '../maps';
+import { spillBlood } from '../engine/decals';
+import { addScreenEffect, pruneScreenEffects } from '../engine/postprocess';
+import { createExploredMap, revealCells } from '../engine/fog';
+import { damageEnemy, fireShot, getShotDamage } from '../engine/combat';
+import { applyGravity, jump, movePlayer, turnPlayer, updateZoom } from '../engine/physics';
+import {
+  canPickUp,
+  collectItems,
+  createSimulation,
+  getFacingDoor,
+  interactAhead,
+  spawnEnemy,
+  updateAI,
+  updateTriggers,
+  updateWorld,
+  type SimulationEvents
+} from '../engine/simulation';
+import { playAnimation, updateAnimation } from '../engine/animation';
+import { MAX_RESOLUTION_SCALE, MIN_RESOLUTION_SCALE, RESOLUTION_CHECK_INTERVAL, RESOLUTION_STEP, TARGET_FRAME_TIME, adjustResolutionScale } from '../engine/resolution';
 import {
   type GameState,
   type Player,
-  type Vector2,
   type Enemy,
+  type MapDefinition,
+  type PlayerSpawn,
   EnemyState,
+  EnemyAnimation,
   CellType,
-  Difficulty,
   type DifficultyLevel,
-  type Decal
+  RenderMode,
+  type RenderModeValue,
+  PostEffect,
+  type PostEffectName,
+  type ScreenEffect,
+  type Waypoint,
+  type Vector2
 } from '../types';
 import {
   SCREEN_WIDTH,
   SCREEN_HEIGHT,
-  WORLD_MAP,
-  MOVE_SPEED,
-  SPAWN_POINTS,
-  MAX_ENEMIES,
-  SPAWN_INTERVAL,
+  TEXTURE_PACK_URL,
   FOV,
   CLIP_SIZE,
   MAX_RESERVE,
   START_AMMO,
   START_RESERVE,
   RELOAD_TIME,
+  MAP_KEY,
+  MAX_WAYPOINTS,
   WEAPONS
 } from '../constants';
 import { Minimap } from './Minimap';
+import { TacticalMap } from './TacticalMap';
+import type { MapView } from '../engine/mapView';
+
+// Pause menu toggles. Scanlines and night vision stay on while enabled, the rest need a trigger.
+const POST_EFFECT_LABELS: Record<PostEffectName, string> = {
+  [PostEffect.SCANLINES]: 'CRT Scanlines',
+  [PostEffect.CHROMATIC]: 'Damage Aberration',
+  [PostEffect.NIGHT_VISION]: 'Night Vision',
+  [PostEffect.GRAYSCALE]: 'Grayscale When Dead',
+  [PostEffect.BLUR]: 'Blur When Paused'
+};
 
-const GRAVITY = 25.0;
-const JUMP_FORCE = 8.5;
+const DEFAULT_POST_EFFECTS: Record<PostEffectName, boolean> = {
+  [PostEffect.SCANLINES]: false,
+  [PostEffect.CHROMATIC]: true,
+  [PostEffect.NIGHT_VISION]: false,
+  [PostEffect.GRAYSCALE]: true,
+  [PostEffect.BLUR]: true
+};
 
 const safeRequestPointerLock = (element: HTMLCanvasElement) => {
   try {
@@ -43,10 +87,10 @@ const safeRequestPointerLock = (element: HTMLCanvasElement) => {
   } catch (e) { }
 };
 
-const createInitialPlayer = (): Player => ({
-  pos: { x: 22, y: 12 },
-  dir: { x: -1, y: 0 },
-  plane: { x: 0, y: 0.66 },
+const createInitialPlayer = (spawn: PlayerSpawn): Player => ({
+  pos: { x: spawn.x, y: spawn.y },
+  dir: { x: Math.cos(spawn.angle ?? 0), y: Math.sin(spawn.angle ?? 0) },
+  plane: { x: Math.sin(spawn.angle ?? 0) * FOV, y: -Math.cos(spawn.angle ?? 0) * FOV },
   health: 100,
   ammo: START_AMMO,
   ammoReserve: START_RESERVE,
@@ -56,17 +100,40 @@ const createInitialPlayer = (): Player => ({
   weaponIndex: 0
 });
 
+// Singleplayer starts on the map's first spawn, multiplayer where the server put us on joining
+const getStartSpawn = (level: MapDefinition, isMultiplayer: boolean): PlayerSpawn => {
+  const net = NetworkManager.getInstance();
+  const me = isMultiplayer && net.playerId ? net.players[net.playerId] : null;
+  return me ? { x: me.x, y: me.y, angle: me.angle } : level.playerSpawns[0];
+};
+
+// A fresh level: map layers, and in singleplayer the pickups the map places
+const createLevelState = (level: MapDefinition, isMultiplayer: boolean): GameState => ({
+  player: createInitialPlayer(getStartSpawn(level, isMultiplayer)),
+  enemies: [],
+  items: isMultiplayer ? [] : createMapItems(level, performance.now()),
+  particles: [],
+  decals: {},
+  ...createMapWorld(level),
+  lights: [],
+  effects: [],
+  lastTime: performance.now(),
+  score: 0,
+});
+
 interface GameProps {
   difficulty: DifficultyLevel;
   onExit: () => void;
   isMultiplayer?: boolean;
+  mapId: string;
 }
 
-export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer = false }) => {
+export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer = false, mapId }) => {
+  const level = getMap(mapId);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const weaponRef = useRef<HTMLDivElement>(null);
   const requestRef = useRef<number>(0);
-  const raycaster = useRef(new Raycaster(SCREEN_WIDTH, SCREEN_HEIGHT));
+  const renderHost = useRef<RenderHost | null>(null);
   const soundManager = useRef(new SoundManager());
 
   const keys = useRef<Record<string, boolean>>({});
@@ -88,13 +155,22 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
   const [hitMarkerOpacity, setHitMarkerOpacity] = useState(0);
   const hitMarkerOpacityRef = useRef(0); // Ref for game loop access
 
-  const [isHeadshot, setIsHeadshot] = useState(false);
-
   const [damageFlash, setDamageFlash] = useState(0);
   const damageFlashRef = useRef(0); // Ref for game loop access
 
   const [sensitivity, setSensitivity] = useState(1.0);
   const [isInfiniteAmmo, setIsInfiniteAmmo] = useState(!isMultiplayer);
+  const [renderMode, setRenderMode] = useState<RenderModeValue>(RenderMode.CANVAS);
+  const [resolutionScale, setResolutionScale] = useState(1.0);
+  const [isAutoResolution, setIsAutoResolution] = useState(false);
+  const isAutoResolutionRef = useRef(false); // Ref for game loop access
+  const [postEffects, setPostEffects] = useState<Record<PostEffectName, boolean>>(DEFAULT_POST_EFFECTS);
+  const postEffectsRef = useRef(DEFAULT_POST_EFFECTS); // Ref for game loop access
+
+  const togglePostEffect = (id: PostEffectName) => setPostEffects({ ...postEffects, [id]: !postEffects[id] });
+  useEffect(() => { postEffectsRef.current = postEffects; }, [postEffects]);
+  const frameInterval = useRef(TARGET_FRAME_TIME); // Smoothed ms between frames
+  const lastResolutionCheck = useRef(0);
   const [timeLeft, setTimeLeft] = useState(NetworkManager.getInstance().timeLeft);
   const [gameOverData, setGameOverData] = useState<{ winnerId: string, winnerName: string, scores: any } | null>(null);
 
@@ -103,36 +179,87 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
   const [autoWinTimeout, setAutoWinTimeout] = useState<number | null>(null);
 
   const shootTimer = useRef<number | null>(null);
-  const lastSpawnTime = useRef(0);
-  const enemyIdCounter = useRef(0);
-  const itemIdCounter = useRef(0);
-
-  const stateRef = useRef<GameState>({
-    player: createInitialPlayer(),
-    enemies: [],
-    items: [],
-    particles: [],
-    decals: [],
-    map: WORLD_MAP,
-    lastTime: performance.now(),
-    score: 0,
-  });
+  // Remote players keep their avatar between ticks so their animations carry on
+  const netAvatars = useRef<Record<string, Enemy>>({});
+  const netLastMoved = useRef<Record<string, number>>({});
+
+  const stateRef = useRef<GameState>(createLevelState(level, isMultiplayer));
+  const exploredRef = useRef(createExploredMap(level.grid)); // Minimap fog of war, filled in from rendered frames
+  const [isMinimapRotating, setIsMinimapRotating] = useState(false);
+  const [isAiDebug, setIsAiDebug] = useState(false); // Shows enemy behaviour states on the maps
+  const [isMapOpen, setIsMapOpen] = useState(false); // Tactical map, shown while MAP_KEY is held
+  const isMapOpenRef = useRef(false);
+  const waypointsRef = useRef<Waypoint[]>([]); // Singleplayer markers; rooms keep theirs in NetworkManager
+  const waypointCounter = useRef(0);
+  const simRef = useRef(createSimulation(level, difficulty, 0)); // Triggers and spawner, singleplayer only
+  const [hudMessage, setHudMessage] = useState<string | null>(null);
+  const hudMessageUntil = useRef(0);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const [levelEnd, setLevelEnd] = useState<string | null>(null); // Set by an END_LEVEL action, holds its text
+  const isLevelEndRef = useRef(false); // Ref for game loop access
 
   const [uiState, setUiState] = useState<GameState>(stateRef.current);
   const texturesRef = useRef(generateTextures());
+  const keyActionsRef = useRef({ operateDoor: () => {}, reload: () => {} }); // Latest handlers for the key listener
+
+  // How the shared simulation (see engine/simulation) reaches this player's HUD and speakers
+  const getSimEvents = (): SimulationEvents => ({
+    sound: soundManager.current,
+    hurtPlayer: (player, damage, now) => {
+      player.health -= damage;
+      damageFlashRef.current = 0.8; // Trigger Flash via Ref
+      setDamageFlash(0.8); // Trigger Flash
+      addScreenEffect(stateRef.current.effects, PostEffect.CHROMATIC, 0.8, 400, now);
+      soundManager.current.playPlayerDamage();
+    },
+    showMessage: (text, until) => {
+      hudMessageUntil.current = until;
+      setHudMessage(text);
+    },
+    endLevel: text => {
+      isLevelEndRef.current = true;
+      setLevelEnd(text);
+      document.exitPointerLock();
+    }
+  });
+
+  const operateDoor = () => {
+    const state = stateRef.current;
+    if (state.player.health <= 0) return;
+    if (!isMultiplayer) {
+      interactAhead(simRef.current, state, state.player, [state.player], performance.now(), getSimEvents());
+      return;
+    }
+    // Server Authoritative Doors
+    const door = getFacingDoor(state.doors, state.player);
+    if (door) NetworkManager.getInstance().sendDoorUse(door.mapX, door.mapY);
+  };
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.code === 'Escape') {
         setIsPaused(prev => !prev);
       }
-      if (e.code === 'KeyR') reload();
-      if (e.code === 'Space') jump();
+      if (e.code === 'KeyR') keyActionsRef.current.reload();
+      if (e.code === 'Space') jump(stateRef.current, stateRef.current.player);
+      if (e.code === 'KeyE') keyActionsRef.current.operateDoor();
+      if (e.code === MAP_KEY) {
+        e.preventDefault(); // Tab would move focus out of the game
+        isMapOpenRef.current = true;
+        isMouseDown.current = false;
+        setIsMapOpen(true);
+      }
       keys.current[e.code] = true;
     };
-    const handleKeyUp = (e: KeyboardEvent) => { keys.current[e.code] = false; };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      keys.current[e.code] = false;
+      if (e.code === MAP_KEY) {
+        isMapOpenRef.current = false;
+        setIsMapOpen(false);
+      }
+    };
     const handleLockChange = () => {
-      if (!document.pointerLockElement && !isGameOver) setIsPaused(true);
+      if (!document.pointerLockElement && !isGameOver && !isLevelEndRef.current) setIsPaused(true);
     };
 
     window.addEventListener('keydown', handleKeyDown);
@@ -149,8 +276,9 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
     const canvas = canvasRef.current;
     if (!canvas) return;
 
+    // The tactical map takes the mouse while it is open
     const handleMouseDown = (e: MouseEvent) => {
-      if (stateRef.current.player.health <= 0 || isPaused) return;
+      if (stateRef.current.player.health <= 0 || isPaused || isMapOpenRef.current) return;
       if (document.pointerLockElement !== canvas) {
         safeRequestPointerLock(canvas);
         soundManager.current.init();
@@ -174,16 +302,13 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
     };
 
     const handleMouseMove = (e: MouseEvent) => {
-      if (stateRef.current.player.health <= 0 || isPaused) return;
+      if (stateRef.current.player.health <= 0 || isPaused || isMapOpenRef.current) return;
       if (document.pointerLockElement === canvas) {
         const { player } = stateRef.current;
         const baseSensitivityX = isZooming.current ? 0.0005 : 0.0022;
         const sensitivityX = baseSensitivityX * sensitivity;
         const sensitivityY = 1.0;
-        const rotX = -e.movementX * sensitivityX;
-        const oldDirX = player.dir.x;
-        player.dir.x = player.dir.x * Math.cos(rotX) - player.dir.y * Math.sin(rotX);
-        player.dir.y = oldDirX * Math.sin(rotX) + player.dir.y * Math.cos(rotX);
+        turnPlayer(player, -e.movementX * sensitivityX);
         player.pitch -= e.movementY * sensitivityY;
         const maxPitch = SCREEN_HEIGHT / 1.5;
         player.pitch = Math.max(-maxPitch, Math.min(maxPitch, player.pitch));
@@ -198,7 +323,7 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
     };
 
     const handleWheel = (e: WheelEvent) => {
-      if (isPaused || isReloading || stateRef.current.player.health <= 0) return;
+      if (isPaused || isReloading || stateRef.current.player.health <= 0 || isMapOpenRef.current) return;
       const { player } = stateRef.current;
       if (e.deltaY > 0) {
         player.weaponIndex = (player.weaponIndex + 1) % WEAPONS.length;
@@ -221,23 +346,15 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
     };
   }, [isPaused, isReloading, sensitivity, isInfiniteAmmo]);
 
-  const jump = () => {
-    const { player } = stateRef.current;
-    if (player.z === 0) player.vz = JUMP_FORCE;
-  };
-
   const restartGame = () => {
-    stateRef.current = {
-      player: createInitialPlayer(),
-      enemies: [],
-      items: [],
-      particles: [],
-      decals: [],
-      map: WORLD_MAP,
-      lastTime: performance.now(),
-      score: 0,
-    };
-    lastSpawnTime.current = performance.now();
+    stateRef.current = createLevelState(level, isMultiplayer);
+    exploredRef.current = createExploredMap(level.grid);
+    waypointsRef.current = [];
+    simRef.current = createSimulation(level, difficulty, performance.now());
+    hudMessageUntil.current = 0;
+    isLevelEndRef.current = false;
+    setHudMessage(null);
+    setLevelEnd(null);
     recoilImpulse.current = 0;
     setIsGameOver(false);
     setIsPaused(false);
@@ -265,28 +382,12 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
     }, RELOAD_TIME);
   };
 
-  const spawnEnemy = (now: number) => {
-    if (stateRef.current.enemies.length >= MAX_ENEMIES) return;
-    if (now - lastSpawnTime.current < SPAWN_INTERVAL) return;
-    const point = SPAWN_POINTS[Math.floor(Math.random() * SPAWN_POINTS.length)];
-    const dx = point.x - stateRef.current.player.pos.x;
-    const dy = point.y - stateRef.current.player.pos.y;
-    if (Math.sqrt(dx * dx + dy * dy) < 5.0) return;
-    stateRef.current.enemies.push({
-      id: ++enemyIdCounter.current,
-      pos: { x: point.x, y: point.y },
-      dir: { x: 0, y: 1 },
-      state: EnemyState.IDLE,
-      health: 100,
-      textureId: CellType.ENEMY_GUARD,
-      lastAttackTime: now,
-      animationTimer: 0
-    });
-    lastSpawnTime.current = now;
-  };
+  // They close over this render's state (isReloading, the map), so the listener above is pointed at the new ones
+  useEffect(() => { keyActionsRef.current = { operateDoor, reload }; });
 
   const shoot = () => {
-    const { player, enemies, map, decals } = stateRef.current;
+    const state = stateRef.current;
+    const { player } = state;
     const weapon = WEAPONS[player.weaponIndex];
     const now = performance.now();
 
@@ -308,165 +409,23 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
     lastShotTime.current = now;
     soundManager.current.playShoot(weapon.isAuto);
     recoilImpulse.current = weapon.recoil;
+    if (isMultiplayer) NetworkManager.getInstance().sendShoot();
     setIsShooting(true);
     if (shootTimer.current) clearTimeout(shootTimer.current);
     shootTimer.current = window.setTimeout(() => setIsShooting(false), Math.min(weapon.fireRate, 50));
 
-    // Find closest wall hit for Decal spawning
-    let mapX = Math.floor(player.pos.x);
-    let mapY = Math.floor(player.pos.y);
-    const deltaDistX = Math.abs(1 / player.dir.x);
-    const deltaDistY = Math.abs(1 / player.dir.y);
-    let stepX = player.dir.x < 0 ? -1 : 1;
-    let stepY = player.dir.y < 0 ? -1 : 1;
-    let sideDistX = player.dir.x < 0 ? (player.pos.x - mapX) * deltaDistX : (mapX + 1.0 - player.pos.x) * deltaDistX;
-    let sideDistY = player.dir.y < 0 ? (player.pos.y - mapY) * deltaDistY : (mapY + 1.0 - player.pos.y) * deltaDistY;
-    let side = 0;
-    while (map[mapX] && map[mapX][mapY] === 0) {
-      if (sideDistX < sideDistY) { sideDistX += deltaDistX; mapX += stepX; side = 0; }
-      else { sideDistY += deltaDistY; mapY += stepY; side = 1; }
-    }
-    const wallDist = side === 0 ? (sideDistX - deltaDistX) : (sideDistY - deltaDistY);
-    let wallX = side === 0 ? player.pos.y + wallDist * player.dir.y : player.pos.x + wallDist * player.dir.x;
-    wallX -= Math.floor(wallX);
-
-    // Create persistent wall decal
-    decals.push({ mapX, mapY, side, wallX, wallY: 0.5 + (Math.random() - 0.5) * 0.1, life: 1.0 });
-
-    let closestEnemy: Enemy | null = null;
-    let closestDist = Infinity;
-    let hitRelativeY = 0;
-
-    enemies.forEach((enemy: Enemy) => {
-      if (enemy.health <= 0) return;
-      const dx = enemy.pos.x - player.pos.x, dy = enemy.pos.y - player.pos.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      const dot = dx * player.dir.x + dy * player.dir.y;
-      if (dot > 0 && dist < wallDist) {
-        const perpDist = Math.abs(dx * player.dir.y - dy * player.dir.x);
-        if (perpDist < 0.5 && hasLineOfSight(player.pos, enemy.pos, map)) {
-          const transformY = dist;
-          // Apply Zoom to Hit Detection (Match Raycaster Logic)
-          const zoom = FOV / currentFovScale.current;
-          const vOffset = player.pitch + (player.z * SCREEN_HEIGHT * zoom) / transformY;
-          const spriteHeight = (SCREEN_HEIGHT / transformY) * zoom;
-
-          const drawStartY = -spriteHeight / 2 + SCREEN_HEIGHT / 2 + vOffset;
-          const drawEndY = spriteHeight / 2 + SCREEN_HEIGHT / 2 + vOffset;
-          const crosshairY = SCREEN_HEIGHT / 2;
-          if (crosshairY >= drawStartY && crosshairY <= drawEndY) {
-            if (dist < closestDist) { closestDist = dist; closestEnemy = enemy; hitRelativeY = (crosshairY - drawStartY) / (drawEndY - drawStartY); }
-          }
-        }
-      }
-    });
-
-    if (closestEnemy) {
-      const target = closestEnemy as Enemy;
-      const isHead = hitRelativeY < 0.25;
-      const dmg = isHead ? (weapon.damage * weapon.headshotMultiplier) : weapon.damage;
-
-      if (isMultiplayer && target.networkId) {
-        // Multiplayer Hit
-        NetworkManager.getInstance().sendHit(target.networkId, dmg);
-        // Visual feedback only (Server will send health update)
-        soundManager.current.playEnemyHit(target.pos);
-        setHitMarkerOpacity(1.0);
-        hitMarkerOpacityRef.current = 1.0;
-        if (isHead) {
-          setIsHeadshot(true);
-          setTimeout(() => setIsHeadshot(false), 200);
-        }
-      } else {
-        // Singleplayer Logic
-        target.health -= dmg;
-        setHitMarkerOpacity(1.0);
-        hitMarkerOpacityRef.current = 1.0; // Sync Ref
-        if (isHead) {
-          setIsHeadshot(true);
-          setTimeout(() => setIsHeadshot(false), 200);
-        }
-        if (target.health <= 0) {
-          soundManager.current.playEnemyDeath(target.pos);
-          stateRef.current.score += 100;
-          stateRef.current.items.push({
-            id: ++itemIdCounter.current,
-            pos: { x: target.pos.x, y: target.pos.y },
-            // Restored: Randomized drop between Health and Ammo
-            textureId: Math.random() > 0.5 ? CellType.HEALTH_ORB : CellType.AMMO_BOX,
-            spawnTime: performance.now()
-          });
-        } else {
-          soundManager.current.playEnemyHit(target.pos);
-          target.state = EnemyState.CHASE;
-        }
-      }
-    }
-  };
-
-  const hasLineOfSight = (p1: Vector2, p2: Vector2, map: number[][]): boolean => {
-    const steps = 25;
-    const dx = (p2.x - p1.x) / steps, dy = (p2.y - p1.y) / steps;
-    let cx = p1.x, cy = p1.y;
-    for (let i = 0; i < steps; i++) {
-      cx += dx; cy += dy;
-      if (map[Math.floor(cx)]?.[Math.floor(cy)] > 0) return false;
+    const hit = fireShot(state, player, state.enemies, SCREEN_HEIGHT, currentFovScale.current, now);
+    if (!hit) return;
+    setHitMarkerOpacity(1.0);
+    hitMarkerOpacityRef.current = 1.0; // Sync Ref
+    const damage = getShotDamage(weapon, hit);
+    if (isMultiplayer && hit.target.networkId) {
+      // Multiplayer Hit: visual feedback only, the server sends the health update
+      NetworkManager.getInstance().sendHit(hit.target.networkId, damage);
+      soundManager.current.playEnemyHit(hit.target.pos);
+    } else {
+      state.score += damageEnemy(simRef.current, state, hit.target, damage, player.pos, soundManager.current, now);
     }
-    return true;
-  };
-
-  const updateAI = (dt: number, now: number) => {
-    const { player, enemies, map } = stateRef.current;
-    const ENEMY_SPEED = 2.5, AGGRO_RANGE = 12.0, ATTACK_RANGE = 1.0;
-
-    let damageMelee = 10, damageRanged = 5, shootCooldown = 2500;
-    if (difficulty === Difficulty.MEDIUM) {
-      damageMelee = 20; damageRanged = 10; shootCooldown = 1800;
-    } else if (difficulty === Difficulty.HARD) {
-      damageMelee = 35; damageRanged = 20; shootCooldown = 1200;
-    }
-
-    stateRef.current.enemies = enemies.filter(e => e.health > 0);
-    stateRef.current.enemies.forEach((enemy: Enemy) => {
-      const dx = player.pos.x - enemy.pos.x, dy = player.pos.y - enemy.pos.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      const canSee = hasLineOfSight(enemy.pos, player.pos, map);
-
-      if (enemy.state === EnemyState.IDLE && dist < AGGRO_RANGE && canSee) {
-        enemy.state = EnemyState.CHASE;
-      }
-
-      if (enemy.state === EnemyState.CHASE) {
-        if (dist > ATTACK_RANGE) {
-          const dirX = dx / dist, dirY = dy / dist;
-          const moveStep = ENEMY_SPEED * dt;
-          if (map[Math.floor(enemy.pos.x + dirX * moveStep)]?.[Math.floor(enemy.pos.y)] === 0) enemy.pos.x += dirX * moveStep;
-          if (map[Math.floor(enemy.pos.x)]?.[Math.floor(enemy.pos.y + dirY * moveStep)] === 0) enemy.pos.y += dirY * moveStep;
-        }
-
-        // Enemy Shoot Logic & Audio
-        if (now - enemy.lastAttackTime > 1000 && Math.random() < 0.02) {
-          soundManager.current.playEnemyShoot(enemy.pos);
-          enemy.lastAttackTime = now;
-          // Simple hitscan vs player
-          if (Math.random() < 0.4) {
-            soundManager.current.playPlayerDamage();
-            player.health -= 10;
-            damageFlashRef.current = 0.8; // Trigger Flash via Ref
-            setDamageFlash(0.8); // Trigger Flash
-          }
-        } else if (dist < 9.0 && canSee) {
-          if (now - enemy.lastAttackTime > shootCooldown) {
-            enemy.lastAttackTime = now;
-            player.health -= damageRanged;
-            damageFlashRef.current = 0.8; // Trigger Flash via Ref
-            setDamageFlash(0.8); // Trigger Flash
-            soundManager.current.playEnemyShoot();
-            soundManager.current.playPlayerDamage();
-          }
-        }
-      }
-    });
   };
 
   const lastUiUpdate = useRef(0);
@@ -475,9 +434,10 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
     // if (isPaused) { stateRef.current.lastTime = time; requestRef.current = requestAnimationFrame(tick); return; } // OLD PAUSE
 
     // NEW PAUSE: If Multiplayer, keep rendering. If Singleplayer, hard pause.
-    if (isPaused && !isMultiplayer) { stateRef.current.lastTime = time; requestRef.current = requestAnimationFrame(tick); return; }
+    if ((isPaused || isLevelEndRef.current) && !isMultiplayer) { stateRef.current.lastTime = time; render(); requestRef.current = requestAnimationFrame(tick); return; }
 
     const dt = Math.min(0.1, (time - stateRef.current.lastTime) / 1000);
+    frameInterval.current += (Math.min(100, time - stateRef.current.lastTime) - frameInterval.current) * 0.1;
     stateRef.current.lastTime = time;
 
     // Skip Input/Physics if paused (but allow rendering)
@@ -501,8 +461,14 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
       }
 
       if (!isMultiplayer) {
-        updateAI(dt, time);
-        spawnEnemy(time);
+        const state = stateRef.current, events = getSimEvents();
+        updateAI(simRef.current, state, [state.player], dt, time, events);
+        spawnEnemy(simRef.current, state, [state.player], time);
+        updateTriggers(simRef.current, state, [state.player], time, events);
+        if (hudMessageUntil.current && time > hudMessageUntil.current) {
+          hudMessageUntil.current = 0;
+          setHudMessage(null);
+        }
       } else {
         // MULTIPLAYER SYNC
         const net = NetworkManager.getInstance();
@@ -511,7 +477,7 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
         const p = stateRef.current.player;
         // Calculate angle from dir vector
         const angle = Math.atan2(p.dir.y, p.dir.x);
-        net.sendMove(p.pos.x, p.pos.y, angle);
+        net.sendMove(p.pos.x, p.pos.y, angle, p.z);
 
         // 2. Update network entities (Treat as pseudo-enemies for rendering)
         const allPlayers = net.players;
@@ -521,40 +487,70 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
         Object.values(allPlayers).forEach((np: any) => {
           if (np.id === myId) return; // Don't render self
 
-          // If dead, use dead texture or simple logic
-          if (np.isDead) {
-            // console.log(`DEBUG: Rendering Dead Player ${np.id}`);
+          let avatar = netAvatars.current[np.id];
+          if (!avatar) {
+            avatar = {
+              id: 999, // dummy id
+              pos: { x: np.x, y: np.y },
+              dir: { x: Math.cos(np.angle), y: Math.sin(np.angle) },
+              health: np.health,
+              state: np.isDead ? EnemyState.DEAD : EnemyState.CHASE,
+              textureId: CellType.ENEMY_GUARD,
+              lastAttackTime: 0,
+              animationTimer: 0,
+              networkId: np.id // Store socket ID for hit detection
+            };
+            netAvatars.current[np.id] = avatar;
+          }
+
+          // Position updates arrive slower than frames, so keep walking briefly between them
+          if (avatar.pos.x !== np.x || avatar.pos.y !== np.y) netLastMoved.current[np.id] = time;
+          const isMoving = time - (netLastMoved.current[np.id] ?? 0) < 200;
+
+          avatar.pos = { x: np.x, y: np.y };
+          avatar.dir = { x: Math.cos(np.angle), y: Math.sin(np.angle) };
+          avatar.z = np.z;
+          avatar.palette = np.color;
+          if (!np.isDead && np.health < avatar.health) playAnimation(avatar, EnemyAnimation.PAIN);
+          avatar.health = np.health;
+
+          if (np.isDead && avatar.state !== EnemyState.DYING && avatar.state !== EnemyState.DEAD) avatar.state = EnemyState.DYING;
+          else if (!np.isDead && (avatar.state === EnemyState.DYING || avatar.state === EnemyState.DEAD)) avatar.state = EnemyState.CHASE; // Respawned
+
+          if (updateAnimation(avatar, dt, isMoving)) {
+            avatar.state = EnemyState.DEAD;
+            spillBlood(stateRef.current.decals, avatar.pos, time);
+          }
+          renderList.push(avatar);
+        });
+
+        // Forget players who left the room
+        Object.keys(netAvatars.current).forEach(id => {
+          if (!allPlayers[id]) {
+            delete netAvatars.current[id];
+            delete netLastMoved.current[id];
           }
-          const texture = np.isDead ? CellType.ENEMY_GUARD_DEAD : CellType.ENEMY_GUARD;
-          const state = np.isDead ? EnemyState.DEAD : EnemyState.CHASE;
-
-          renderList.push({
-            id: 999, // dummy id
-            pos: { x: np.x, y: np.y },
-            dir: { x: Math.cos(np.angle), y: Math.sin(np.angle) },
-            health: np.health,
-            state: state,
-            type: 'SOLDIER',
-            textureId: texture,
-            lastAttackTime: 0,
-            path: [],
-            currentFrame: 0,
-            animationTimer: 0,
-            networkId: np.id // Store socket ID for hit detection
-          } as Enemy);
         });
 
         stateRef.current.enemies = renderList;
       }
 
-      stateRef.current.particles.forEach(p => p.life -= dt * 2);
-      stateRef.current.particles = stateRef.current.particles.filter(p => p.life > 0);
-      stateRef.current.decals.forEach(d => d.life -= dt * 0.1);
-      stateRef.current.decals = stateRef.current.decals.filter(d => d.life > 0);
+      updateWorld(stateRef.current, [stateRef.current.player], dt, time, !isMultiplayer);
     } else if (!isGameOver) setIsGameOver(true);
 
+    stateRef.current.effects = pruneScreenEffects(stateRef.current.effects, time);
+
     // Render the game (Canvsa) - Always run at full speed
     render();
+    revealCells(exploredRef.current, renderHost.current?.visibleCells);
+
+    // Automatic resolution: trade pixels for frame time
+    if (isAutoResolutionRef.current && time - lastResolutionCheck.current > RESOLUTION_CHECK_INTERVAL) {
+      lastResolutionCheck.current = time;
+      const current = renderHost.current?.getResolutionScale() ?? 1.0;
+      const next = adjustResolutionScale(current, frameInterval.current, renderHost.current?.frameTime ?? 0);
+      if (next !== current) setResolutionScale(next);
+    }
 
     // Update UI (React) - Throttled to ~10-15 FPS to prevent React overhead lag
     if (time - lastUiUpdate.current > 100) { // 100ms = 10 updates per second
@@ -566,12 +562,9 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
   };
 
   const updatePhysics = (dt: number) => {
-    const { player, map, items } = stateRef.current;
-    if (player.z > 0 || player.vz !== 0) {
-      player.vz -= GRAVITY * dt;
-      player.z += player.vz * dt;
-      if (player.z < 0) { player.z = 0; player.vz = 0; }
-    }
+    const state = stateRef.current;
+    const { player } = state;
+    const onGround = applyGravity(state, player, dt);
     // Movement Logic (Moved UP to be available for Sway)
     let dx = 0, dy = 0;
     if (keys.current['KeyW']) { dx += player.dir.x; dy += player.dir.y; }
@@ -615,39 +608,21 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
     const playerAngle = Math.atan2(player.dir.y, player.dir.x);
     soundManager.current.updateListener(player.pos.x, player.pos.y, playerAngle);
 
-    // Zoom Logic
-    const targetFov = isZooming.current ? 0.33 : FOV; // 0.33 = 2x Zoom (0.66 / 2)
-    currentFovScale.current += (targetFov - currentFovScale.current) * 8.0 * dt;
-    player.plane.x = player.dir.y * currentFovScale.current;
-    player.plane.y = -player.dir.x * currentFovScale.current;
+    // Zoom Logic: 2x while the right button is held
+    currentFovScale.current = updateZoom(player, currentFovScale.current, isZooming.current, dt);
 
-    const now = performance.now();
-    for (let i = items.length - 1; i >= 0; i--) {
-      const item = items[i];
-      if (now - item.spawnTime > 5000) { items.splice(i, 1); continue; }
-      if (Math.sqrt((player.pos.x - item.pos.x) ** 2 + (player.pos.y - item.pos.y) ** 2) < 0.8) {
-        if (isMultiplayer) {
-          // Server Authoritative Pickup
-          NetworkManager.getInstance().sendPickup(item.id);
-        } else {
-          // Client Authoritative (Singleplayer)
-          if (item.textureId === CellType.HEALTH_ORB) { soundManager.current.playHeal(); player.health = Math.min(100, player.health + 30); }
-          else { soundManager.current.playAmmoPickup(); player.ammoReserve = Math.min(MAX_RESERVE, player.ammoReserve + CLIP_SIZE * 2); }
-          items.splice(i, 1);
-        }
-      }
+    if (isMultiplayer) {
+      // Server Authoritative Pickup
+      state.items.filter(item => canPickUp(player, item)).forEach(item => NetworkManager.getInstance().sendPickup(item.id));
+    } else {
+      collectItems(state, player, performance.now(), getSimEvents());
     }
 
-    if (len > 0) {
-      const move = (MOVE_SPEED * dt) / len;
-      if (map[Math.floor(player.pos.x + dx * move)]?.[Math.floor(player.pos.y)] === 0) player.pos.x += dx * move;
-      if (map[Math.floor(player.pos.x)]?.[Math.floor(player.pos.y + dy * move)] === 0) player.pos.y += dy * move;
-      walkCycle.current += dt * 15;
-    }
+    if (movePlayer(state, player, dx, dy, dt)) walkCycle.current += dt * 15;
     if (recoilImpulse.current > 0) recoilImpulse.current = Math.max(0, recoilImpulse.current - dt * 8);
     if (weaponRef.current) {
-      const bobY = len > 0 && player.z === 0 ? Math.sin(walkCycle.current * 1.5) * 8 : 0;
-      const bobX = len > 0 && player.z === 0 ? Math.cos(walkCycle.current * 0.75) * 6 : 0;
+      const bobY = len > 0 && onGround ? Math.sin(walkCycle.current * 1.5) * 8 : 0;
+      const bobX = len > 0 && onGround ? Math.cos(walkCycle.current * 0.75) * 6 : 0;
 
       // Combine Sway + Bobbing + Recoil
       weaponRef.current.style.transform = `
@@ -660,9 +635,17 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
   };
 
   const render = () => {
-    const ctx = canvasRef.current?.getContext('2d', { alpha: false });
     const zoom = FOV / currentFovScale.current;
-    if (ctx) raycaster.current.render(ctx, stateRef.current, texturesRef.current, isShooting, zoom);
+    const state = stateRef.current;
+    // Settings and game state add their effects to the triggered ones, disabled effects are dropped
+    const effects: ScreenEffect[] = [
+      ...state.effects,
+      { id: PostEffect.SCANLINES, strength: 1 },
+      { id: PostEffect.NIGHT_VISION, strength: 1 },
+      ...(state.player.health <= 0 ? [{ id: PostEffect.GRAYSCALE, strength: 1 }] : []),
+      ...(isPaused ? [{ id: PostEffect.BLUR, strength: 1 }] : [])
+    ].filter(e => postEffectsRef.current[e.id]);
+    renderHost.current?.render({ ...state, effects }, zoom);
   };
 
   // Network Listeners - Stable Attachment
@@ -675,6 +658,7 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
     net.onPlayerRespawn = (pos) => {
       stateRef.current.player.pos.x = pos.x;
       stateRef.current.player.pos.y = pos.y;
+      if (pos.angle !== undefined) stateRef.current.player.dir = { x: Math.cos(pos.angle), y: Math.sin(pos.angle) };
       stateRef.current.player.health = 100;
       // Refill Ammo on Respawn (Hardcore Loop)
       stateRef.current.player.ammo = START_AMMO;
@@ -694,6 +678,7 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
         if (data.health < oldHealth) {
           setDamageFlash(0.6);
           damageFlashRef.current = 0.6;
+          addScreenEffect(stateRef.current.effects, PostEffect.CHROMATIC, 0.6, 400, performance.now());
           soundManager.current.playPlayerDamage();
         }
       }
@@ -721,13 +706,14 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
         soundManager.current.playAmmoPickup();
         stateRef.current.player.ammoReserve = Math.min(MAX_RESERVE, stateRef.current.player.ammoReserve + CLIP_SIZE * 2);
       }
+      addDynamicLight(stateRef.current.lights, stateRef.current.player.pos, 0.8, 2.5, 300, performance.now());
     };
 
-    net.onPlayerLeft = (id) => {
+    net.onPlayerLeft = () => {
       setActivePlayerCount(Object.keys(net.players).length);
     };
 
-    net.onPlayerJoined = (data) => {
+    net.onPlayerJoined = () => {
       setActivePlayerCount(Object.keys(net.players).length);
     };
 
@@ -744,6 +730,30 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
       setTimeLeft(time);
     };
 
+    // Doors that were already open when we joined
+    Object.entries(net.doorStates).forEach(([key, isOpen]) => {
+      const door = stateRef.current.doors[key];
+      if (door) door.isOpen = isOpen;
+    });
+
+    net.onDoorUpdate = (data) => {
+      const door = getDoor(stateRef.current.doors, data.x, data.y);
+      if (!door) return;
+      door.isOpen = data.isOpen;
+      soundManager.current.playDoor({ x: door.mapX + 0.5, y: door.mapY + 0.5 });
+    };
+
+    // Remote muzzle flashes light up the shooter
+    net.onOtherPlayerShot = (id) => {
+      const shooter = net.players[id];
+      if (shooter) addDynamicLight(stateRef.current.lights, { x: shooter.x, y: shooter.y }, 0.9, 5.0, 80, performance.now());
+      const avatar = netAvatars.current[id];
+      if (avatar) {
+        playAnimation(avatar, EnemyAnimation.ATTACK);
+        avatar.lastShotAt = performance.now();
+      }
+    };
+
     net.onGameOver = (data) => {
       setGameOverData(data);
       setIsPaused(true);
@@ -768,18 +778,59 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
       net.onPlayerJoined = null;
       net.onWaitingForPlayers = null;
       net.onGameResumed = null;
+      net.onDoorUpdate = null;
+      net.onOtherPlayerShot = null;
     };
   }, []); // EMPTIED DEPENDENCY ARRAY to prevent re-runs
 
   useEffect(() => { requestRef.current = requestAnimationFrame(tick); return () => cancelAnimationFrame(requestRef.current); }, [isPaused]);
 
+  // The 3D view renders in a worker where OffscreenCanvas is supported (declared before the settings effects below)
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const host = RenderHost.attach(canvasRef.current, SCREEN_WIDTH, SCREEN_HEIGHT, texturesRef.current);
+    if (TEXTURE_PACK_URL) host.loadTexturePack(TEXTURE_PACK_URL);
+    host.onError = setRenderError;
+    renderHost.current = host;
+    return () => {
+      host.onError = null;
+      host.release();
+    };
+  }, []);
+  useEffect(() => { renderHost.current?.setMode(renderMode); }, [renderMode]);
+  useEffect(() => { renderHost.current?.setResolutionScale(resolutionScale); }, [resolutionScale]);
+
   const currentWeapon = WEAPONS[uiState.player.weaponIndex];
 
+  // Read by the minimap and tactical map on their own redraws
+  const getMapView = (): MapView => ({
+    state: stateRef.current,
+    explored: exploredRef.current,
+    objectives: level.objectives,
+    waypoints: isMultiplayer ? Object.values(NetworkManager.getInstance().waypoints) : waypointsRef.current,
+    showAi: isAiDebug
+  });
+
+  const placeWaypoint = (pos: Vector2) => {
+    if (isMultiplayer) {
+      NetworkManager.getInstance().sendWaypoint(pos.x, pos.y);
+      return;
+    }
+    const waypoint = { id: `wp-${waypointCounter.current++}`, pos, ownerId: 'local', color: '#22c55e' };
+    waypointsRef.current = [...waypointsRef.current, waypoint].slice(-MAX_WAYPOINTS);
+  };
+
+  const removeWaypoint = (id: string) => {
+    if (isMultiplayer) NetworkManager.getInstance().removeWaypoint(id);
+    else waypointsRef.current = waypointsRef.current.filter(w => w.id !== id);
+  };
+
   return (
     <div className="relative group select-none overflow-hidden bg-black border-[12px] border-neutral-900 shadow-2xl">
       <canvas ref={canvasRef} width={SCREEN_WIDTH} height={SCREEN_HEIGHT} className="block cursor-none" style={{ width: '1280px', height: '720px' }} />
 
-      <Minimap gameState={uiState} />
+      <Minimap getView={getMapView} rotate={isMinimapRotating} />
+      {isMapOpen && !isPaused && <TacticalMap getView={getMapView} onPlaceWaypoint={placeWaypoint} onRemoveWaypoint={removeWaypoint} />}
 
       {/* TACTICAL HUD */}
       <div className="absolute top-0 right-0 p-10 flex flex-col items-end z-20 pointer-events-none">
@@ -905,6 +956,21 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
         </div>
       )}
 
+      {/* Map trigger message */}
+      {hudMessage && !levelEnd && (
+        <div className="absolute top-24 left-1/2 -translate-x-1/2 z-30 px-6 py-3 bg-black/70 border border-white/20 text-white font-mono text-sm uppercase tracking-widest text-center">
+          {hudMessage}
+        </div>
+      )}
+
+      {/* The worker rendering the 3D view crashed */}
+      {renderError && (
+        <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black/80 font-mono text-center">
+          <div className="text-red-500 text-xl font-bold uppercase tracking-widest">3D view stopped</div>
+          <div className="mt-2 text-xs text-gray-400">{renderError} (reload the page to restart it)</div>
+        </div>
+      )}
+
       {/* MATCH TIMER (Multiplayer Only) */}
       {isMultiplayer && (
         <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40">
@@ -940,8 +1006,8 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
       )}
 
       {/* PAUSE */}
-      {isPaused && !gameOverData && (
-        <div className="absolute inset-0 bg-black/70 backdrop-blur-md flex flex-col items-center justify-center z-50">
+      {isPaused && !gameOverData && !levelEnd && (
+        <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center z-50">
           <h2 className="text-white font-mono text-5xl font-black mb-10 tracking-[0.2em]">TERMINAL PAUSE</h2>
           <div className="flex flex-col gap-6 w-72 mb-10 text-white">
             <div className="flex flex-col gap-2">
@@ -971,6 +1037,73 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
               </button>
             )}
 
+            <div className="flex flex-col gap-2">
+              <div className="flex justify-between font-mono text-[10px] text-white/40 uppercase tracking-widest">
+                <span>Render Resolution</span>
+                <span>{Math.round(resolutionScale * 100)}%{isAutoResolution ? ' (Auto)' : ''}</span>
+              </div>
+              <input
+                type="range"
+                min={MIN_RESOLUTION_SCALE}
+                max={MAX_RESOLUTION_SCALE}
+                step={RESOLUTION_STEP}
+                value={resolutionScale}
+                disabled={isAutoResolution}
+                onChange={(e) => setResolutionScale(parseFloat(e.target.value))}
+                className="w-full accent-green-500 bg-white/10 h-1 rounded-full appearance-none cursor-pointer disabled:opacity-30"
+              />
+              <button
+                onClick={() => {
+                  isAutoResolutionRef.current = !isAutoResolution;
+                  setIsAutoResolution(!isAutoResolution);
+                }}
+                className={`w-full py-2 font-mono text-xs font-black uppercase tracking-widest border transition-all ${isAutoResolution ? 'bg-green-600 border-green-400 text-white' : 'border-white/20 text-white/60 hover:border-white/40'}`}
+              >
+                Auto Resolution: {isAutoResolution ? 'On' : 'Off'}
+              </button>
+            </div>
+
+            {/* Renderer comparison: frame time is the smoothed cost of Raycaster.render */}
+            <button
+              onClick={() => setRenderMode(renderMode === RenderMode.CANVAS ? RenderMode.BUFFER : RenderMode.CANVAS)}
+              className="w-full py-4 font-mono font-black uppercase tracking-widest border border-white/20 text-white/60 hover:border-white/40 transition-all"
+            >
+              Renderer: {renderMode === RenderMode.CANVAS ? 'Canvas' : 'Pixel Buffer'}
+              <span className="block text-[10px] text-white/40 mt-1">
+                {renderHost.current?.frameTime.toFixed(1) ?? '-'} ms / frame {renderHost.current?.usesWorker ? '(Worker)' : '(Main Thread)'}
+              </span>
+            </button>
+
+            <button
+              onClick={() => setIsMinimapRotating(!isMinimapRotating)}
+              className={`w-full py-2 font-mono text-xs font-black uppercase tracking-widest border transition-all ${isMinimapRotating ? 'bg-green-600 border-green-400 text-white' : 'border-white/20 text-white/60 hover:border-white/40'}`}
+            >
+              Minimap: {isMinimapRotating ? 'Rotate With Player' : 'North Up'}
+            </button>
+
+            {/* Behaviour debugging: enemy states and paths on the minimap and tactical map */}
+            {!isMultiplayer && (
+              <button
+                onClick={() => setIsAiDebug(!isAiDebug)}
+                className={`w-full py-2 font-mono text-xs font-black uppercase tracking-widest border transition-all ${isAiDebug ? 'bg-green-600 border-green-400 text-white' : 'border-white/20 text-white/60 hover:border-white/40'}`}
+              >
+                AI Debug: {isAiDebug ? 'On' : 'Off'}
+              </button>
+            )}
+
+            <div className="flex flex-col gap-2">
+              <div className="font-mono text-[10px] text-white/40 uppercase tracking-widest">Screen Effects</div>
+              {(Object.keys(POST_EFFECT_LABELS) as PostEffectName[]).map(id => (
+                <button
+                  key={id}
+                  onClick={() => togglePostEffect(id)}
+                  className={`w-full py-2 font-mono text-xs font-black uppercase tracking-widest border transition-all ${postEffects[id] ? 'bg-green-600 border-green-400 text-white' : 'border-white/20 text-white/60 hover:border-white/40'}`}
+                >
+                  {POST_EFFECT_LABELS[id]}: {postEffects[id] ? 'On' : 'Off'}
+                </button>
+              ))}
+            </div>
+
             <button onClick={() => setIsPaused(false)} className="py-4 bg-white text-black font-mono font-black uppercase tracking-widest hover:bg-neutral-200 transition-colors">Resume</button>
             <button
               onClick={() => {
@@ -985,8 +1118,20 @@ export const Game: React.FC<GameProps> = ({ difficulty, onExit, isMultiplayer =
         </div>
       )}
 
+      {levelEnd && !isGameOver && (
+        <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center z-50">
+          <h1 className="text-7xl font-black text-green-500 font-mono mb-4">MISSION COMPLETE</h1>
+          <div className="text-white/70 font-mono uppercase tracking-widest mb-2">{levelEnd}</div>
+          <div className="text-white font-mono text-2xl mb-12">SCORE {uiState.score}</div>
+          <div className="flex gap-6">
+            <button onClick={restartGame} className="px-12 py-5 bg-green-600 text-white font-mono font-black uppercase tracking-widest">Replay</button>
+            <button onClick={onExit} className="px-12 py-5 border-2 border-white text-white font-mono font-black uppercase tracking-widest hover:bg-white hover:text-black transition-all">Exit</button>
+          </div>
+        </div>
+      )}
+
       {isGameOver && (
-        <div className="absolute inset-0 bg-black flex flex-col items-center justify-center z-50">
+        <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center z-50">
           <h1 className="text-7xl font-black text-red-600 font-mono mb-12">MISSION FAILED</h1>
           <button onClick={restartGame} className="px-12 py-5 bg-red-600 text-white font-mono font-black uppercase tracking-widest">Redeploy</button>
         </div>
@@ -0,0 +1,47 @@
+import React from 'react';
+import { GENERATOR_LIMITS, generatedMapId, parseGeneratedMapId, randomSeed, type GeneratorOptions } from '../engine/generator';
+
+const SIZES = [16, 24, 32, 48, 64];
+
+const range = ([min, max]: readonly [number, number]) => Array.from({ length: max - min + 1 }, (_, i) => min + i);
+
+interface GeneratorSettingsProps {
+  mapId: string;
+  onChange: (mapId: string) => void;
+}
+
+// Seed and layout settings for a generated map. Every change produces a new map ID, so the picker's
+// mapId stays the single source of truth.
+export const GeneratorSettings: React.FC<GeneratorSettingsProps> = ({ mapId, onChange }) => {
+  const options = parseGeneratedMapId(mapId);
+  if (!options) return null;
+
+  const update = (change: Partial<GeneratorOptions>) => onChange(generatedMapId({ ...options, ...change }));
+  const field = (label: string, key: keyof GeneratorOptions, values: number[]) => (
+    <label className="flex flex-col text-[10px] text-gray-500 uppercase">
+      {label}
+      <select value={options[key]} onChange={e => update({ [key]: Number(e.target.value) })}
+        className="mt-0.5 bg-gray-900 border border-gray-700 px-1 py-0.5 text-xs text-white">
+        {values.map(v => <option key={v} value={v}>{v}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="flex items-end gap-2 pt-2 font-mono">
+      <label className="flex flex-col text-[10px] text-gray-500 uppercase">
+        Seed
+        <input type="number" min={0} value={options.seed} onChange={e => update({ seed: Number(e.target.value) })}
+          className="w-24 mt-0.5 bg-gray-900 border border-gray-700 px-1 py-0.5 text-xs text-white" />
+      </label>
+      <button onClick={() => update({ seed: randomSeed() })} title="New seed"
+        className="px-2 py-0.5 border border-gray-700 text-gray-400 hover:border-white hover:text-white text-xs">
+        REROLL
+      </button>
+      {field('Width', 'width', SIZES)}
+      {field('Height', 'height', SIZES)}
+      {field('Rooms', 'rooms', range(GENERATOR_LIMITS.rooms))}
+      {field('Corridor', 'corridorWidth', range(GENERATOR_LIMITS.corridorWidth))}
+    </div>
+  );
+};
@@ -1,13 +1,58 @@
 import React from 'react';
-import { Difficulty, type DifficultyLevel } from '../types';
+import { ControlScheme, Difficulty, LocalMatchMode, type ControlSchemeValue, type DifficultyLevel, type LocalMatchConfig, type LocalMatchModeValue } from '../types';
+import { CONTROL_SCHEME_LABELS } from '../engine/controls';
+import { DEFAULT_MAP_ID, MAP_LIBRARY } from '../maps';
+import { parseGeneratedMapId, randomGeneratedMapId } from '../engine/generator';
+import { GeneratorSettings } from './GeneratorSettings';
 
 interface HomepageProps {
-  onStart: (difficulty: DifficultyLevel) => void;
+  onStart: (difficulty: DifficultyLevel, mapId: string) => void;
   onMultiplayer: () => void;
+  onLocal: (config: LocalMatchConfig) => void;
+  onEditor: () => void;
 }
 
-export const Homepage: React.FC<HomepageProps> = ({ onStart, onMultiplayer }) => {
-  const [showDifficulty, setShowDifficulty] = React.useState(false);
+const SCHEME_ORDER = Object.values(ControlScheme);
+// Two keyboard halves first, then gamepads for players three and four
+const DEFAULT_CONTROLS: ControlSchemeValue[] = [ControlScheme.KEYBOARD_LEFT, ControlScheme.KEYBOARD_RIGHT, ControlScheme.GAMEPAD_1, ControlScheme.GAMEPAD_2];
+
+// One button per bundled map plus a generated one, shared by the singleplayer and local match screens
+const MapPicker: React.FC<{ mapId: string, onChange: (mapId: string) => void }> = ({ mapId, onChange }) => {
+  const isGenerated = parseGeneratedMapId(mapId) !== null;
+  const buttonClass = (active: boolean) =>
+    `flex-1 py-2 border font-mono text-sm font-bold uppercase transition-colors ${active ? 'border-white text-white bg-white/10' : 'border-gray-600 text-gray-400 hover:border-white'}`;
+  return (
+    <div>
+      <div className="flex gap-2">
+        {MAP_LIBRARY.map(level => (
+          <button key={level.id} onClick={() => onChange(level.id)} title={`${level.description ?? ''} (by ${level.author})`} className={buttonClass(mapId === level.id)}>
+            {level.name}
+          </button>
+        ))}
+        <button onClick={() => { if (!isGenerated) onChange(randomGeneratedMapId()); }} title="A new layout from a seed" className={buttonClass(isGenerated)}>
+          Generated
+        </button>
+      </div>
+      <GeneratorSettings mapId={mapId} onChange={onChange} />
+    </div>
+  );
+};
+
+export const Homepage: React.FC<HomepageProps> = ({ onStart, onMultiplayer, onLocal, onEditor }) => {
+  const [menu, setMenu] = React.useState<'MAIN' | 'DIFFICULTY' | 'LOCAL'>('MAIN');
+  const [mapId, setMapId] = React.useState(DEFAULT_MAP_ID);
+  const [localPlayers, setLocalPlayers] = React.useState(2);
+  const [localMode, setLocalMode] = React.useState<LocalMatchModeValue>(LocalMatchMode.COOP);
+  const [localDifficulty, setLocalDifficulty] = React.useState<DifficultyLevel>(Difficulty.MEDIUM);
+  const [localControls, setLocalControls] = React.useState<ControlSchemeValue[]>(DEFAULT_CONTROLS);
+
+  const cycleControls = (index: number) => {
+    setLocalControls(prev => prev.map((scheme, i) =>
+      i === index ? SCHEME_ORDER[(SCHEME_ORDER.indexOf(scheme) + 1) % SCHEME_ORDER.length] : scheme));
+  };
+
+  const localControlsInUse = localControls.slice(0, localPlayers);
+  const hasSharedControls = new Set(localControlsInUse).size < localControlsInUse.length;
 
   return (
     <div className="relative z-10 flex flex-col items-center justify-center w-full max-w-2xl p-12 space-y-8 bg-black/80 border border-gray-700 rounded-lg shadow-2xl backdrop-blur-sm animate-in fade-in zoom-in duration-500">
@@ -21,11 +66,11 @@ export const Homepage: React.FC<HomepageProps> = ({ onStart, onMultiplayer }) =>
       <div className="w-full h-px bg-gradient-to-r from-transparent via-gray-500 to-transparent" />
 
       <div className="grid grid-cols-1 w-full gap-4">
-        {!showDifficulty ? (
+        {menu === 'MAIN' && (
           <>
             {/* MAIN MENU */}
             <button
-              onClick={() => setShowDifficulty(true)}
+              onClick={() => setMenu('DIFFICULTY')}
               className="group relative w-full px-8 py-6 bg-gray-900/50 hover:bg-white/10 border border-gray-600 hover:border-white transition-all duration-300"
             >
               <div className="flex items-center justify-between">
@@ -46,14 +91,38 @@ export const Homepage: React.FC<HomepageProps> = ({ onStart, onMultiplayer }) =>
                 </span>
               </div>
             </button>
+
+            <button
+              onClick={() => setMenu('LOCAL')}
+              className="group relative w-full px-8 py-6 bg-gray-900/50 hover:bg-sky-900/30 border border-gray-600 hover:border-sky-500 transition-all duration-300"
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-2xl font-mono font-bold text-white group-hover:text-sky-400 group-hover:tracking-wider transition-all">LOCAL SPLIT-SCREEN</span>
+                <span className="text-xs text-sky-500/70 font-mono uppercase">2-4 Players</span>
+              </div>
+            </button>
+
+            <button
+              onClick={onEditor}
+              className="group relative w-full px-8 py-6 bg-gray-900/50 hover:bg-amber-900/30 border border-gray-600 hover:border-amber-500 transition-all duration-300"
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-2xl font-mono font-bold text-white group-hover:text-amber-400 group-hover:tracking-wider transition-all">MAP EDITOR</span>
+                <span className="text-xs text-amber-500/70 font-mono uppercase">Build Levels</span>
+              </div>
+            </button>
           </>
-        ) : (
+        )}
+
+        {menu === 'DIFFICULTY' && (
           <>
             {/* DIFFICULTY SELECT */}
             <div className="w-full space-y-4 animate-in fade-in slide-in-from-right-4 duration-300">
+              <div className="text-center text-gray-500 font-mono text-xs uppercase mb-2">- Select Map -</div>
+              <MapPicker mapId={mapId} onChange={setMapId} />
               <div className="text-center text-gray-500 font-mono text-xs uppercase mb-2">- Select Difficulty -</div>
               <button
-                onClick={() => onStart(Difficulty.EASY)}
+                onClick={() => onStart(Difficulty.EASY, mapId)}
                 className="group relative w-full px-8 py-4 bg-gray-900/50 hover:bg-green-900/30 border border-gray-600 hover:border-green-500 transition-all duration-300 overflow-hidden"
               >
                 <div className="absolute inset-0 bg-green-500/10 translate-y-full group-hover:translate-y-0 transition-transform duration-300" />
@@ -64,7 +133,7 @@ export const Homepage: React.FC<HomepageProps> = ({ onStart, onMultiplayer }) =>
               </button>
 
               <button
-                onClick={() => onStart(Difficulty.MEDIUM)}
+                onClick={() => onStart(Difficulty.MEDIUM, mapId)}
                 className="group relative w-full px-8 py-4 bg-gray-900/50 hover:bg-yellow-900/30 border border-gray-600 hover:border-yellow-500 transition-all duration-300 overflow-hidden"
               >
                 <div className="absolute inset-0 bg-yellow-500/10 translate-y-full group-hover:translate-y-0 transition-transform duration-300" />
@@ -75,7 +144,7 @@ export const Homepage: React.FC<HomepageProps> = ({ onStart, onMultiplayer }) =>
               </button>
 
               <button
-                onClick={() => onStart(Difficulty.HARD)}
+                onClick={() => onStart(Difficulty.HARD, mapId)}
                 className="group relative w-full px-8 py-4 bg-gray-900/50 hover:bg-red-900/30 border border-gray-600 hover:border-red-500 transition-all duration-300 overflow-hidden"
               >
                 <div className="absolute inset-0 bg-red-500/10 translate-y-full group-hover:translate-y-0 transition-transform duration-300" />
@@ -86,7 +155,7 @@ export const Homepage: React.FC<HomepageProps> = ({ onStart, onMultiplayer }) =>
               </button>
 
               <button
-                onClick={() => setShowDifficulty(false)}
+                onClick={() => setMenu('MAIN')}
                 className="w-full py-2 text-gray-500 hover:text-white text-xs font-mono uppercase tracking-widest transition-colors mt-4"
               >
                 &lt; Back to Main Menu
@@ -94,10 +163,76 @@ export const Homepage: React.FC<HomepageProps> = ({ onStart, onMultiplayer }) =>
             </div>
           </>
         )}
+
+        {menu === 'LOCAL' && (
+          <>
+            {/* LOCAL MATCH SETUP */}
+            <div className="w-full space-y-4 animate-in fade-in slide-in-from-right-4 duration-300 font-mono">
+              <div className="text-center text-gray-500 text-xs uppercase mb-2">- Local Match -</div>
+
+              <MapPicker mapId={mapId} onChange={setMapId} />
+
+              <div className="flex gap-2">
+                {[2, 3, 4].map(n => (
+                  <button key={n} onClick={() => setLocalPlayers(n)}
+                    className={`flex-1 py-2 border text-sm font-bold transition-colors ${localPlayers === n ? 'border-sky-500 text-sky-400 bg-sky-900/30' : 'border-gray-600 text-gray-400 hover:border-white'}`}>
+                    {n} PLAYERS
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex gap-2">
+                {Object.values(LocalMatchMode).map(mode => (
+                  <button key={mode} onClick={() => setLocalMode(mode)}
+                    className={`flex-1 py-2 border text-sm font-bold uppercase transition-colors ${localMode === mode ? 'border-sky-500 text-sky-400 bg-sky-900/30' : 'border-gray-600 text-gray-400 hover:border-white'}`}>
+                    {mode === LocalMatchMode.COOP ? 'Co-op' : 'Versus'}
+                  </button>
+                ))}
+              </div>
+
+              {localMode === LocalMatchMode.COOP && (
+                <div className="flex gap-2">
+                  {Object.values(Difficulty).map(level => (
+                    <button key={level} onClick={() => setLocalDifficulty(level)}
+                      className={`flex-1 py-2 border text-xs font-bold uppercase transition-colors ${localDifficulty === level ? 'border-sky-500 text-sky-400 bg-sky-900/30' : 'border-gray-600 text-gray-400 hover:border-white'}`}>
+                      {level}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                {localControlsInUse.map((scheme, i) => (
+                  <button key={i} onClick={() => cycleControls(i)}
+                    className="w-full flex items-center justify-between px-4 py-2 bg-gray-900/50 border border-gray-600 hover:border-white transition-colors">
+                    <span className="text-sm font-bold text-white">P{i + 1}</span>
+                    <span className="text-xs text-gray-400 uppercase">{CONTROL_SCHEME_LABELS[scheme]}</span>
+                  </button>
+                ))}
+                {hasSharedControls && <div className="text-xs text-red-400 text-center uppercase">Each player needs their own controls</div>}
+              </div>
+
+              <button
+                disabled={hasSharedControls}
+                onClick={() => onLocal({ mode: localMode, difficulty: localDifficulty, controls: localControlsInUse, mapId })}
+                className="w-full py-4 bg-white text-black font-bold uppercase tracking-widest hover:bg-neutral-200 transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                Start Match
+              </button>
+
+              <button
+                onClick={() => setMenu('MAIN')}
+                className="w-full py-2 text-gray-500 hover:text-white text-xs uppercase tracking-widest transition-colors"
+              >
+                &lt; Back to Main Menu
+              </button>
+            </div>
+          </>
+        )}
       </div>
 
       <div className="text-xs text-gray-600 font-mono pt-4">
-        Controls: WASD to Move • Mouse to Look • Click to Shoot • ESC to Pause
+        Controls: WASD to Move • Mouse to Look • Click to Shoot • E to Use • ESC to Pause
       </div>
     </div>
   );
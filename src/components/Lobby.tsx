@@ -1,15 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { NetworkManager } from '../engine/NetworkManager';
+import { SUIT_COLORS } from '../constants';
+import { DEFAULT_MAP_ID, MAP_LIBRARY } from '../maps';
+import { parseGeneratedMapId, randomGeneratedMapId } from '../engine/generator';
+import { GeneratorSettings } from './GeneratorSettings';
 
 interface LobbyProps {
-    onJoin: (roomId: string) => void;
+    onJoin: (roomId: string, mapId: string) => void;
     onBack: () => void;
 }
 
 export const Lobby: React.FC<LobbyProps> = ({ onJoin, onBack }) => {
     const [roomIdInput, setRoomIdInput] = useState('');
     const [username, setUsername] = useState('');
+    const [color, setColor] = useState(SUIT_COLORS[0].color);
     const [duration, setDuration] = useState(5); // Default 5 minutes
+    const [mapId, setMapId] = useState(DEFAULT_MAP_ID);
     const [status, setStatus] = useState('Connecting to server...');
     const [connected, setConnected] = useState(false);
     const [rooms, setRooms] = useState<any[]>([]);
@@ -30,8 +36,8 @@ export const Lobby: React.FC<LobbyProps> = ({ onJoin, onBack }) => {
             }
         }, 1000);
 
-        net.onRoomJoined = (id) => {
-            onJoin(id);
+        net.onRoomJoined = (id, roomMapId) => {
+            onJoin(id, roomMapId);
         };
 
         net.onRoomListUpdate = (list) => {
@@ -49,7 +55,7 @@ export const Lobby: React.FC<LobbyProps> = ({ onJoin, onBack }) => {
             setStatus('Please enter your Codename');
             return;
         }
-        NetworkManager.getInstance().createRoom(roomIdInput || undefined, duration, username);
+        NetworkManager.getInstance().createRoom(roomIdInput || undefined, duration, username, color, mapId);
         setStatus('Creating room...');
     };
 
@@ -63,7 +69,7 @@ export const Lobby: React.FC<LobbyProps> = ({ onJoin, onBack }) => {
             setStatus('Please enter your Codename');
             return;
         }
-        NetworkManager.getInstance().joinRoom(targetId, username);
+        NetworkManager.getInstance().joinRoom(targetId, username, color);
         setStatus(`Joining room ${targetId}...`);
     };
 
@@ -97,6 +103,21 @@ export const Lobby: React.FC<LobbyProps> = ({ onJoin, onBack }) => {
                             />
                         </div>
 
+                        <div>
+                            <label className="text-xs text-gray-400 font-mono uppercase block mb-1">Suit Colour</label>
+                            <div className="flex gap-2">
+                                {SUIT_COLORS.map(suit => (
+                                    <button
+                                        key={suit.color}
+                                        onClick={() => setColor(suit.color)}
+                                        title={suit.name}
+                                        className={`flex-1 h-8 border-2 ${color === suit.color ? 'border-white' : 'border-transparent hover:border-gray-500'}`}
+                                        style={{ backgroundColor: suit.color }}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+
                         <div>
                             <label className="text-xs text-gray-400 font-mono uppercase block mb-1">Mission Indentifier (Optional)</label>
                             <input
@@ -124,6 +145,30 @@ export const Lobby: React.FC<LobbyProps> = ({ onJoin, onBack }) => {
                             </div>
                         </div>
 
+                        <div>
+                            <label className="text-xs text-gray-400 font-mono uppercase block mb-1">Map (New Rooms)</label>
+                            <div className="flex gap-2">
+                                {MAP_LIBRARY.map(level => (
+                                    <button
+                                        key={level.id}
+                                        onClick={() => setMapId(level.id)}
+                                        title={level.description}
+                                        className={`flex-1 py-2 font-mono text-sm border uppercase ${mapId === level.id ? 'bg-green-600 border-green-500 text-black font-bold' : 'bg-gray-900 border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                                    >
+                                        {level.name}
+                                    </button>
+                                ))}
+                                <button
+                                    onClick={() => { if (!parseGeneratedMapId(mapId)) setMapId(randomGeneratedMapId()); }}
+                                    title="A new layout from a seed"
+                                    className={`flex-1 py-2 font-mono text-sm border uppercase ${parseGeneratedMapId(mapId) ? 'bg-green-600 border-green-500 text-black font-bold' : 'bg-gray-900 border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                                >
+                                    Generated
+                                </button>
+                            </div>
+                            <GeneratorSettings mapId={mapId} onChange={setMapId} />
+                        </div>
+
                         <div className="grid grid-cols-2 gap-4 mt-6">
                             <button
                                 onClick={() => handleJoin()}
@@ -157,7 +202,11 @@ export const Lobby: React.FC<LobbyProps> = ({ onJoin, onBack }) => {
                                 <div key={room.id} className="flex items-center justify-between bg-black/40 border border-gray-800 p-3 hover:border-gray-600 transition-colors">
                                     <div>
                                         <div className="text-emerald-400 font-mono font-bold text-sm">{room.id}</div>
-                                        <div className="text-gray-500 text-xs font-mono">{room.status} • {room.count} Player(s)</div>
+                                        <div className="text-gray-500 text-xs font-mono">{room.status} • {room.count} Player(s) • {room.mapName}</div>
+                                        {/* Generated rooms list their layout so it can be replayed from the map picker */}
+                                        {parseGeneratedMapId(room.mapId) && (
+                                            <div className="text-gray-600 text-[10px] font-mono select-all" title="Seed, size, rooms and corridor width">{room.mapId}</div>
+                                        )}
                                     </div>
                                     <button
                                         onClick={() => handleJoin(room.id)}
@@ -0,0 +1,437 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { RenderHost } from '../engine/RenderHost';
+import { generateTextures } from '../engine/textures';
+import { MAP_FORMAT_VERSION, createMapWorld, validateMap } from '../engine/maps';
+import { DEFAULT_MAP_ID, MAP_LIBRARY, getMap } from '../maps';
+import { CellType, type MapDefinition, type Player, type RenderSprite, type RenderState, type Vector2 } from '../types';
+import { FOV, MOVE_SPEED, ROTATION_SPEED, START_AMMO, START_RESERVE, SUIT_COLORS } from '../constants';
+
+const PREVIEW_WIDTH = 640;
+const PREVIEW_HEIGHT = 360;
+const GRID_PIXELS = 480; // The grid canvas is scaled so the whole map fits in this square
+const MIN_SIZE = 8, MAX_SIZE = 64;
+const FLY_SPEED = 2.0; // Vertical wall units per second
+const LOOK_SENSITIVITY = 0.004;
+
+// Cells the brush can paint, with the colour the grid shows them in
+const BRUSHES: { cell: number, label: string, color: string }[] = [
+  { cell: CellType.EMPTY, label: 'Floor', color: '#171717' },
+  { cell: CellType.WALL_1, label: 'Brick', color: '#cc3333' },
+  { cell: CellType.WALL_2, label: 'Slime', color: '#2f9e44' },
+  { cell: CellType.WALL_3, label: 'Tech', color: '#4444ff' },
+  { cell: CellType.WALL_4, label: 'Wood', color: '#8b5a2b' },
+  { cell: CellType.WALL_WINDOW, label: 'Window', color: '#7dd3fc' },
+  { cell: CellType.DOOR, label: 'Door', color: '#facc15' }
+];
+
+// What a click on the grid does: paint the brush, or add/remove a marker of the chosen kind
+type EditorTool = 'paint' | 'player' | 'enemy' | 'health' | 'ammo';
+
+const TOOL_LABELS: Record<Exclude<EditorTool, 'paint'>, string> = {
+  player: 'Player Spawn',
+  enemy: 'Enemy Spawn',
+  health: 'Health Orb',
+  ammo: 'Ammo Box'
+};
+
+// Player spawns show in the preview as a coloured guard so they stand out from enemy spawns
+const PLAYER_MARKER_COLOR = SUIT_COLORS[1].color;
+
+const cloneMap = (def: MapDefinition): MapDefinition => JSON.parse(JSON.stringify(def));
+
+// An empty room of the given size walled in with brick
+const createBlankMap = (width: number, height: number): MapDefinition => ({
+  version: MAP_FORMAT_VERSION,
+  id: 'untitled',
+  name: 'Untitled',
+  author: '',
+  grid: Array.from({ length: width }, (_, x) => Array.from({ length: height }, (_, y) =>
+    x === 0 || y === 0 || x === width - 1 || y === height - 1 ? CellType.WALL_1 : CellType.EMPTY)),
+  playerSpawns: [{ x: 1.5, y: 1.5, angle: 0 }],
+  enemySpawns: [],
+  itemSpawns: []
+});
+
+// The editor has to draw whatever it imports, so the grid at least needs to be a rectangle of numbers
+const isRectangularGrid = (grid: unknown): grid is number[][] =>
+  Array.isArray(grid) && grid.length > 0 && grid.every(row => Array.isArray(row) && row.length === grid[0].length && row.every(c => typeof c === 'number'));
+
+// Marker lists the editor draws; missing ones start empty
+const isPointList = (list: unknown) =>
+  list === undefined || Array.isArray(list) && list.every(p => typeof p?.x === 'number' && typeof p?.y === 'number');
+
+const createCamera = (def: MapDefinition): Player => {
+  const spawn = def.playerSpawns[0] ?? { x: 1.5, y: 1.5 };
+  const angle = spawn.angle ?? 0;
+  return {
+    pos: { x: spawn.x, y: spawn.y },
+    dir: { x: Math.cos(angle), y: Math.sin(angle) },
+    plane: { x: Math.sin(angle) * FOV, y: -Math.cos(angle) * FOV },
+    health: 100,
+    ammo: START_AMMO,
+    ammoReserve: START_RESERVE,
+    z: 0,
+    vz: 0,
+    pitch: 0,
+    weaponIndex: 0
+  };
+};
+
+// Markers within half a cell of a point
+const isNear = (a: Vector2, b: Vector2) => Math.floor(a.x) === Math.floor(b.x) && Math.floor(a.y) === Math.floor(b.y);
+
+interface MapEditorProps {
+  onExit: () => void;
+}
+
+export const MapEditor: React.FC<MapEditorProps> = ({ onExit }) => {
+  const gridRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const texturesRef = useRef(generateTextures());
+  const [def, setDef] = useState<MapDefinition>(() => cloneMap(getMap(DEFAULT_MAP_ID)));
+  const [tool, setTool] = useState<EditorTool>('paint');
+  const [brush, setBrush] = useState<number>(CellType.WALL_1);
+  const [newWidth, setNewWidth] = useState(24);
+  const [newHeight, setNewHeight] = useState(24);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null); // The preview's render worker crashed
+  const [cameraCell, setCameraCell] = useState<Vector2 | null>(null); // Where the fly camera is, for the grid
+  const isPainting = useRef(false);
+
+  const world = useMemo(() => createMapWorld(def), [def]);
+  const issues = useMemo(() => validateMap(def), [def]);
+  const cellSize = Math.max(4, Math.floor(GRID_PIXELS / Math.max(def.grid.length, def.grid[0].length)));
+
+  // The preview loop reads these instead of the state
+  const worldRef = useRef(world);
+  const defRef = useRef(def);
+  const cameraRef = useRef<Player | null>(null);
+  useEffect(() => { worldRef.current = world; }, [world]);
+  useEffect(() => { defRef.current = def; }, [def]);
+
+  // --- Editing ---
+
+  const paintCell = (x: number, y: number) => {
+    setDef(prev => {
+      if (prev.grid[x]?.[y] === undefined || prev.grid[x][y] === brush) return prev;
+      const grid = prev.grid.map((row, i) => i === x ? row.map((cell, j) => j === y ? brush : cell) : row);
+      // A painted cell takes the default height of its new type
+      const heights = { ...prev.heights };
+      delete heights[`${x},${y}`];
+      return { ...prev, grid, heights };
+    });
+  };
+
+  // Adds a marker to the clicked cell, or removes the one already there
+  const toggleMarker = (x: number, y: number) => {
+    const pos = { x: x + 0.5, y: y + 0.5 };
+    setDef(prev => {
+      if (tool === 'player') {
+        const exists = prev.playerSpawns.some(s => isNear(s, pos));
+        return { ...prev, playerSpawns: exists ? prev.playerSpawns.filter(s => !isNear(s, pos)) : [...prev.playerSpawns, { ...pos, angle: 0 }] };
+      }
+      if (tool === 'enemy') {
+        const exists = prev.enemySpawns.some(s => isNear(s, pos));
+        return { ...prev, enemySpawns: exists ? prev.enemySpawns.filter(s => !isNear(s, pos)) : [...prev.enemySpawns, pos] };
+      }
+      const items = prev.itemSpawns ?? [];
+      const type = tool === 'health' ? CellType.HEALTH_ORB : CellType.AMMO_BOX;
+      const exists = items.some(s => isNear(s, pos));
+      return { ...prev, itemSpawns: exists ? items.filter(s => !isNear(s, pos)) : [...items, { ...pos, type }] };
+    });
+  };
+
+  const getGridCell = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: Math.floor((e.clientX - rect.left) / cellSize), y: Math.floor((e.clientY - rect.top) / cellSize) };
+  };
+
+  const handleGridDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = getGridCell(e);
+    if (tool !== 'paint') {
+      toggleMarker(x, y);
+      return;
+    }
+    isPainting.current = true;
+    paintCell(x, y);
+  };
+
+  const handleGridMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!isPainting.current) return;
+    const { x, y } = getGridCell(e);
+    paintCell(x, y);
+  };
+
+  const loadIntoEditor = (next: MapDefinition) => {
+    setDef(next);
+    cameraRef.current = createCamera(next);
+    setImportError(null);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Lets the same file be picked again
+    if (!file) return;
+    file.text().then(text => {
+      const parsed = JSON.parse(text);
+      if (!isRectangularGrid(parsed?.grid)) throw new Error('the grid must be a rectangle of cell IDs');
+      if (![parsed.playerSpawns, parsed.enemySpawns, parsed.itemSpawns].every(isPointList)) throw new Error('spawns must be lists of x, y points');
+      const imported: MapDefinition = { ...createBlankMap(3, 3), ...parsed, grid: parsed.grid, playerSpawns: parsed.playerSpawns ?? [], enemySpawns: parsed.enemySpawns ?? [] };
+      // The editor builds and checks the map while rendering, so anything that can't be built is refused here.
+      // Other problems show up in the issue list, so half-finished maps can still be opened.
+      const issues = validateMap(imported);
+      try {
+        createMapWorld(imported);
+      } catch {
+        throw new Error(issues.join('; ') || 'the map could not be built');
+      }
+      loadIntoEditor(imported);
+    }).catch((err: Error) => setImportError(`Could not import ${file.name}: ${err.message}`));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(def, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${def.id || 'map'}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleNew = () => {
+    const clamp = (n: number) => Math.max(MIN_SIZE, Math.min(MAX_SIZE, Math.floor(n) || MIN_SIZE));
+    loadIntoEditor(createBlankMap(clamp(newWidth), clamp(newHeight)));
+  };
+
+  // --- Grid view ---
+
+  useEffect(() => {
+    const canvas = gridRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { grid } = def;
+    canvas.width = grid.length * cellSize;
+    canvas.height = grid[0].length * cellSize;
+
+    for (let x = 0; x < grid.length; x++) {
+      for (let y = 0; y < grid[x].length; y++) {
+        ctx.fillStyle = BRUSHES.find(b => b.cell === grid[x][y])?.color ?? '#ff00ff'; // Magenta flags unknown IDs
+        ctx.fillRect(x * cellSize, y * cellSize, cellSize, cellSize);
+        // Short blocks are drawn fainter, like on the minimap
+        const height = world.heights[x][y];
+        if (grid[x][y] > 0 && height < 1) {
+          ctx.fillStyle = `rgba(0, 0, 0, ${0.6 - height * 0.5})`;
+          ctx.fillRect(x * cellSize, y * cellSize, cellSize, cellSize);
+        }
+      }
+    }
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+    ctx.lineWidth = 1;
+    for (let i = 0; i <= Math.max(grid.length, grid[0].length); i++) {
+      ctx.beginPath(); ctx.moveTo(i * cellSize + 0.5, 0); ctx.lineTo(i * cellSize + 0.5, canvas.height); ctx.stroke();
+      ctx.beginPath(); ctx.moveTo(0, i * cellSize + 0.5); ctx.lineTo(canvas.width, i * cellSize + 0.5); ctx.stroke();
+    }
+
+    const marker = (p: Vector2, color: string, label: string) => {
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(p.x * cellSize, p.y * cellSize, cellSize * 0.35, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.fillStyle = '#000000';
+      ctx.font = `bold ${Math.max(8, Math.floor(cellSize * 0.5))}px monospace`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(label, p.x * cellSize, p.y * cellSize + 1);
+    };
+    def.playerSpawns.forEach(s => marker(s, PLAYER_MARKER_COLOR, 'P'));
+    def.enemySpawns.forEach(s => marker(s, '#f87171', 'E'));
+    (def.itemSpawns ?? []).forEach(s => marker(s, s.type === CellType.HEALTH_ORB ? '#f472b6' : '#fbbf24', s.type === CellType.HEALTH_ORB ? '+' : 'A'));
+
+    if (cameraCell) {
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(Math.floor(cameraCell.x) * cellSize + 1, Math.floor(cameraCell.y) * cellSize + 1, cellSize - 2, cellSize - 2);
+    }
+  }, [def, world, cellSize, cameraCell]);
+
+  // --- Live preview with a fly camera ---
+
+  useEffect(() => {
+    const canvas = previewRef.current;
+    if (!canvas) return;
+    const host = RenderHost.attach(canvas, PREVIEW_WIDTH, PREVIEW_HEIGHT, texturesRef.current);
+    host.onError = setPreviewError;
+    cameraRef.current ??= createCamera(defRef.current);
+    const keys: Record<string, boolean> = {};
+    let isLooking = false;
+    let lastTime = performance.now();
+    let lastCellUpdate = 0;
+    let frame = 0;
+
+    const tick = (time: number) => {
+      const dt = Math.min(0.1, (time - lastTime) / 1000);
+      lastTime = time;
+      const camera = cameraRef.current!;
+
+      const rot = ((keys.ArrowLeft ? 1 : 0) - (keys.ArrowRight ? 1 : 0)) * ROTATION_SPEED * dt;
+      if (rot !== 0) {
+        const oldDirX = camera.dir.x;
+        camera.dir.x = camera.dir.x * Math.cos(rot) - camera.dir.y * Math.sin(rot);
+        camera.dir.y = oldDirX * Math.sin(rot) + camera.dir.y * Math.cos(rot);
+      }
+      camera.plane.x = camera.dir.y * FOV;
+      camera.plane.y = -camera.dir.x * FOV;
+
+      // Flies straight through walls, so every corner of the map can be inspected
+      const forward = (keys.KeyW ? 1 : 0) - (keys.KeyS ? 1 : 0);
+      const strafe = (keys.KeyD ? 1 : 0) - (keys.KeyA ? 1 : 0);
+      camera.pos.x += (camera.dir.x * forward + camera.dir.y * strafe) * MOVE_SPEED * dt;
+      camera.pos.y += (camera.dir.y * forward - camera.dir.x * strafe) * MOVE_SPEED * dt;
+      camera.z = Math.max(-0.4, Math.min(3, camera.z + ((keys.Space ? 1 : 0) - (keys.KeyC ? 1 : 0)) * FLY_SPEED * dt));
+
+      const current = defRef.current;
+      const enemies: RenderSprite[] = [
+        ...current.enemySpawns.map(s => ({ pos: s, textureId: CellType.ENEMY_GUARD, dir: { x: 1, y: 0 } })),
+        ...current.playerSpawns.map(s => ({
+          pos: s, textureId: CellType.ENEMY_GUARD, dir: { x: Math.cos(s.angle ?? 0), y: Math.sin(s.angle ?? 0) }, palette: PLAYER_MARKER_COLOR
+        }))
+      ];
+      const state: RenderState = {
+        ...worldRef.current,
+        player: camera,
+        lights: [],
+        decals: {},
+        enemies,
+        items: (current.itemSpawns ?? []).map(s => ({ pos: s, textureId: s.type })),
+        particles: [],
+        effects: []
+      };
+      host.render(state, 1);
+
+      if (time - lastCellUpdate > 200) {
+        lastCellUpdate = time;
+        setCameraCell(prev => prev && Math.floor(prev.x) === Math.floor(camera.pos.x) && Math.floor(prev.y) === Math.floor(camera.pos.y) ? prev : { ...camera.pos });
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    // Typing a map name should not fly the camera
+    const isTyping = (e: KeyboardEvent) => e.target instanceof HTMLInputElement;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTyping(e)) return;
+      if (e.code === 'Space' || e.code.startsWith('Arrow')) e.preventDefault();
+      keys[e.code] = true;
+    };
+    const handleKeyUp = (e: KeyboardEvent) => { keys[e.code] = false; };
+    // Drag on the preview to look around
+    const handleMouseDown = () => { isLooking = true; };
+    const handleMouseUp = () => { isLooking = false; };
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!isLooking) return;
+      const camera = cameraRef.current!;
+      const rot = -e.movementX * LOOK_SENSITIVITY;
+      const oldDirX = camera.dir.x;
+      camera.dir.x = camera.dir.x * Math.cos(rot) - camera.dir.y * Math.sin(rot);
+      camera.dir.y = oldDirX * Math.sin(rot) + camera.dir.y * Math.cos(rot);
+      camera.pitch = Math.max(-PREVIEW_HEIGHT / 1.5, Math.min(PREVIEW_HEIGHT / 1.5, camera.pitch - e.movementY));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('mousemove', handleMouseMove);
+    canvas.addEventListener('mousedown', handleMouseDown);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('mousemove', handleMouseMove);
+      canvas.removeEventListener('mousedown', handleMouseDown);
+      host.onError = null;
+      host.release();
+    };
+  }, []);
+
+  const toolButton = (active: boolean) =>
+    `w-full px-3 py-1.5 text-left text-xs font-mono uppercase border transition-colors ${active ? 'border-white text-white bg-white/10' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`;
+
+  return (
+    <div className="relative z-10 flex flex-col gap-4 p-6 bg-black/90 border border-gray-700 rounded-lg shadow-2xl font-mono text-white">
+      {/* TOP BAR: metadata and file actions */}
+      <div className="flex items-center gap-3">
+        <h2 className="text-2xl font-bold tracking-tighter mr-4">MAP EDITOR</h2>
+        <input value={def.name} onChange={e => setDef({ ...def, name: e.target.value })} placeholder="NAME"
+          className="w-36 bg-gray-900 border border-gray-700 px-2 py-1 text-sm focus:outline-none focus:border-white" />
+        <input value={def.id} onChange={e => setDef({ ...def, id: e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '') })} placeholder="ID"
+          className="w-28 bg-gray-900 border border-gray-700 px-2 py-1 text-sm focus:outline-none focus:border-white" />
+        <input value={def.author} onChange={e => setDef({ ...def, author: e.target.value })} placeholder="AUTHOR"
+          className="w-32 bg-gray-900 border border-gray-700 px-2 py-1 text-sm focus:outline-none focus:border-white" />
+        <div className="flex-1" />
+        <select onChange={e => { if (e.target.value) loadIntoEditor(cloneMap(getMap(e.target.value))); e.target.value = ''; }} defaultValue=""
+          className="bg-gray-900 border border-gray-700 px-2 py-1 text-xs uppercase">
+          <option value="" disabled>Open bundled…</option>
+          {MAP_LIBRARY.map(level => <option key={level.id} value={level.id}>{level.name}</option>)}
+        </select>
+        <button onClick={() => fileRef.current?.click()} className="px-3 py-1 border border-gray-600 hover:border-white text-xs uppercase">Import</button>
+        <input ref={fileRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        <button onClick={handleExport} className="px-3 py-1 bg-white text-black font-bold hover:bg-neutral-200 text-xs uppercase">Export</button>
+        <button onClick={onExit} className="px-3 py-1 text-gray-500 hover:text-white text-xs uppercase">&lt; Exit</button>
+      </div>
+
+      <div className="flex gap-4 items-start">
+        {/* TOOLS */}
+        <div className="w-36 space-y-1">
+          <div className="text-[10px] text-gray-500 uppercase tracking-widest mb-1">Paint</div>
+          {BRUSHES.map(b => (
+            <button key={b.cell} onClick={() => { setTool('paint'); setBrush(b.cell); }} className={toolButton(tool === 'paint' && brush === b.cell)}>
+              <span className="inline-block w-3 h-3 mr-2 align-middle border border-white/20" style={{ backgroundColor: b.color }} />{b.label}
+            </button>
+          ))}
+          <div className="text-[10px] text-gray-500 uppercase tracking-widest pt-3 mb-1">Place / Remove</div>
+          {(Object.keys(TOOL_LABELS) as (keyof typeof TOOL_LABELS)[]).map(t => (
+            <button key={t} onClick={() => setTool(t)} className={toolButton(tool === t)}>{TOOL_LABELS[t]}</button>
+          ))}
+          <div className="text-[10px] text-gray-500 uppercase tracking-widest pt-3 mb-1">New Map</div>
+          <div className="flex gap-1 items-center text-xs">
+            <input type="number" min={MIN_SIZE} max={MAX_SIZE} value={newWidth} onChange={e => setNewWidth(Number(e.target.value))}
+              className="w-12 bg-gray-900 border border-gray-700 px-1 py-0.5" />
+            x
+            <input type="number" min={MIN_SIZE} max={MAX_SIZE} value={newHeight} onChange={e => setNewHeight(Number(e.target.value))}
+              className="w-12 bg-gray-900 border border-gray-700 px-1 py-0.5" />
+          </div>
+          <button onClick={handleNew} className="w-full px-3 py-1.5 border border-gray-700 text-gray-400 hover:border-white hover:text-white text-xs uppercase">Create</button>
+        </div>
+
+        {/* GRID */}
+        <canvas
+          ref={gridRef}
+          onMouseDown={handleGridDown}
+          onMouseMove={handleGridMove}
+          onMouseUp={() => { isPainting.current = false; }}
+          onMouseLeave={() => { isPainting.current = false; }}
+          className="border border-gray-700 cursor-crosshair"
+          style={{ imageRendering: 'pixelated' }}
+        />
+
+        {/* PREVIEW AND ISSUES */}
+        <div className="space-y-2" style={{ width: PREVIEW_WIDTH }}>
+          <canvas ref={previewRef} width={PREVIEW_WIDTH} height={PREVIEW_HEIGHT} className="block border border-gray-700 cursor-move" />
+          <div className="text-[10px] text-gray-500 uppercase tracking-widest">
+            WASD fly • Drag or arrows to look • Space / C up and down
+          </div>
+          <div className="h-28 overflow-y-auto border border-gray-800 bg-gray-900/50 p-2 text-xs">
+            {previewError && <div className="text-red-400">Preview stopped: {previewError}</div>}
+            {importError && <div className="text-red-400">{importError}</div>}
+            {issues.length === 0
+              ? <div className="text-green-400">Map is valid and ready to export.</div>
+              : issues.map((issue, i) => <div key={i} className="text-amber-400">• {issue}</div>)}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
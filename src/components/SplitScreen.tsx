@@ -0,0 +1,515 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RenderHost } from '../engine/RenderHost';
+import { generateTextures } from '../engine/textures';
+import { SoundManager } from '../engine/SoundManager';
+import { createMapItems, createMapWorld } from '../engine/maps';
+import { getMap } from '../maps';
+import { playAnimation, updateAnimation } from '../engine/animation';
+import { spillBlood } from '../engine/decals';
+import { addScreenEffect, pruneScreenEffects } from '../engine/postprocess';
+import { readInput, type PlayerInput } from '../engine/controls';
+import { createExploredMap, revealCells } from '../engine/fog';
+import { damageEnemy, fireShot, getShotDamage } from '../engine/combat';
+import { applyGravity, jump, movePlayer, turnPlayer, updateZoom } from '../engine/physics';
+import {
+  collectItems,
+  createSimulation,
+  interactAhead,
+  spawnEnemy,
+  updateAI,
+  updateTriggers,
+  updateWorld,
+  type SimWorld,
+  type SimulationEvents
+} from '../engine/simulation';
+import type { MapView } from '../engine/mapView';
+import {
+  type Player,
+  type Vector2,
+  type Enemy,
+  type MapDefinition,
+  type PlayerSpawn,
+  type ScreenEffect,
+  type LocalMatchConfig,
+  type ControlSchemeValue,
+  EnemyState,
+  EnemyAnimation,
+  CellType,
+  LocalMatchMode,
+  PostEffect
+} from '../types';
+import {
+  SCREEN_WIDTH,
+  SCREEN_HEIGHT,
+  ROTATION_SPEED,
+  TEXTURE_PACK_URL,
+  FOV,
+  CLIP_SIZE,
+  START_AMMO,
+  START_RESERVE,
+  RELOAD_TIME,
+  WEAPONS,
+  SUIT_COLORS
+} from '../constants';
+import { Minimap } from './Minimap';
+
+const RESPAWN_TIME = 3000;
+const FRAG_LIMIT = 10; // Versus ends when someone reaches this many kills
+const LOOK_SPEED = 400; // Pitch in display pixels per second at full stick
+
+interface LocalPlayer {
+  scheme: ControlSchemeValue;
+  player: Player;
+  avatar: Enemy; // How the other viewports see this player
+  effects: ScreenEffect[]; // Post effects for this viewport only
+  fovScale: number;
+  lastShotTime: number;
+  reloadUntil: number; // 0 while not reloading
+  respawnAt: number; // 0 while alive
+  score: number; // Points in co-op, kills in versus
+  deaths: number;
+  damageFlash: number;
+  lastInput: PlayerInput; // Previous frame, so buttons like jump act once per press
+  explored: Uint8Array; // Minimap fog of war for this viewport
+}
+
+// What each viewport's HUD shows, snapshotted at UI rate
+interface PlayerHud {
+  player: Player;
+  weaponName: string;
+  score: number;
+  deaths: number;
+  damageFlash: number;
+  isReloading: boolean;
+  respawnIn: number;
+}
+
+interface SplitScreenProps {
+  config: LocalMatchConfig;
+  onExit: () => void;
+}
+
+// The shared world; every viewport renders it from its own player
+const createLocalWorld = (level: MapDefinition): SimWorld => ({
+  enemies: [],
+  items: createMapItems(level, performance.now()),
+  particles: [],
+  decals: {},
+  ...createMapWorld(level),
+  lights: [],
+  effects: [],
+  lastTime: performance.now()
+});
+
+// Player spawn furthest from everyone still standing
+const pickSpawn = (level: MapDefinition, others: Vector2[]): PlayerSpawn => {
+  let best = level.playerSpawns[0], bestDist = -1;
+  for (const point of level.playerSpawns) {
+    const nearest = Math.min(Infinity, ...others.map(o => Math.hypot(o.x - point.x, o.y - point.y)));
+    if (nearest > bestDist) { best = point; bestDist = nearest; }
+  }
+  return best;
+};
+
+const createLocalPlayer = (spawn: PlayerSpawn): Player => {
+  const facing = spawn.angle ?? Math.random() * Math.PI * 2;
+  const dir = { x: Math.cos(facing), y: Math.sin(facing) };
+  return {
+    pos: { x: spawn.x, y: spawn.y },
+    dir,
+    plane: { x: dir.y * FOV, y: -dir.x * FOV },
+    health: 100,
+    ammo: START_AMMO,
+    ammoReserve: START_RESERVE,
+    z: 0,
+    vz: 0,
+    pitch: 0,
+    weaponIndex: 0
+  };
+};
+
+// Two players stack top and bottom, three or four share a 2x2 grid
+const getViewportSize = (count: number) =>
+  count <= 2 ? { width: SCREEN_WIDTH, height: SCREEN_HEIGHT / 2 } : { width: SCREEN_WIDTH / 2, height: SCREEN_HEIGHT / 2 };
+
+export const SplitScreen: React.FC<SplitScreenProps> = ({ config, onExit }) => {
+  const count = config.controls.length;
+  const viewport = getViewportSize(count);
+  const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+  const soundManager = useRef(new SoundManager());
+  const keys = useRef<Record<string, boolean>>({});
+  const isPausedRef = useRef(false); // Ref for game loop access
+  const [isPaused, setIsPaused] = useState(false);
+  const [hud, setHud] = useState<PlayerHud[]>([]);
+  const live = useRef<{ world: SimWorld, players: LocalPlayer[] } | null>(null); // Read by the minimaps between HUD updates
+  const [winner, setWinner] = useState<string | null>(null);
+  const [matchId, setMatchId] = useState(0); // Bumped to restart
+  const [renderErrors, setRenderErrors] = useState<Record<number, string>>({}); // Viewports whose render worker crashed
+  const [message, setMessage] = useState<string | null>(null); // From the map's triggers, shown across every viewport
+
+  useEffect(() => { isPausedRef.current = isPaused; }, [isPaused]);
+
+  useEffect(() => {
+    const textures = generateTextures();
+    const hosts = canvasRefs.current.slice(0, count).map(canvas =>
+      canvas ? RenderHost.attach(canvas, viewport.width, viewport.height, textures) : null);
+    const texturePack = TEXTURE_PACK_URL;
+    if (texturePack) hosts.forEach(host => host?.loadTexturePack(texturePack));
+    hosts.forEach((host, i) => {
+      if (host) host.onError = message => setRenderErrors(errors => ({ ...errors, [i]: message }));
+    });
+    const sound = soundManager.current;
+    sound.init();
+
+    const level = getMap(config.mapId);
+    const worldState = createLocalWorld(level);
+    const players: LocalPlayer[] = [];
+    config.controls.forEach(scheme => {
+      const player = createLocalPlayer(pickSpawn(level, players.map(p => p.player.pos)));
+      players.push({
+        scheme,
+        player,
+        avatar: {
+          id: -1 - players.length,
+          pos: player.pos,
+          dir: player.dir,
+          state: EnemyState.CHASE,
+          health: 100,
+          textureId: CellType.ENEMY_GUARD,
+          lastAttackTime: 0,
+          animationTimer: 0,
+          palette: SUIT_COLORS[players.length].color
+        },
+        effects: [],
+        fovScale: FOV,
+        lastShotTime: 0,
+        reloadUntil: 0,
+        respawnAt: 0,
+        score: 0,
+        deaths: 0,
+        damageFlash: 0,
+        lastInput: readInput(scheme, {}, []),
+        explored: createExploredMap(level.grid)
+      });
+    });
+
+    live.current = { world: worldState, players };
+    const isCoop = config.mode === LocalMatchMode.COOP;
+    const sim = createSimulation(level, config.difficulty, performance.now(), isCoop);
+    let lastUiUpdate = 0;
+    let messageUntil = 0;
+    let isOver = false;
+    let frame = 0;
+
+    const alive = () => players.filter(p => p.player.health > 0);
+    const everyone = () => players.map(p => p.player);
+
+    const hurtPlayer = (target: LocalPlayer, damage: number, now: number, attacker?: LocalPlayer) => {
+      const { player } = target;
+      if (player.health <= 0) return;
+      player.health -= damage;
+      target.damageFlash = 0.8;
+      addScreenEffect(target.effects, PostEffect.CHROMATIC, 0.8, 400, now);
+      sound.playPlayerDamage();
+      if (player.health > 0) {
+        playAnimation(target.avatar, EnemyAnimation.PAIN);
+        return;
+      }
+      target.deaths++;
+      target.respawnAt = now + RESPAWN_TIME;
+      target.avatar.state = EnemyState.DYING;
+      if (attacker) {
+        attacker.score++;
+        if (attacker.score >= FRAG_LIMIT) finish(`Player ${players.indexOf(attacker) + 1} wins`);
+      }
+      if (isCoop && alive().length === 0) finish('Squad wiped out');
+    };
+
+    const finish = (message: string) => {
+      isOver = true;
+      setWinner(message);
+    };
+
+    const events: SimulationEvents = {
+      sound,
+      hurtPlayer: (player, damage, now) => {
+        const target = players.find(p => p.player === player);
+        if (target) hurtPlayer(target, damage, now);
+      },
+      showMessage: (text, until) => {
+        messageUntil = until;
+        setMessage(text);
+      },
+      endLevel: finish
+    };
+
+    const reload = (lp: LocalPlayer, now: number) => {
+      const { player } = lp;
+      if (lp.reloadUntil || player.ammo === CLIP_SIZE || player.ammoReserve === 0) return;
+      lp.reloadUntil = now + RELOAD_TIME;
+      if (player.weaponIndex !== 1) sound.playReload();
+    };
+
+    const shoot = (lp: LocalPlayer, now: number) => {
+      const { player } = lp;
+      const weapon = WEAPONS[player.weaponIndex];
+      if (lp.reloadUntil || now - lp.lastShotTime < weapon.fireRate) return;
+      if (player.ammo <= 0) {
+        if (player.ammoReserve > 0) reload(lp, now);
+        else if (now - lp.lastShotTime > 400) {
+          sound.playDryFire();
+          lp.lastShotTime = now;
+        }
+        return;
+      }
+      player.ammo--;
+      lp.lastShotTime = now;
+      sound.playShoot(weapon.isAuto);
+      playAnimation(lp.avatar, EnemyAnimation.ATTACK);
+      lp.avatar.lastShotAt = now;
+
+      // Versus targets the other players, co-op the AI
+      const targets: Enemy[] = isCoop
+        ? worldState.enemies
+        : players.filter(o => o !== lp && o.player.health > 0).map(o => o.avatar);
+      const hit = fireShot(worldState, player, targets, viewport.height, lp.fovScale, now);
+      if (!hit) return;
+      const damage = getShotDamage(weapon, hit);
+      const victim = players.find(o => o.avatar === hit.target);
+      if (victim) hurtPlayer(victim, damage, now, lp);
+      else lp.score += damageEnemy(sim, worldState, hit.target, damage, player.pos, sound, now);
+    };
+
+    const updatePlayer = (lp: LocalPlayer, input: PlayerInput, dt: number, now: number) => {
+      const { player } = lp;
+      const pressed = (button: 'jump' | 'reload' | 'use' | 'nextWeapon') => input[button] && !lp.lastInput[button];
+
+      if (lp.reloadUntil && now >= lp.reloadUntil) {
+        const available = Math.min(CLIP_SIZE - player.ammo, player.ammoReserve);
+        player.ammo += available;
+        player.ammoReserve -= available;
+        lp.reloadUntil = 0;
+      }
+
+      // Turning: positive input turns right, like moving the mouse right
+      turnPlayer(player, -input.turn * ROTATION_SPEED * (lp.fovScale / FOV) * dt);
+      const maxPitch = viewport.height / 1.5;
+      player.pitch = Math.max(-maxPitch, Math.min(maxPitch, player.pitch + input.look * LOOK_SPEED * dt));
+      lp.fovScale = updateZoom(player, lp.fovScale, input.aim, dt);
+
+      if (pressed('jump')) jump(worldState, player);
+      applyGravity(worldState, player, dt);
+      const dx = player.dir.x * input.move + player.dir.y * input.strafe;
+      const dy = player.dir.y * input.move - player.dir.x * input.strafe;
+      const isMoving = movePlayer(worldState, player, dx, dy, dt);
+      collectItems(worldState, player, now, events);
+
+      if (pressed('reload')) reload(lp, now);
+      if (pressed('use')) interactAhead(sim, worldState, player, everyone(), now, events);
+      if (pressed('nextWeapon') && !lp.reloadUntil) {
+        player.weaponIndex = (player.weaponIndex + 1) % WEAPONS.length;
+        sound.playAmmoPickup();
+      }
+      const weapon = WEAPONS[player.weaponIndex];
+      if (input.fire && (weapon.isAuto || !lp.lastInput.fire)) shoot(lp, now);
+
+      lp.avatar.pos = player.pos;
+      lp.avatar.dir = player.dir;
+      lp.avatar.z = player.z;
+      lp.avatar.health = player.health;
+      return isMoving;
+    };
+
+    const respawn = (lp: LocalPlayer) => {
+      const others = alive().map(p => p.player.pos);
+      lp.player = createLocalPlayer(pickSpawn(level, others));
+      lp.respawnAt = 0;
+      lp.reloadUntil = 0;
+      lp.effects = [];
+      lp.avatar.state = EnemyState.CHASE;
+      lp.avatar.animation = undefined;
+      lp.avatar.animationTimer = 0;
+    };
+
+    const render = () => {
+      players.forEach((lp, i) => {
+        // Everyone else appears as a guard; a dead viewport turns gray
+        const others = players.filter(o => o !== lp).map(o => o.avatar);
+        const effects: ScreenEffect[] = [
+          ...lp.effects,
+          ...(lp.player.health <= 0 ? [{ id: PostEffect.GRAYSCALE, strength: 1 }] : []),
+          ...(isPausedRef.current ? [{ id: PostEffect.BLUR, strength: 1 }] : [])
+        ];
+        hosts[i]?.render({ ...worldState, player: lp.player, enemies: [...worldState.enemies, ...others], effects }, FOV / lp.fovScale);
+        revealCells(lp.explored, hosts[i]?.visibleCells);
+      });
+    };
+
+    const tick = (time: number) => {
+      const dt = Math.min(0.1, (time - worldState.lastTime) / 1000);
+      worldState.lastTime = time;
+
+      if (!isPausedRef.current && !isOver) {
+        const gamepads = navigator.getGamepads?.() ?? [];
+        for (const lp of players) {
+          const input = readInput(lp.scheme, keys.current, gamepads);
+          let isMoving = false;
+          if (lp.player.health > 0) isMoving = updatePlayer(lp, input, dt, time);
+          else if (time >= lp.respawnAt && (!isCoop || alive().length > 0)) respawn(lp);
+          lp.lastInput = input;
+          lp.damageFlash = Math.max(0, lp.damageFlash - dt * 1.3);
+          lp.effects = pruneScreenEffects(lp.effects, time);
+          if (updateAnimation(lp.avatar, dt, isMoving)) {
+            lp.avatar.state = EnemyState.DEAD;
+            spillBlood(worldState.decals, lp.avatar.pos, time);
+          }
+        }
+        if (isCoop) {
+          updateAI(sim, worldState, everyone(), dt, time, events);
+          spawnEnemy(sim, worldState, everyone(), time);
+        }
+        updateTriggers(sim, worldState, everyone(), time, events);
+        if (messageUntil && time > messageUntil) {
+          messageUntil = 0;
+          setMessage(null);
+        }
+        updateWorld(worldState, everyone(), dt, time);
+        const listener = players[0].player;
+        sound.updateListener(listener.pos.x, listener.pos.y, Math.atan2(listener.dir.y, listener.dir.x));
+      }
+
+      render();
+
+      if (time - lastUiUpdate > 100) {
+        lastUiUpdate = time;
+        setHud(players.map(lp => ({
+          player: { ...lp.player, pos: { ...lp.player.pos }, dir: { ...lp.player.dir } },
+          weaponName: WEAPONS[lp.player.weaponIndex].name,
+          score: lp.score,
+          deaths: lp.deaths,
+          damageFlash: lp.damageFlash,
+          isReloading: lp.reloadUntil > 0,
+          respawnIn: lp.respawnAt ? Math.max(0, Math.ceil((lp.respawnAt - time) / 1000)) : 0
+        })));
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Escape') setIsPaused(prev => !prev);
+      keys.current[e.code] = true;
+    };
+    const handleKeyUp = (e: KeyboardEvent) => { keys.current[e.code] = false; };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      hosts.forEach(host => {
+        if (!host) return;
+        host.onError = null;
+        host.release();
+      });
+    };
+  }, [config, count, viewport.width, viewport.height, matchId]);
+
+  // Co-op partners are blue dots; versus rivals only show on the radar, like enemies
+  const getMinimapView = (i: number): MapView | null => {
+    const lp = live.current?.players[i];
+    if (!live.current || !lp) return null;
+    const { world, players } = live.current;
+    const others = players.filter(o => o !== lp);
+    const isCoop = config.mode === LocalMatchMode.COOP;
+    return {
+      state: { ...world, player: lp.player, enemies: isCoop ? world.enemies : [...world.enemies, ...others.map(o => o.avatar)] },
+      explored: lp.explored,
+      teammates: isCoop ? others.map(o => o.player.pos) : []
+    };
+  };
+
+  const restart = () => {
+    setWinner(null);
+    setMessage(null);
+    setIsPaused(false);
+    setMatchId(id => id + 1);
+  };
+
+  return (
+    <div className="relative select-none overflow-hidden bg-black border-[12px] border-neutral-900 shadow-2xl" style={{ width: SCREEN_WIDTH + 24, height: SCREEN_HEIGHT + 24 }}>
+      <div className={`grid w-full h-full ${count <= 2 ? 'grid-cols-1 grid-rows-2' : 'grid-cols-2 grid-rows-2'}`}>
+        {config.controls.map((_, i) => {
+          const view = hud[i];
+          return (
+            <div key={`${matchId}-${i}`} className="relative overflow-hidden border border-neutral-900">
+              <canvas ref={el => { canvasRefs.current[i] = el; }} width={viewport.width} height={viewport.height} className="block" style={{ width: viewport.width, height: viewport.height }} />
+
+              {view && <Minimap getView={() => getMinimapView(i)} />}
+
+              {renderErrors[i] && (
+                <div className="absolute inset-0 z-30 flex flex-col items-center justify-center bg-black/80 font-mono text-center">
+                  <div className="text-red-500 text-sm font-bold uppercase tracking-widest">3D view stopped</div>
+                  <div className="mt-1 text-[10px] text-gray-400">{renderErrors[i]} (reload the page to restart it)</div>
+                </div>
+              )}
+
+              {view && (
+                <>
+                  <div className="absolute top-3 left-1/2 -translate-x-1/2 font-mono text-xs font-black tracking-[0.3em] z-20" style={{ color: SUIT_COLORS[i].color }}>P{i + 1}</div>
+
+                  <div className="absolute top-0 right-0 p-4 flex flex-col items-end z-20 pointer-events-none font-mono">
+                    <div className="text-[10px] text-white/40 tracking-[0.3em] uppercase">{config.mode === LocalMatchMode.COOP ? 'Score' : `Kills / ${FRAG_LIMIT}`}</div>
+                    <div className="text-2xl font-black text-white">{view.score}</div>
+                    <div className="text-[10px] text-white/40 tracking-widest uppercase">Deaths {view.deaths}</div>
+                    <div className="mt-2 text-sm font-bold text-green-500 bg-green-500/10 px-2 py-0.5 border-r-2 border-green-500">{view.weaponName}</div>
+                  </div>
+
+                  <div className="absolute bottom-0 left-0 w-full p-4 flex justify-between items-end z-20 pointer-events-none font-mono">
+                    <div className={`text-3xl font-black leading-none pl-2 border-l-4 border-green-500 ${view.player.health > 30 ? 'text-white' : 'text-red-500 animate-pulse'}`}>
+                      {Math.max(0, Math.ceil(view.player.health))}%
+                    </div>
+                    <div className="text-3xl font-black leading-none text-white pr-2 border-r-4 border-white">
+                      {view.isReloading ? '...' : view.player.ammo}<span className="text-base text-white/20 ml-2">[{view.player.ammoReserve}]</span>
+                    </div>
+                  </div>
+
+                  <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-4 h-4 pointer-events-none z-30">
+                    <div className="absolute top-1/2 left-0 w-full h-[2px] bg-green-400 -translate-y-1/2" />
+                    <div className="absolute left-1/2 top-0 w-[2px] h-full bg-green-400 -translate-x-1/2" />
+                  </div>
+
+                  <div className="absolute inset-0 pointer-events-none z-10" style={{ opacity: view.damageFlash, boxShadow: 'inset 0 0 80px 25px rgba(220, 20, 60, 0.9)' }} />
+
+                  {view.player.health <= 0 && (
+                    <div className="absolute inset-0 flex items-center justify-center z-30 font-mono text-2xl font-black text-red-500 tracking-widest">
+                      {view.respawnIn > 0 ? `RESPAWN IN ${view.respawnIn}` : 'WAITING FOR SQUAD'}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Map trigger message */}
+      {message && !winner && (
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-40 px-6 py-3 bg-black/70 border border-white/20 text-white font-mono text-sm uppercase tracking-widest text-center pointer-events-none">
+          {message}
+        </div>
+      )}
+
+      {(isPaused || winner) && (
+        <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center gap-4 z-50">
+          <h2 className="text-white font-mono text-5xl font-black mb-6 tracking-[0.2em]">{winner ?? 'PAUSED'}</h2>
+          {winner
+            ? <button onClick={restart} className="w-72 py-4 bg-white text-black font-mono font-black uppercase tracking-widest hover:bg-neutral-200 transition-colors">Rematch</button>
+            : <button onClick={() => setIsPaused(false)} className="w-72 py-4 bg-white text-black font-mono font-black uppercase tracking-widest hover:bg-neutral-200 transition-colors">Resume</button>}
+          <button onClick={onExit} className="w-72 py-4 border-2 border-white text-white font-mono font-black uppercase tracking-widest hover:bg-white hover:text-black transition-all">Exit to Menu</button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef } from 'react';
+import type { Vector2 } from '../types';
+import { drawMapView, type MapView } from '../engine/mapView';
+import { SCREEN_HEIGHT, SCREEN_WIDTH } from '../constants';
+
+interface TacticalMapProps {
+  getView: () => MapView | null;
+  onPlaceWaypoint: (pos: Vector2) => void;
+  onRemoveWaypoint: (id: string) => void;
+}
+
+const MIN_CELL_SIZE = 4, MAX_CELL_SIZE = 96; // Zoom range in pixels per cell
+const ZOOM_STEP = 1.15;
+const DRAG_THRESHOLD = 4; // px the mouse may wander before a click becomes a pan
+const PICK_RADIUS = 0.75; // Cells; clicking this close to a waypoint removes it
+
+// Full-screen map shown while the map key is held. The game keeps the pointer locked, so the cursor
+// is tracked from mouse movement and drawn here; without a lock it follows the real pointer.
+export const TacticalMap: React.FC<TacticalMapProps> = ({ getView, onPlaceWaypoint, onRemoveWaypoint }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const propsRef = useRef({ getView, onPlaceWaypoint, onRemoveWaypoint });
+  useEffect(() => { propsRef.current = { getView, onPlaceWaypoint, onRemoveWaypoint }; }, [getView, onPlaceWaypoint, onRemoveWaypoint]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    // Opens centred on the player with the whole map in view
+    const initial = propsRef.current.getView();
+    const map = initial?.state.map ?? [[0]];
+    let cellSize = Math.max(MIN_CELL_SIZE, Math.min(MAX_CELL_SIZE, 0.9 * Math.min(SCREEN_WIDTH / map.length, SCREEN_HEIGHT / map[0].length)));
+    const center: Vector2 = initial ? { ...initial.state.player.pos } : { x: 0, y: 0 };
+    const cursor: Vector2 = { x: SCREEN_WIDTH / 2, y: SCREEN_HEIGHT / 2 };
+    let drag: { start: Vector2, moved: boolean } | null = null;
+    let frame = 0;
+
+    const toWorld = (p: Vector2): Vector2 => ({
+      x: center.x + (p.x - SCREEN_WIDTH / 2) / cellSize,
+      y: center.y + (p.y - SCREEN_HEIGHT / 2) / cellSize
+    });
+
+    const draw = () => {
+      const view = propsRef.current.getView();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+      ctx.fillRect(0, 0, SCREEN_WIDTH, SCREEN_HEIGHT);
+      if (view) {
+        ctx.translate(SCREEN_WIDTH / 2 - center.x * cellSize, SCREEN_HEIGHT / 2 - center.y * cellSize);
+        drawMapView(ctx, view, cellSize, performance.now());
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+      }
+      if (document.pointerLockElement) {
+        ctx.strokeStyle = '#ffffff';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(cursor.x - 8, cursor.y); ctx.lineTo(cursor.x + 8, cursor.y);
+        ctx.moveTo(cursor.x, cursor.y - 8); ctx.lineTo(cursor.x, cursor.y + 8);
+        ctx.stroke();
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const last = { ...cursor };
+      if (document.pointerLockElement) {
+        cursor.x = Math.max(0, Math.min(SCREEN_WIDTH, cursor.x + e.movementX));
+        cursor.y = Math.max(0, Math.min(SCREEN_HEIGHT, cursor.y + e.movementY));
+      } else {
+        const rect = canvas.getBoundingClientRect();
+        cursor.x = (e.clientX - rect.left) * SCREEN_WIDTH / rect.width;
+        cursor.y = (e.clientY - rect.top) * SCREEN_HEIGHT / rect.height;
+      }
+      if (!drag) return;
+      if (Math.hypot(cursor.x - drag.start.x, cursor.y - drag.start.y) > DRAG_THRESHOLD) drag.moved = true;
+      if (drag.moved) {
+        center.x -= (cursor.x - last.x) / cellSize;
+        center.y -= (cursor.y - last.y) / cellSize;
+      }
+    };
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (e.button === 0) drag = { start: { ...cursor }, moved: false };
+    };
+
+    // A click that didn't pan removes the waypoint under the cursor, or drops a new one
+    const handleMouseUp = (e: MouseEvent) => {
+      if (e.button !== 0 || !drag) return;
+      const wasPan = drag.moved;
+      drag = null;
+      if (wasPan) return;
+      const pos = toWorld(cursor);
+      const view = propsRef.current.getView();
+      if (!view) return;
+      const hit = (view.waypoints ?? []).find(w => Math.hypot(w.pos.x - pos.x, w.pos.y - pos.y) < PICK_RADIUS);
+      if (hit) propsRef.current.onRemoveWaypoint(hit.id);
+      else if (pos.x >= 0 && pos.y >= 0 && pos.x < view.state.map.length && pos.y < view.state.map[0].length) propsRef.current.onPlaceWaypoint(pos);
+    };
+
+    // Zooms about the cursor, so the point under it stays put
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const before = toWorld(cursor);
+      cellSize = Math.max(MIN_CELL_SIZE, Math.min(MAX_CELL_SIZE, e.deltaY < 0 ? cellSize * ZOOM_STEP : cellSize / ZOOM_STEP));
+      const after = toWorld(cursor);
+      center.x += before.x - after.x;
+      center.y += before.y - after.y;
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mousedown', handleMouseDown);
+    window.addEventListener('mouseup', handleMouseUp);
+    window.addEventListener('wheel', handleWheel, { passive: false });
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mousedown', handleMouseDown);
+      window.removeEventListener('mouseup', handleMouseUp);
+      window.removeEventListener('wheel', handleWheel);
+    };
+  }, []);
+
+  return (
+    <div className="absolute inset-0 z-40 pointer-events-auto">
+      <canvas ref={canvasRef} width={SCREEN_WIDTH} height={SCREEN_HEIGHT} className="w-full h-full" />
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 font-mono text-[10px] text-white/50 uppercase tracking-widest">
+        Wheel Zoom • Drag Pan • Click Mark / Unmark
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
-
-import { CellType, type Vector2 } from './types';
+import { CellType, Difficulty, EnemyType, type DifficultyLevel, type EnemyAnimationName, type EnemyTypeName } from './types';
+import { GUARD_ANIMATIONS, type AnimationSequence } from './engine/animation';
 
 export const SCREEN_WIDTH = 1280;
 export const SCREEN_HEIGHT = 720;
@@ -7,6 +7,23 @@ export const TICK_RATE = 60;
 export const FOV = 0.66; // 66 degrees FOV roughly
 export const ROTATION_SPEED = 3.0; // Radians per second
 export const MOVE_SPEED = 5.0; // Units per second
+export const GRAVITY = 25.0;
+export const JUMP_FORCE = 8.5;
+
+// Manifest of a texture pack to draw the level with, e.g. VITE_TEXTURE_PACK=/packs/classic/manifest.json
+export const TEXTURE_PACK_URL: string | null = import.meta.env.VITE_TEXTURE_PACK || null;
+
+// Suit colours players pick from in the lobby (see engine/palette)
+export const SUIT_COLORS: { name: string, color: string }[] = [
+  { name: 'Crimson', color: '#b91c1c' },
+  { name: 'Forest', color: '#15803d' },
+  { name: 'Gold', color: '#ca8a04' },
+  { name: 'Violet', color: '#7e22ce' },
+  { name: 'Orange', color: '#ea580c' },
+  { name: 'Teal', color: '#0f766e' },
+  { name: 'Pink', color: '#db2777' },
+  { name: 'Ivory', color: '#e7e5e4' }
+];
 
 // Ammo Constants
 export const CLIP_SIZE = 25;
@@ -43,44 +60,122 @@ export const WEAPONS: WeaponDef[] = [
   }
 ];
 
-export const SPAWN_POINTS: Vector2[] = [
-  { x: 10.5, y: 10.5 },
-  { x: 7.5, y: 7.5 },
-  { x: 15.5, y: 4.5 },
-  { x: 2.5, y: 5.5 },
-  { x: 20.5, y: 5.5 },
-  { x: 18.5, y: 18.5 },
-  { x: 5.5, y: 20.5 },
-  { x: 12.5, y: 12.5 }
-];
+export interface EnemyWeaponDef {
+  damage: number; // At MEDIUM; see ENEMY_DIFFICULTY
+  cooldown: number; // ms between attacks
+  range: number; // Cells
+  isMelee: boolean; // Strikes at arm's length: no muzzle flash or gunshot
+}
+
+export interface EnemyDef {
+  name: string;
+  health: number;
+  armor?: number; // 0..1 share of incoming damage it shrugs off
+  speed: number; // Cells per second
+  weapon: EnemyWeaponDef;
+  accuracy: number; // 0..1 chance an attack lands
+  engageRange?: number; // Distance it fights from, overriding the difficulty's
+  temperament?: number; // Added to the difficulty's aggression (which stays within 0..1): > 0 bolder, < 0 warier
+  palette?: string; // Suit colour swapped onto the guard sprites (see engine/palette)
+  animations: Record<EnemyAnimationName, AnimationSequence>;
+  drops: { item: number, chance: number }[]; // Rolled in order; the first that comes up is dropped
+  score: number;
+  spawn: {
+    weight: number; // Relative odds among the archetypes allowed to spawn
+    minDifficulty: DifficultyLevel;
+    after: number; // ms into the level before it starts turning up
+    maxAlive?: number;
+  };
+}
+
+// Guard animations with every sequence slowed (factor > 1) or sped up
+const retime = (factor: number): Record<EnemyAnimationName, AnimationSequence> =>
+  Object.fromEntries(Object.entries(GUARD_ANIMATIONS).map(([name, seq]) => [name, { ...seq, frameTime: seq.frameTime * factor }])) as Record<EnemyAnimationName, AnimationSequence>;
+
+export const ENEMIES: Record<EnemyTypeName, EnemyDef> = {
+  [EnemyType.GUARD]: {
+    name: "Guard",
+    health: 100,
+    speed: 2.5,
+    weapon: { damage: 10, cooldown: 1800, range: 9, isMelee: false },
+    accuracy: 0.8,
+    animations: GUARD_ANIMATIONS,
+    drops: [{ item: CellType.HEALTH_ORB, chance: 0.5 }, { item: CellType.AMMO_BOX, chance: 1 }],
+    score: 100,
+    spawn: { weight: 10, minDifficulty: Difficulty.EASY, after: 0 }
+  },
+  [EnemyType.RUSHER]: {
+    name: "Rusher",
+    health: 60,
+    speed: 4.2,
+    weapon: { damage: 12, cooldown: 700, range: 1.2, isMelee: true },
+    accuracy: 0.9,
+    engageRange: 0.8,
+    temperament: 0.45,
+    palette: '#b45309',
+    animations: retime(0.6),
+    drops: [{ item: CellType.HEALTH_ORB, chance: 0.3 }],
+    score: 150,
+    spawn: { weight: 4, minDifficulty: Difficulty.EASY, after: 30000 }
+  },
+  [EnemyType.SNIPER]: {
+    name: "Sniper",
+    health: 70,
+    speed: 2.2,
+    weapon: { damage: 30, cooldown: 3200, range: 18, isMelee: false },
+    accuracy: 0.85,
+    engageRange: 14,
+    temperament: -0.35,
+    palette: '#166534',
+    animations: GUARD_ANIMATIONS,
+    drops: [{ item: CellType.AMMO_BOX, chance: 0.8 }],
+    score: 200,
+    spawn: { weight: 3, minDifficulty: Difficulty.MEDIUM, after: 45000, maxAlive: 2 }
+  },
+  [EnemyType.HEAVY]: {
+    name: "Heavy",
+    health: 300,
+    armor: 0.4,
+    speed: 1.4,
+    weapon: { damage: 6, cooldown: 300, range: 8, isMelee: false },
+    accuracy: 0.4,
+    engageRange: 6,
+    temperament: 0.35,
+    palette: '#3f3f46',
+    animations: retime(1.5),
+    drops: [{ item: CellType.AMMO_BOX, chance: 0.7 }, { item: CellType.HEALTH_ORB, chance: 1 }],
+    score: 300,
+    spawn: { weight: 2, minDifficulty: Difficulty.MEDIUM, after: 90000, maxAlive: 2 }
+  },
+  [EnemyType.BOSS]: {
+    name: "Commander",
+    health: 1500,
+    armor: 0.25,
+    speed: 2.0,
+    weapon: { damage: 15, cooldown: 450, range: 12, isMelee: false },
+    accuracy: 0.6,
+    engageRange: 7,
+    temperament: 0.3,
+    palette: '#7f1d1d',
+    animations: retime(1.2),
+    drops: [{ item: CellType.HEALTH_ORB, chance: 1 }],
+    score: 5000,
+    spawn: { weight: 1, minDifficulty: Difficulty.HARD, after: 180000, maxAlive: 1 }
+  }
+};
+
+// Per-difficulty scaling of every archetype's attacks
+export const ENEMY_DIFFICULTY: Record<DifficultyLevel, { damage: number, fireRate: number }> = {
+  [Difficulty.EASY]: { damage: 0.5, fireRate: 0.7 },
+  [Difficulty.MEDIUM]: { damage: 1, fireRate: 1 },
+  [Difficulty.HARD]: { damage: 2, fireRate: 1.5 }
+};
 
 export const MAX_ENEMIES = 10;
 export const SPAWN_INTERVAL = 2000; // 2 seconds
 
-// 1 = Red Brick, 2 = Green Slime, 3 = Blue Tech, 4 = Wood
-export const WORLD_MAP: number[][] = [
-  [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1],
-  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 0, 0, 0, 2, 2, 2, 2, 2, 0, 0, 0, 0, 3, 0, 3, 0, 3, 0, 0, 0, 0, 0, 1],
-  [1, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 0, 3, 0, 0, 0, 3, 0, 0, 0, 0, 0, 1],
-  [1, 0, 0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 0, 0, 0, 2, 2, 0, 2, 2, 0, 0, 0, 0, 3, 0, 3, 0, 3, 0, 0, 0, 0, 0, 1],
-  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 4, 4, 4, 4, 4, 4, 4, 4, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 4, 0, 4, 0, 0, 0, 0, 4, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 4, 0, 0, 0, 0, 5, 0, 4, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 4, 0, 4, 0, 0, 0, 0, 4, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 4, 0, 4, 4, 4, 4, 4, 4, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 4, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 4, 4, 4, 4, 4, 4, 4, 4, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1],
-  [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1]
-];
+export const MINIMAP_REFRESH_INTERVAL = 66; // ms between minimap redraws, ~15 fps
+export const RADAR_FIRE_WINDOW = 1500; // ms an enemy stays on the radar after firing out of sight
+
+export const MAP_KEY = 'Tab'; // Hold to show the tactical map
+export const MAX_WAYPOINTS = 3; // Markers per player; placing another drops the oldest
@@ -1,4 +1,7 @@
 import { io, Socket } from 'socket.io-client';
+import { getMap } from '../maps';
+import { parseGeneratedMapId } from './generator';
+import type { Waypoint } from '../types';
 
 export class NetworkManager {
     private socket: Socket | null = null;
@@ -6,18 +9,21 @@ export class NetworkManager {
 
     public playerId: string | null = null;
     public roomId: string | null = null;
+    public mapId: string | null = null; // The room's map, set on joining
     public players: Record<string, any> = {};
     public timeLeft: number = 300;
+    public doorStates: Record<string, boolean> = {}; // "x,y" -> isOpen, server authoritative
+    public waypoints: Record<string, Waypoint> = {}; // Tactical map markers of everyone in the room
 
     // Callbacks
     public onStateUpdate: ((players: any) => void) | null = null;
     public onPlayerJoined: ((data: any) => void) | null = null;
-    public onRoomJoined: ((roomId: string) => void) | null = null;
+    public onRoomJoined: ((roomId: string, mapId: string) => void) | null = null;
     public onRoomListUpdate: ((rooms: any[]) => void) | null = null;
     public onTimeUpdate: ((time: number) => void) | null = null;
     public onGameOver: ((data: any) => void) | null = null;
     public onPlayerDied: ((data: any) => void) | null = null;
-    public onPlayerRespawn: ((pos: { x: number, y: number }) => void) | null = null;
+    public onPlayerRespawn: ((pos: { x: number, y: number, angle?: number }) => void) | null = null;
     public onHealthUpdate: ((data: { id: string, health: number, isDead?: boolean }) => void) | null = null;
 
     public onItemSpawn: ((item: any) => void) | null = null;
@@ -29,6 +35,10 @@ export class NetworkManager {
     public onWaitingForPlayers: ((timeout: number) => void) | null = null;
     public onGameResumed: (() => void) | null = null;
 
+    // World Events
+    public onDoorUpdate: ((data: { x: number, y: number, isOpen: boolean }) => void) | null = null;
+    public onOtherPlayerShot: ((id: string) => void) | null = null;
+
     private constructor() { }
 
     public static getInstance(): NetworkManager {
@@ -67,11 +77,14 @@ export class NetworkManager {
             // If it's me joining
             if (data.id === this.playerId) {
                 this.roomId = data.roomId; // Capture RoomID
+                this.mapId = data.mapId;
+                this.doorStates = data.doors || {};
+                this.waypoints = data.waypoints || {};
                 if (data.timeLeft) {
                     if (this.onTimeUpdate) this.onTimeUpdate(data.timeLeft);
                 }
                 if (this.onRoomJoined) {
-                    this.onRoomJoined(this.roomId!);
+                    this.onRoomJoined(this.roomId!, data.mapId);
                 }
             } else {
                 if (this.onPlayerJoined) this.onPlayerJoined(data);
@@ -107,11 +120,25 @@ export class NetworkManager {
                 this.players[data.id].x = data.x;
                 this.players[data.id].y = data.y;
                 this.players[data.id].angle = data.angle;
+                this.players[data.id].z = data.z || 0;
             }
         });
 
-        this.socket.on('otherPlayerShot', (data: any) => {
-            // Visual effect for other players shooting could be handled here
+        this.socket.on('doorUpdate', (data: { x: number, y: number, isOpen: boolean }) => {
+            this.doorStates[`${data.x},${data.y}`] = data.isOpen;
+            if (this.onDoorUpdate) this.onDoorUpdate(data);
+        });
+
+        this.socket.on('waypointPlaced', (waypoint: Waypoint) => {
+            this.waypoints[waypoint.id] = waypoint;
+        });
+
+        this.socket.on('waypointRemoved', (data: { id: string }) => {
+            delete this.waypoints[data.id];
+        });
+
+        this.socket.on('otherPlayerShot', (data: { id: string }) => {
+            if (this.onOtherPlayerShot) this.onOtherPlayerShot(data.id);
         });
 
         this.socket.on('healthUpdate', (data: any) => {
@@ -154,7 +181,7 @@ export class NetworkManager {
         this.socket.on('itemCollected', (data: any) => {
             if (this.onItemCollected) this.onItemCollected(data);
         });
-        this.socket.on('playerHit', (data: any) => {
+        this.socket.on('playerHit', () => {
             // handled by client logic or just logging? usually game listens directly
         });
 
@@ -173,18 +200,20 @@ export class NetworkManager {
         this.socket?.emit('requestRoomList');
     }
 
-    public createRoom(customId?: string, duration: number = 5, username: string = 'Anonymous') {
-        this.socket?.emit('createRoom', { customId, duration, username });
+    public createRoom(customId?: string, duration: number = 5, username: string = 'Anonymous', color?: string, mapId?: string) {
+        // The server has no generator, so a generated room brings its player spawns along
+        const spawns = parseGeneratedMapId(mapId) ? getMap(mapId).playerSpawns : undefined;
+        this.socket?.emit('createRoom', { customId, duration, username, color, mapId, spawns });
     }
 
-    public joinRoom(roomId: string, username: string = 'Anonymous') {
+    public joinRoom(roomId: string, username: string = 'Anonymous', color?: string) {
         this.roomId = roomId;
-        this.socket?.emit('joinRoom', { roomId, username });
+        this.socket?.emit('joinRoom', { roomId, username, color });
     }
 
-    public sendMove(x: number, y: number, angle: number) {
+    public sendMove(x: number, y: number, angle: number, z: number = 0) {
         if (!this.roomId) return;
-        this.socket?.emit('playerMove', { roomId: this.roomId, x, y, angle });
+        this.socket?.emit('playerMove', { roomId: this.roomId, x, y, angle, z });
     }
 
     public sendShoot() {
@@ -203,6 +232,22 @@ export class NetworkManager {
         this.socket?.emit('pickupItem', { roomId: this.roomId, itemId });
     }
 
+    public sendDoorUse(x: number, y: number) {
+        if (!this.roomId) return;
+        this.socket?.emit('useDoor', { roomId: this.roomId, x, y });
+    }
+
+    // The server assigns the ID and colour and echoes it back to everyone, this client included
+    public sendWaypoint(x: number, y: number) {
+        if (!this.roomId) return;
+        this.socket?.emit('placeWaypoint', { roomId: this.roomId, x, y });
+    }
+
+    public removeWaypoint(id: string) {
+        if (!this.roomId) return;
+        this.socket?.emit('removeWaypoint', { roomId: this.roomId, id });
+    }
+
     public disconnect() {
         if (this.socket) {
             console.log('DEBUG: Disconnecting socket...');
@@ -210,7 +255,10 @@ export class NetworkManager {
             this.socket = null;
             this.playerId = null;
             this.roomId = null;
+            this.mapId = null;
             this.players = {};
+            this.doorStates = {};
+            this.waypoints = {};
         }
     }
 }
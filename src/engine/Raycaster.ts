@@ -1,75 +1,235 @@
 
-import { CellType, type GameState, type Player, type Texture, type Enemy, type Item, type Vector2, type Decal } from '../types';
+import { CellType, DecalFace, RenderMode, type RenderState, type RenderSprite, type Player, type Texture, type TextureSource, type Decal, type Door, type Light, type RenderModeValue } from '../types';
+import { getDoor, intersectDoor } from './doors';
+import { EYE_HEIGHT, WALL_HEIGHT, getCellHeight, getFloorHeight, isSeeThroughCell } from './heights';
+import { MAX_LIGHT, getLightIntensity, getLightLevel } from './lighting';
+import { getSpriteTexture, getViewAngleIndex } from './sprites';
+import { createCanvas, getContext2D, type AnyCanvas, type AnyContext2D } from './canvas';
+import { getFaceDecals, wallFace } from './decals';
+import { applyPostEffects, getEffectStrength } from './postprocess';
+import type { RenderTarget } from './renderTarget';
+
+const MAX_WALL_LAYERS = 8; // Short walls the ray may pass over before giving up
+const LIGHT_STEPS = 8; // Cached shade variants per 1.0 of brightness
+const FOG_COLOR = { r: 30, g: 30, b: 40 };
+const SIDE_SHADE = 0.85; // Y-side walls are drawn slightly darker
+const WALL_FPS = 5; // Animated walls without a frame rate of their own
+
+// A see-through wall column, held back so it can be composited over whatever lies behind it
+interface WindowSlice {
+  x: number;
+  dist: number;
+  texture: TextureSource;
+  light: number;
+  fog: number;
+  texX: number;
+  yTop: number;
+  yBottom: number;
+  clipTop: number;
+  clipBottom: number;
+}
 
+// Flat colour for the top of a short block, taken from the top texel of the hit column
+const topFaceColor = (texture: TextureSource, texX: number, shade: number) => {
+  const c = texture.data[texX];
+  return { r: (c & 0xFF) * shade, g: ((c >> 8) & 0xFF) * shade, b: ((c >> 16) & 0xFF) * shade };
+};
+
+// Blends an ABGR texel over another by the texel's alpha
+const blendTexel = (dst: number, src: number) => {
+  const a = (src >>> 24) / 255;
+  if (a >= 1) return src;
+  const r = (src & 0xFF) * a + (dst & 0xFF) * (1 - a);
+  const g = ((src >> 8) & 0xFF) * a + ((dst >> 8) & 0xFF) * (1 - a);
+  const b = ((src >> 16) & 0xFF) * a + ((dst >> 16) & 0xFF) * (1 - a);
+  return 0xFF000000 | (b << 16) | (g << 8) | r;
+};
+
+// Projection and rasterization. Buffer mode only touches typed arrays, so it runs anywhere (workers, Node);
+// canvas mode draws columns with drawImage and needs a canvas implementation plus a target that accepts images.
 export class Raycaster {
+  public mode: RenderModeValue = RenderMode.CANVAS;
+  public frameTime = 0; // Smoothed ms spent in render()
+  public visibleCells = new Uint8Array(0); // 1 for every cell a wall ray passed through last frame, indexed x * mapHeight + y
   private zBuffer: number[];
-  private width: number;
-  private height: number;
-  private offscreenCanvas: HTMLCanvasElement;
-  private offscreenCtx: CanvasRenderingContext2D;
-  private imageData: ImageData;
-  private buffer: Uint32Array;
+  private occluderDist: Float32Array;
+  private occluderClip: Float32Array;
+  private occluderCount: Uint8Array;
+  private windowSlices: WindowSlice[] = [];
+  private shadeCache = new Map<TextureSource, AnyCanvas[]>();
+  private lightMap: number[][] = [];
+  private frameLights: Light[] = [];
+  private floorDecals: (Decal[] | null)[] = []; // Per-cell floor decal lists for the current frame
+  private floorTextures: (TextureSource | null)[] = []; // Per-cell surfaces for the current frame, null = open sky
+  private ceilingTextures: (TextureSource | null)[] = [];
+  private skyColumns = new Int32Array(0); // Panorama column seen by each screen column
+  private displayWidth: number;
+  private displayHeight: number;
+  private scale = 1.0; // Internal resolution as a fraction of the display size
+  private width = 0;
+  private height = 0;
+  private offscreenCanvas: AnyCanvas | null = null; // Canvas mode only, created on first use
+  private offscreenCtx: AnyContext2D | null = null;
+  private ctx: AnyContext2D | null = null; // Set while a canvas-mode frame is drawn, null in buffer mode
+  private pixels!: Uint8ClampedArray<ArrayBuffer>;
+  private buffer!: Uint32Array; // Same memory as pixels, one ABGR value per pixel
+  private imageData: ImageData | null = null; // Wraps pixels for canvas mode; null where ImageData is missing (Node)
+  private postScratch = new Uint32Array(0); // Spare frame for post effects, allocated on first use
 
   constructor(width: number, height: number) {
+    this.displayWidth = width;
+    this.displayHeight = height;
+    this.zBuffer = [];
+    this.occluderDist = new Float32Array(0);
+    this.occluderClip = new Float32Array(0);
+    this.occluderCount = new Uint8Array(0);
+    this.setResolutionScale(1.0);
+  }
+
+  public getResolutionScale() {
+    return this.scale;
+  }
+
+  // Renders at a fraction of the display size from now on; the frame is upscaled with nearest-neighbour
+  public setResolutionScale(scale: number) {
+    const width = Math.max(1, Math.round(this.displayWidth * scale));
+    const height = Math.max(1, Math.round(this.displayHeight * scale));
+    this.scale = scale;
+    if (width === this.width && height === this.height) return;
+
     this.width = width;
     this.height = height;
     this.zBuffer = new Array(width).fill(0);
-    this.offscreenCanvas = document.createElement('canvas');
-    this.offscreenCanvas.width = width;
-    this.offscreenCanvas.height = height;
-    this.offscreenCtx = this.offscreenCanvas.getContext('2d', { alpha: false })!;
-    this.imageData = this.offscreenCtx.createImageData(width, height);
-    this.buffer = new Uint32Array(this.imageData.data.buffer);
+    this.occluderDist = new Float32Array(width * MAX_WALL_LAYERS);
+    this.occluderClip = new Float32Array(width * MAX_WALL_LAYERS);
+    this.occluderCount = new Uint8Array(width);
+    this.pixels = new Uint8ClampedArray(width * height * 4);
+    this.buffer = new Uint32Array(this.pixels.buffer);
+    this.imageData = typeof ImageData === 'undefined' ? null : new ImageData(this.pixels, width, height);
   }
 
+  // time drives wall animation and light fades; pass a fixed value for reproducible frames
   public render(
-    ctx: CanvasRenderingContext2D,
-    gameState: GameState,
-    textures: Record<number, Texture[]>,
-    isShooting: boolean = false,
-    zoom: number = 1.0
+    target: RenderTarget,
+    gameState: RenderState,
+    textures: Record<number, TextureSource[]>,
+    zoom: number = 1.0,
+    time: number = performance.now()
   ) {
-    const { player, map, enemies, items, particles, decals } = gameState;
+    const { map, heights, floors, ceilings, enemies, items, particles, decals, doors, lightMap, lights, effects } = gameState;
     const w = this.width;
     const h = this.height;
-    const time = performance.now();
+    const startedAt = performance.now();
+
+    // Pitch is measured in display pixels, so shrink it along with the internal resolution
+    const player = this.scale === 1 ? gameState.player : { ...gameState.player, pitch: gameState.player.pitch * h / this.displayHeight };
+
+    // Freeze dynamic light fades for this frame so per-pixel sampling stays cheap
+    this.lightMap = lightMap;
+    this.frameLights = lights.map(l => ({ pos: l.pos, radius: l.radius, intensity: getLightIntensity(l, time) }));
 
     // 1. Floor and Ceiling Casting (Raw Buffer manipulation for performance)
-    this.castFloorAndCeiling(player, textures, w, h, zoom);
+    this.castFloorAndCeiling(player, map, floors, ceilings, decals, textures, w, h, zoom);
 
-    // Apply pixel buffer to offscreen canvas
-    this.offscreenCtx.putImageData(this.imageData, 0, 0);
+    // Canvas mode draws walls and sprites over the floor with drawImage, so the buffer goes down first
+    this.ctx = this.mode === RenderMode.CANVAS && target.presentImage ? this.getOffscreenContext(w, h) : null;
+    if (this.ctx && this.imageData) this.ctx.putImageData(this.imageData, 0, 0);
 
-    // 2. Wall Casting
-    this.castWalls(this.offscreenCtx, player, map, textures, decals, w, h, time, zoom);
+    // 2. Wall Casting (windows are only collected here, they are drawn with the sprites)
+    this.windowSlices.length = 0;
+    this.castWalls(player, map, doors, heights, textures, decals, w, h, time, zoom);
 
-    // 3. Sprite Casting
+    // 3. Sprite Casting, interleaved back to front with the window slices
     const allSprites = [...enemies, ...items, ...particles];
-    this.castSprites(this.offscreenCtx, player, allSprites, textures, w, h, zoom);
-
-    // 4. Muzzle Flash Lighting
-    if (isShooting) {
-      this.offscreenCtx.fillStyle = 'rgba(255, 255, 200, 0.15)';
-      this.offscreenCtx.fillRect(0, 0, w, h);
+    this.castSprites(player, map, heights, allSprites, textures, w, h, zoom);
+    this.flushWindows(0);
+
+    // 4. Post-processing works on the finished pixels, so a canvas-mode frame is read back first
+    if (effects.some(e => getEffectStrength(e, time) > 0)) {
+      if (this.ctx) {
+        this.pixels.set(this.ctx.getImageData(0, 0, w, h).data);
+        this.ctx = null;
+      }
+      if (this.postScratch.length !== this.buffer.length) this.postScratch = new Uint32Array(this.buffer.length);
+      applyPostEffects(this.buffer, this.postScratch, w, h, effects, time);
     }
 
-    // Draw final output to main canvas
-    ctx.drawImage(this.offscreenCanvas, 0, 0);
+    // Buffer mode rasterised everything itself, one upload for the whole frame
+    if (this.ctx && this.offscreenCanvas) target.presentImage!(this.offscreenCanvas, w, h);
+    else target.presentPixels(this.pixels, w, h);
+    this.ctx = null;
+    this.frameTime += (performance.now() - startedAt - this.frameTime) * 0.1;
   }
 
-  private castFloorAndCeiling(player: Player, textures: Record<number, Texture[]>, w: number, h: number, zoom: number) {
-    const floorTexture = textures[CellType.FLOOR][0];
-    const ceilingTexture = textures[CellType.CEILING][0];
-    if (!floorTexture || !ceilingTexture) return;
+  private getOffscreenContext(w: number, h: number): AnyContext2D {
+    if (!this.offscreenCanvas || !this.offscreenCtx) {
+      this.offscreenCanvas = createCanvas(w, h);
+      this.offscreenCtx = getContext2D(this.offscreenCanvas, { alpha: false });
+    }
+    if (this.offscreenCanvas.width !== w || this.offscreenCanvas.height !== h) {
+      this.offscreenCanvas.width = w;
+      this.offscreenCanvas.height = h;
+    }
+    return this.offscreenCtx;
+  }
+
+  private castFloorAndCeiling(
+    player: Player,
+    map: number[][],
+    floors: number[][],
+    ceilings: number[][],
+    decals: Record<string, Decal[]>,
+    textures: Record<number, TextureSource[]>,
+    w: number,
+    h: number,
+    zoom: number
+  ) {
+    const defaultFloor = textures[CellType.FLOOR]?.[0];
+    const defaultCeiling = textures[CellType.CEILING]?.[0];
+    if (!defaultFloor || !defaultCeiling) return;
+    const sky = textures[CellType.SKY]?.[0];
+
+    // Resolve each cell's textures once per frame; null marks open sky
+    const mapW = map.length;
+    const mapH = map[0]?.length ?? 0;
+    if (this.floorTextures.length !== mapW * mapH) {
+      this.floorTextures = new Array(mapW * mapH);
+      this.ceilingTextures = new Array(mapW * mapH);
+      this.floorDecals = new Array(mapW * mapH);
+    }
+    this.floorDecals.fill(null);
+    for (const list of Object.values(decals)) {
+      const d = list[0];
+      if (d?.face === DecalFace.FLOOR && d.mapX >= 0 && d.mapX < mapW && d.mapY >= 0 && d.mapY < mapH) this.floorDecals[d.mapX * mapH + d.mapY] = list;
+    }
+    for (let cx = 0; cx < mapW; cx++) {
+      for (let cy = 0; cy < mapH; cy++) {
+        const floorId = floors[cx]?.[cy] ?? CellType.FLOOR;
+        const ceilingId = ceilings[cx]?.[cy] ?? CellType.CEILING;
+        this.floorTextures[cx * mapH + cy] = textures[floorId]?.[0] ?? defaultFloor;
+        this.ceilingTextures[cx * mapH + cy] = ceilingId === CellType.SKY && sky ? null : textures[ceilingId]?.[0] ?? defaultCeiling;
+      }
+    }
 
-    const wallHeight = 1.0;
-    const camHeight = 0.5 + player.z;
+    const wallHeight = WALL_HEIGHT;
+    const camHeight = EYE_HEIGHT + player.z;
     const pitch = player.pitch;
-    const playerZ = 0.5 + player.z;
+    const horizon = h / 2 + pitch;
+
+    // The panorama wraps once around the view: columns follow each ray's heading, and its bottom edge
+    // sits on the horizon so looking up or down scrolls it vertically
+    if (sky) {
+      if (this.skyColumns.length !== w) this.skyColumns = new Int32Array(w);
+      for (let x = 0; x < w; x++) {
+        const cameraX = 2 * x / w - 1;
+        const angle = Math.atan2(player.dir.y + player.plane.y * cameraX, player.dir.x + player.plane.x * cameraX);
+        this.skyColumns[x] = Math.floor((1 - angle / (Math.PI * 2)) * sky.width) & (sky.width - 1);
+      }
+    }
 
     for (let y = 0; y < h; y++) {
-      const isFloor = y > h / 2 + pitch;
-      const p = isFloor ? (y - h / 2 - pitch) : (h / 2 - y + pitch);
+      const isFloor = y > horizon;
+      const p = isFloor ? (y - horizon) : (horizon - y);
 
       if (p === 0) continue;
 
@@ -86,19 +246,35 @@ export class Raycaster {
 
       const fogDistance = 20.0;
       const fogAmount = Math.min(1, rowDistance / fogDistance);
+      const surfaces = isFloor ? this.floorTextures : this.ceilingTextures;
+      const skyRow = sky ? Math.max(0, Math.min(sky.height - 1, Math.floor((1 - (horizon - y) / h) * sky.height))) * sky.width : 0;
 
       for (let x = 0; x < w; x++) {
-        const tx = Math.floor(floorTexture.width * (floorX - Math.floor(floorX))) & (floorTexture.width - 1);
-        const ty = Math.floor(floorTexture.height * (floorY - Math.floor(floorY))) & (floorTexture.height - 1);
-
-        const texIndex = ty * floorTexture.width + tx;
-        let color = isFloor ? floorTexture.data[texIndex] : ceilingTexture.data[texIndex];
+        const cellX = Math.floor(floorX);
+        const cellY = Math.floor(floorY);
+        const inMap = cellX >= 0 && cellX < mapW && cellY >= 0 && cellY < mapH;
+        const cell = cellX * mapH + cellY;
+        const texture = inMap ? surfaces[cell] : (isFloor ? defaultFloor : defaultCeiling);
+
+        if (!texture) {
+          // Open sky is unaffected by lights and fog
+          this.buffer[y * w + x] = sky!.data[skyRow + this.skyColumns[x]];
+          floorX += floorStepX;
+          floorY += floorStepY;
+          continue;
+        }
 
-        if (fogAmount > 0) {
-          const fogFactor = 1 - fogAmount * 0.7;
-          const r = (color & 0xFF) * fogFactor;
-          const g = ((color >> 8) & 0xFF) * fogFactor;
-          const b = ((color >> 16) & 0xFF) * fogFactor;
+        const tx = Math.floor(texture.width * (floorX - cellX)) & (texture.width - 1);
+        const ty = Math.floor(texture.height * (floorY - cellY)) & (texture.height - 1);
+        let color = texture.data[ty * texture.width + tx];
+        const marks = isFloor && inMap ? this.floorDecals[cell] : null;
+        if (marks) color = this.stampFloorDecals(marks, textures, color, floorX - cellX, floorY - cellY);
+
+        const shade = (1 - fogAmount * 0.7) * this.sampleLight(floorX, floorY);
+        if (shade !== 1) {
+          const r = Math.min(255, (color & 0xFF) * shade);
+          const g = Math.min(255, ((color >> 8) & 0xFF) * shade);
+          const b = Math.min(255, ((color >> 16) & 0xFF) * shade);
           color = (color & 0xFF000000) | (b << 16) | (g << 8) | r;
         }
 
@@ -110,18 +286,37 @@ export class Raycaster {
     }
   }
 
+  // Floor texel with the cell's decals composited over it; fx, fy are the position within the cell
+  private stampFloorDecals(marks: Decal[], textures: Record<number, TextureSource[]>, color: number, fx: number, fy: number) {
+    for (const d of marks) {
+      const du = (fx - d.u) / d.size + 0.5;
+      const dv = (fy - d.v) / d.size + 0.5;
+      if (du < 0 || du >= 1 || dv < 0 || dv >= 1) continue;
+      const decalTexture = textures[d.textureId]?.[d.variant] ?? textures[d.textureId]?.[0];
+      if (!decalTexture) continue;
+      const texel = decalTexture.data[Math.floor(dv * decalTexture.height) * decalTexture.width + Math.floor(du * decalTexture.width)];
+      if (texel >>> 24) color = blendTexel(color, texel);
+    }
+    return color;
+  }
+
   private castWalls(
-    ctx: CanvasRenderingContext2D,
     player: Player,
     map: number[][],
-    textures: Record<number, Texture[]>,
-    decals: Decal[],
+    doors: Record<string, Door>,
+    heights: number[][],
+    textures: Record<number, TextureSource[]>,
+    decals: Record<string, Decal[]>,
     w: number,
     h: number,
     time: number,
     zoom: number
   ) {
-    const camHeight = 0.5 + player.z;
+    const camHeight = EYE_HEIGHT + player.z;
+    const horizon = h / 2 + player.pitch;
+    const mapHeight = map[0]?.length ?? 0;
+    if (this.visibleCells.length !== map.length * mapHeight) this.visibleCells = new Uint8Array(map.length * mapHeight);
+    else this.visibleCells.fill(0);
 
     for (let x = 0; x < w; x++) {
       const cameraX = 2 * x / w - 1;
@@ -152,8 +347,32 @@ export class Raycaster {
         sideDistY = (mapY + 1.0 - player.pos.y) * deltaDistY;
       }
 
-      let hit = 0, side = 0, wallType = 0;
-      while (hit === 0) {
+      // Walk the ray front to back. Short walls don't stop it, they only cover the screen
+      // below their top edge, so everything further away is clipped against clipBottom.
+      let side = 0;
+      let clipBottom = h;
+      let layers = 0;
+      this.zBuffer[x] = Infinity;
+
+      if (map[mapX]?.[mapY] !== undefined) this.visibleCells[mapX * mapHeight + mapY] = 1;
+
+      // Standing on a ledge: its top runs from under our feet to where the ray leaves the cell
+      const startCell = map[mapX]?.[mapY];
+      if (startCell && startCell !== CellType.DOOR && getCellHeight(heights, mapX, mapY) < camHeight) {
+        const texture = (textures[startCell] || textures[1])[0];
+        const exitDist = Math.min(sideDistX, sideDistY);
+        const farTop = Math.max(0, horizon - (getCellHeight(heights, mapX, mapY) - camHeight) * (h / exitDist) * zoom);
+        if (farTop < h) {
+          const top = topFaceColor(texture, texture.width >> 1, 0.8 * this.sampleLight(player.pos.x, player.pos.y));
+          this.fillColumn(x, farTop, h, top.r, top.g, top.b, 1);
+          this.occluderDist[x * MAX_WALL_LAYERS] = exitDist;
+          this.occluderClip[x * MAX_WALL_LAYERS] = farTop;
+          clipBottom = farTop;
+          layers++;
+        }
+      }
+
+      while (layers < MAX_WALL_LAYERS && clipBottom > 0) {
         if (sideDistX < sideDistY) {
           sideDistX += deltaDistX;
           mapX += stepX;
@@ -163,96 +382,273 @@ export class Raycaster {
           mapY += stepY;
           side = 1;
         }
-        if (map[mapX] && map[mapX][mapY] > 0) {
-          hit = 1;
-          wallType = map[mapX][mapY];
+        if (!map[mapX] || map[mapX][mapY] === undefined) break;
+        this.visibleCells[mapX * mapHeight + mapY] = 1;
+
+        const wallType = map[mapX][mapY];
+        if (wallType === 0) continue;
+
+        let doorHit: { dist: number, wallX: number } | null = null;
+        if (wallType === CellType.DOOR) {
+          // Doors are recessed to the middle of the cell, the ray keeps going through the open gap
+          const door = getDoor(doors, mapX, mapY);
+          doorHit = door ? intersectDoor(door, player.pos.x, player.pos.y, rayDirX, rayDirY) : null;
+          if (!doorHit || !door) continue;
+          side = door.axis;
         }
-      }
 
-      const perpWallDist = side === 0 ? (sideDistX - deltaDistX) : (sideDistY - deltaDistY);
-      this.zBuffer[x] = perpWallDist;
+        const cellHeight = doorHit ? WALL_HEIGHT : getCellHeight(heights, mapX, mapY);
+        const perpWallDist = doorHit ? doorHit.dist : side === 0 ? (sideDistX - deltaDistX) : (sideDistY - deltaDistY);
 
-      // Apply Zoom to Wall Scale
-      const scale = (h / perpWallDist) * zoom;
+        // Apply Zoom to Wall Scale
+        const scale = (h / perpWallDist) * zoom;
 
-      // Fixed Wall Height (Standard)
-      const wallHeight = 1.0;
+        // Perspective Projection:
+        const drawStart = horizon - (cellHeight - camHeight) * scale;
+        const drawEnd = horizon + camHeight * scale;
 
-      // Perspective Projection:
-      const drawStart = (h / 2) + player.pitch - (wallHeight - camHeight) * scale;
-      const drawEnd = (h / 2) + player.pitch + (camHeight) * scale;
+        const texFrames = textures[wallType] || textures[1];
+        const frameIdx = texFrames.length > 1 ? Math.floor(time * (texFrames[0].fps ?? WALL_FPS) / 1000) % texFrames.length : 0;
+        const texture = texFrames[frameIdx];
 
-      const lineHeight = drawEnd - drawStart;
+        let wallX = side === 0 ? player.pos.y + perpWallDist * rayDirY : player.pos.x + perpWallDist * rayDirX;
+        wallX -= Math.floor(wallX);
 
-      const texFrames = textures[wallType] || textures[1];
-      const frameIdx = texFrames.length > 1 ? Math.floor(time / 200) % texFrames.length : 0;
-      const texture = texFrames[frameIdx];
+        let texX = Math.floor(wallX * texture.width);
+        if (doorHit) {
+          // Slide the texture along with the slab instead of mirroring it per side
+          texX = Math.min(texture.width - 1, Math.floor(doorHit.wallX * texture.width));
+        } else {
+          if (side === 0 && rayDirX > 0) texX = texture.width - texX - 1;
+          if (side === 1 && rayDirY < 0) texX = texture.width - texX - 1;
+        }
+
+        const clippedStart = Math.max(0, drawStart);
+        const clippedEnd = Math.min(clipBottom, h - 1, drawEnd);
 
-      let wallX = side === 0 ? player.pos.y + perpWallDist * rayDirY : player.pos.x + perpWallDist * rayDirX;
-      wallX -= Math.floor(wallX);
+        // Light the face from the open cell just in front of it
+        let light = this.sampleLight(player.pos.x + rayDirX * (perpWallDist - 0.01), player.pos.y + rayDirY * (perpWallDist - 0.01));
+        if (side === 1) light *= SIDE_SHADE;
+
+        const fogDistance = 18.0;
+        const fogAmount = Math.min(1, perpWallDist / fogDistance);
 
-      let texX = Math.floor(wallX * texture.width);
-      if (side === 0 && rayDirX > 0) texX = texture.width - texX - 1;
-      if (side === 1 && rayDirY < 0) texX = texture.width - texX - 1;
+        if (isSeeThroughCell(wallType)) {
+          // Keep marching so the room behind gets drawn, the frame is composited on top later
+          if (clippedEnd > clippedStart) {
+            this.windowSlices.push({ x, dist: perpWallDist, texture, light, fog: fogAmount * 0.6, texX, yTop: drawStart, yBottom: drawEnd, clipTop: clippedStart, clipBottom: clippedEnd });
+          }
+          continue;
+        }
 
-      const clippedStart = Math.max(0, drawStart);
-      const clippedEnd = Math.min(h - 1, drawEnd);
+        // Top face of a block we are looking down onto, spanning to where the ray leaves the cell
+        let coverTop = drawStart;
+        if (cellHeight < camHeight && !doorHit) {
+          const exitDist = Math.min(sideDistX, sideDistY);
+          const farTop = horizon - (cellHeight - camHeight) * (h / exitDist) * zoom;
+          const faceStart = Math.max(0, farTop);
+          const faceEnd = Math.min(clipBottom, drawStart);
+          if (faceEnd > faceStart) {
+            const top = topFaceColor(texture, texX, 0.8 * light * (1 - fogAmount * 0.6));
+            this.fillColumn(x, faceStart, faceEnd, top.r, top.g, top.b, 1);
+          }
+          coverTop = Math.min(coverTop, farTop);
+        }
 
-      if (clippedEnd > clippedStart) {
-        ctx.drawImage(
-          texture.image,
-          texX, 0, 1, texture.height,
-          x, clippedStart, 1, clippedEnd - clippedStart
-        );
+        if (clippedEnd > clippedStart) {
+          // Tile the texture once per wall unit, measured down from the top edge
+          for (let top = cellHeight; top > 0; top -= WALL_HEIGHT) {
+            const bottom = Math.max(0, top - WALL_HEIGHT);
+            this.drawColumn(
+              texture, light, texX, x,
+              horizon - (top - camHeight) * scale, horizon - (bottom - camHeight) * scale,
+              0, (top - bottom) * texture.height,
+              clippedStart, clippedEnd, fogAmount * 0.6
+            );
+          }
 
-        if (side === 1) {
-          ctx.fillStyle = 'rgba(0, 0, 0, 0.15)';
-          ctx.fillRect(x, clippedStart, 1, clippedEnd - clippedStart);
+          // Decals are stamped in the face's texture space, so they scale and clip with the wall
+          const faceDecals = doorHit ? undefined : getFaceDecals(decals, mapX, mapY, wallFace(side, side === 0 ? stepX : stepY));
+          faceDecals?.forEach(d => {
+            const du = (wallX - d.u) / d.size + 0.5;
+            if (du < 0 || du >= 1) return;
+            const decalTexture = textures[d.textureId]?.[d.variant] ?? textures[d.textureId]?.[0];
+            if (!decalTexture) return;
+            this.drawColumn(
+              decalTexture, light * (1 - fogAmount * 0.6), Math.floor(du * decalTexture.width), x,
+              horizon - (d.v + d.size / 2 - camHeight) * scale, horizon - (d.v - d.size / 2 - camHeight) * scale,
+              0, decalTexture.height,
+              clippedStart, clippedEnd
+            );
+          });
         }
 
-        const sliceDecals = decals.filter(d => d.mapX === mapX && d.mapY === mapY && d.side === side && Math.abs(d.wallX - wallX) < 0.01);
-        sliceDecals.forEach(d => {
-          const decalY = drawStart + d.wallY * lineHeight;
-          ctx.fillStyle = `rgba(30, 30, 30, ${d.life})`;
-          ctx.fillRect(x, decalY - 2, 1, 4);
-        });
+        // Remember what this layer hides so sprites behind it get clipped the same way
+        const slot = x * MAX_WALL_LAYERS + layers;
+        this.occluderDist[slot] = perpWallDist;
+        this.occluderClip[slot] = Math.max(0, coverTop);
+        layers++;
+        clipBottom = Math.min(clipBottom, Math.max(0, coverTop));
 
-        const fogDistance = 18.0;
-        const fogAmount = Math.min(1, perpWallDist / fogDistance);
-        if (fogAmount > 0) {
-          ctx.fillStyle = `rgba(30, 30, 40, ${fogAmount * 0.6})`;
-          ctx.fillRect(x, clippedStart, 1, clippedEnd - clippedStart);
+        if (cellHeight >= WALL_HEIGHT) {
+          this.zBuffer[x] = perpWallDist;
+          break;
         }
       }
+      this.occluderCount[x] = layers;
+    }
+  }
+
+  // Draws texture rows [vTop, vBottom) of column texX stretched over screen rows [yTop, yBottom),
+  // cropped to [clipTop, clipBottom) without squashing the texture. fog is how far to blend towards FOG_COLOR.
+  private drawColumn(
+    texture: TextureSource,
+    light: number,
+    texX: number,
+    x: number,
+    yTop: number,
+    yBottom: number,
+    vTop: number,
+    vBottom: number,
+    clipTop: number,
+    clipBottom: number,
+    fog: number = 0
+  ) {
+    const start = Math.max(yTop, clipTop);
+    const end = Math.min(yBottom, clipBottom);
+    if (end <= start || yBottom <= yTop) return;
+    const texPerPixel = (vBottom - vTop) / (yBottom - yTop);
+    const v0 = vTop + (start - yTop) * texPerPixel;
+
+    const ctx = this.ctx;
+    if (!ctx) {
+      this.blitColumn(texture, light, texX, x, start, end, v0, texPerPixel, fog);
+      return;
+    }
+    const v1 = vTop + (end - yTop) * texPerPixel;
+    ctx.drawImage(this.getShadedImage(texture, light), texX, v0, 1, v1 - v0, x, start, 1, end - start);
+    if (fog > 0) this.fillColumn(x, start, end, FOG_COLOR.r, FOG_COLOR.g, FOG_COLOR.b, fog);
+  }
+
+  // Buffer-mode drawColumn: samples texels per pixel, fully transparent texels are skipped
+  // and partially transparent ones are blended over what is already there.
+  private blitColumn(texture: TextureSource, light: number, texX: number, x: number, start: number, end: number, v0: number, texPerPixel: number, fog: number) {
+    const buffer = this.buffer;
+    const data = texture.data;
+    const w = this.width;
+    const maxRow = texture.height - 1;
+    const scale = light * (1 - fog);
+    const fogR = FOG_COLOR.r * fog, fogG = FOG_COLOR.g * fog, fogB = FOG_COLOR.b * fog;
+    const yEnd = Math.min(this.height, Math.round(end));
+
+    for (let y = Math.max(0, Math.round(start)); y < yEnd; y++) {
+      const row = Math.min(maxRow, Math.max(0, Math.floor(v0 + (y + 0.5 - start) * texPerPixel)));
+      const c = data[row * texture.width + texX];
+      const a = c >>> 24;
+      if (a === 0) continue;
+
+      let r = Math.min(255, (c & 0xFF) * scale + fogR);
+      let g = Math.min(255, ((c >> 8) & 0xFF) * scale + fogG);
+      let b = Math.min(255, ((c >> 16) & 0xFF) * scale + fogB);
+      const idx = y * w + x;
+      if (a < 255) {
+        const alpha = a / 255;
+        const dst = buffer[idx];
+        r = r * alpha + (dst & 0xFF) * (1 - alpha);
+        g = g * alpha + ((dst >> 8) & 0xFF) * (1 - alpha);
+        b = b * alpha + ((dst >> 16) & 0xFF) * (1 - alpha);
+      }
+      buffer[idx] = 0xFF000000 | (b << 16) | (g << 8) | r;
+    }
+  }
+
+  // Flat colour over screen rows [yTop, yBottom) of column x, blended by alpha
+  private fillColumn(x: number, yTop: number, yBottom: number, r: number, g: number, b: number, alpha: number) {
+    const ctx = this.ctx;
+    if (ctx) {
+      ctx.fillStyle = alpha >= 1 ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${alpha})`;
+      ctx.fillRect(x, yTop, 1, yBottom - yTop);
+      return;
+    }
+    const buffer = this.buffer;
+    const w = this.width;
+    const yEnd = Math.min(this.height, Math.round(yBottom));
+    for (let y = Math.max(0, Math.round(yTop)); y < yEnd; y++) {
+      const idx = y * w + x;
+      const dst = buffer[idx];
+      const nr = r * alpha + (dst & 0xFF) * (1 - alpha);
+      const ng = g * alpha + ((dst >> 8) & 0xFF) * (1 - alpha);
+      const nb = b * alpha + ((dst >> 16) & 0xFF) * (1 - alpha);
+      buffer[idx] = 0xFF000000 | (nb << 16) | (ng << 8) | nr;
+    }
+  }
+
+  private sampleLight(x: number, y: number): number {
+    return getLightLevel(this.lightMap, this.frameLights, x, y, 0);
+  }
+
+  // Texture copy with brightness baked in, quantised to LIGHT_STEPS and cached. Scaling the
+  // pixels keeps transparent areas untouched, unlike a fillRect overlay.
+  private getShadedImage(texture: TextureSource, level: number): AnyCanvas {
+    const step = Math.max(0, Math.min(MAX_LIGHT * LIGHT_STEPS, Math.round(level * LIGHT_STEPS)));
+    // Generated textures come with a canvas already, bare pixel sources get an unshaded copy built below
+    if (step === LIGHT_STEPS && 'image' in texture) return (texture as Texture).image;
+
+    let variants = this.shadeCache.get(texture);
+    if (!variants) {
+      variants = [];
+      this.shadeCache.set(texture, variants);
+    }
+    if (!variants[step]) {
+      const factor = step / LIGHT_STEPS;
+      const canvas = createCanvas(texture.width, texture.height);
+      const shadedCtx = getContext2D(canvas);
+      const imgData = shadedCtx.createImageData(texture.width, texture.height);
+      const out = new Uint32Array(imgData.data.buffer);
+      for (let i = 0; i < texture.data.length; i++) {
+        const c = texture.data[i];
+        const r = Math.min(255, (c & 0xFF) * factor);
+        const g = Math.min(255, ((c >> 8) & 0xFF) * factor);
+        const b = Math.min(255, ((c >> 16) & 0xFF) * factor);
+        out[i] = (c & 0xFF000000) | (b << 16) | (g << 8) | r;
+      }
+      shadedCtx.putImageData(imgData, 0, 0);
+      variants[step] = canvas;
     }
+    return variants[step];
   }
 
   private castSprites(
-    ctx: CanvasRenderingContext2D,
     player: Player,
-    sprites: any[],
-    textures: Record<number, Texture[]>,
+    map: number[][],
+    heights: number[][],
+    sprites: RenderSprite[],
+    textures: Record<number, TextureSource[]>,
     w: number,
     h: number,
     zoom: number
   ) {
+    const invDet = 1.0 / (player.plane.x * player.dir.y - player.dir.x * player.plane.y);
+
+    // Sort on camera depth (not euclidean distance) so window slices interleave correctly
     const spriteOrder = sprites
       .map((sprite) => {
-        const dist = (player.pos.x - sprite.pos.x) ** 2 + (player.pos.y - sprite.pos.y) ** 2;
-        return { sprite, dist };
+        const spriteX = sprite.pos.x - player.pos.x;
+        const spriteY = sprite.pos.y - player.pos.y;
+        const transformX = invDet * (player.dir.y * spriteX - player.dir.x * spriteY);
+        const transformY = invDet * (-player.plane.y * spriteX + player.plane.x * spriteY);
+        return { sprite, transformX, transformY };
       })
-      .sort((a, b) => b.dist - a.dist);
+      .filter(item => item.transformY > 0)
+      .sort((a, b) => b.transformY - a.transformY);
 
-    for (const item of spriteOrder) {
-      const { sprite, dist } = item;
-      const spriteX = sprite.pos.x - player.pos.x;
-      const spriteY = sprite.pos.y - player.pos.y;
-      const invDet = 1.0 / (player.plane.x * player.dir.y - player.dir.x * player.plane.y);
+    this.windowSlices.sort((a, b) => b.dist - a.dist);
 
-      const transformX = invDet * (player.dir.y * spriteX - player.dir.x * spriteY);
-      const transformY = invDet * (-player.plane.y * spriteX + player.plane.x * spriteY);
+    for (const item of spriteOrder) {
+      const { sprite, transformX, transformY } = item;
 
-      if (transformY <= 0) continue;
+      // Glass further away than this sprite goes down first
+      this.flushWindows(transformY);
 
       const spriteScreenX = Math.floor((w / 2) * (1 + transformX / transformY));
 
@@ -260,7 +656,9 @@ export class Raycaster {
       const spriteHeight = Math.abs(Math.floor(h / transformY)) * zoom;
       const spriteWidth = Math.abs(Math.floor(h / transformY)) * zoom;
 
-      const vOffset = player.pitch + (player.z * h * zoom) / transformY;
+      // Entities stand on whatever ledge is under them
+      const spriteZ = sprite.z ?? getFloorHeight(map, heights, sprite.pos);
+      const vOffset = player.pitch + ((player.z - spriteZ) * h * zoom) / transformY;
 
       const drawStartY = -spriteHeight / 2 + h / 2 + vOffset;
       const drawEndY = spriteHeight / 2 + h / 2 + vOffset;
@@ -268,26 +666,39 @@ export class Raycaster {
       const drawStartX = Math.max(0, -spriteWidth / 2 + spriteScreenX);
       const drawEndX = Math.min(w - 1, spriteWidth / 2 + spriteScreenX);
 
-      const texture = textures[sprite.textureId]?.[0];
+      // Entities with a facing show the view matching where the camera stands relative to them
+      const angle = sprite.dir ? getViewAngleIndex(player.pos, sprite.pos, sprite.dir) : 0;
+      const texture = getSpriteTexture(textures, sprite.textureId, sprite.currentFrame ?? 0, angle, sprite.palette);
       if (!texture) continue;
 
+      // Fog and lighting scale the texels themselves, so transparent pixels stay untouched
+      const fogAmount = Math.min(1, transformY / 18.0);
+      const light = this.sampleLight(sprite.pos.x, sprite.pos.y) * (1 - fogAmount * 0.6);
+
       for (let stripe = Math.floor(drawStartX); stripe < Math.floor(drawEndX); stripe++) {
         const texX = Math.floor((stripe - (-spriteWidth / 2 + spriteScreenX)) * texture.width / spriteWidth);
         if (transformY > 0 && stripe > 0 && stripe < w && transformY < this.zBuffer[stripe]) {
-          const clippedYStart = Math.max(0, drawStartY);
-          const clippedYEnd = Math.min(h - 1, drawEndY);
-
-          if (clippedYEnd > clippedYStart) {
-            ctx.drawImage(
-              texture.image,
-              texX, 0, 1, texture.height,
-              stripe, clippedYStart, 1, clippedYEnd - clippedYStart
-            );
-
-            // Fog was removed from here to eliminate the black border artifact around transparent sprite regions.
+          // Short walls in front of the sprite hide its lower part
+          let clipBottom = h - 1;
+          for (let i = 0; i < this.occluderCount[stripe]; i++) {
+            const slot = stripe * MAX_WALL_LAYERS + i;
+            if (this.occluderDist[slot] < transformY) clipBottom = Math.min(clipBottom, this.occluderClip[slot]);
           }
+
+          this.drawColumn(texture, light, texX, stripe, drawStartY, drawEndY, 0, texture.height, 0, clipBottom);
         }
       }
     }
   }
+
+  // Draws (and drops) every pending window slice further away than minDist, furthest first.
+  // Expects windowSlices sorted by descending distance.
+  private flushWindows(minDist: number) {
+    let i = 0;
+    while (i < this.windowSlices.length && this.windowSlices[i].dist > minDist) {
+      const slice = this.windowSlices[i++];
+      this.drawColumn(slice.texture, slice.light, slice.texX, slice.x, slice.yTop, slice.yBottom, 0, slice.texture.height, slice.clipTop, slice.clipBottom, slice.fog);
+    }
+    if (i > 0) this.windowSlices.splice(0, i);
+  }
 }
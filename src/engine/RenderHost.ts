@@ -0,0 +1,179 @@
+import { RenderMode, type Light, type RenderModeValue, type RenderSprite, type RenderState, type Texture } from '../types';
+import { Raycaster } from './Raycaster';
+import { getLightIntensity } from './lighting';
+import { CanvasRenderTarget } from './canvas';
+import { getEffectStrength } from './postprocess';
+import { loadTexturePack } from './texturePack';
+import { addPaletteTextures } from './palette';
+
+// Map layers. They rarely change, so the worker gets them separately from frames.
+type RenderWorldLayer = 'map' | 'heights' | 'lightMap' | 'floors' | 'ceilings';
+export type RenderWorld = Pick<RenderState, RenderWorldLayer>;
+
+// Per-frame part of RenderState
+export type RenderFrame = Omit<RenderState, RenderWorldLayer>;
+
+export type RenderWorkerRequest =
+  | { type: 'init', canvas: OffscreenCanvas, width: number, height: number }
+  | ({ type: 'world' } & RenderWorld)
+  | { type: 'settings', mode: RenderModeValue, scale: number }
+  | { type: 'texturePack', url: string }
+  | { type: 'frame', frame: RenderFrame, zoom: number };
+
+export type RenderWorkerResponse = { type: 'rendered', frameTime: number, visibleCells: Uint8Array };
+
+const toSprite = (s: RenderSprite): RenderSprite => ({ pos: s.pos, textureId: s.textureId, dir: s.dir, z: s.z, currentFrame: s.currentFrame, palette: s.palette });
+
+// Only what the Raycaster reads, with light and screen effect fades resolved against the main thread's clock
+export const createRenderFrame = (state: RenderState, now: number): RenderFrame => ({
+  player: state.player,
+  lights: state.lights.map((l): Light => ({ pos: l.pos, radius: l.radius, intensity: getLightIntensity(l, now) })),
+  doors: state.doors,
+  decals: state.decals,
+  enemies: state.enemies.map(toSprite),
+  items: state.items.map(toSprite),
+  particles: state.particles.map(toSprite),
+  effects: state.effects.map(e => ({ id: e.id, strength: getEffectStrength(e, now) }))
+});
+
+const hosts = new WeakMap<HTMLCanvasElement, RenderHost>();
+
+// Owns the 3D view of a canvas. Renders in a worker through OffscreenCanvas when the browser allows it,
+// otherwise falls back to a Raycaster on the main thread.
+export class RenderHost {
+  public frameTime = 0; // Smoothed ms spent in Raycaster.render
+  public visibleCells: Uint8Array | null = null; // Raycaster.visibleCells of the last finished frame
+  public onError: ((message: string) => void) | null = null; // The worker died; its canvas cannot be drawn on again
+  private worker: Worker | null = null;
+  private raycaster: Raycaster | null = null;
+  private target: CanvasRenderTarget | null = null;
+  private textures: Record<number, Texture[]>;
+  private world: RenderWorld | null = null;
+  private texturePack: string | null = null;
+  private mode: RenderModeValue = RenderMode.CANVAS;
+  private scale = 1.0;
+  private busy = false; // A frame is still in flight in the worker
+  private releaseTimer: number | null = null;
+
+  // A canvas can only hand its control to a worker once, so a remount (StrictMode runs effects twice)
+  // gets the host that already owns it
+  public static attach(canvas: HTMLCanvasElement, width: number, height: number, textures: Record<number, Texture[]>): RenderHost {
+    const existing = hosts.get(canvas);
+    if (existing) {
+      if (existing.releaseTimer !== null) clearTimeout(existing.releaseTimer);
+      existing.releaseTimer = null;
+      return existing;
+    }
+    const host = new RenderHost(canvas, width, height, textures);
+    hosts.set(canvas, host);
+    return host;
+  }
+
+  private constructor(canvas: HTMLCanvasElement, width: number, height: number, textures: Record<number, Texture[]>) {
+    this.textures = textures;
+
+    if (typeof Worker !== 'undefined' && typeof canvas.transferControlToOffscreen === 'function') {
+      try {
+        const worker = new Worker(new URL('./render.worker.ts', import.meta.url), { type: 'module' });
+        const offscreen = canvas.transferControlToOffscreen();
+        worker.onmessage = (e: MessageEvent<RenderWorkerResponse>) => {
+          this.busy = false;
+          this.frameTime = e.data.frameTime;
+          this.visibleCells = e.data.visibleCells;
+        };
+        worker.onerror = (e) => {
+          console.error('Render worker failed', e.message);
+          this.dispose();
+          this.busy = false;
+          this.onError?.(e.message || 'Render worker failed');
+        };
+        this.post({ type: 'init', canvas: offscreen, width, height }, worker, [offscreen]);
+        this.worker = worker;
+        return;
+      } catch (e) {
+        console.warn('OffscreenCanvas rendering unavailable, rendering on the main thread', e);
+      }
+    }
+
+    this.raycaster = new Raycaster(width, height);
+    const ctx = canvas.getContext('2d', { alpha: false });
+    if (ctx) this.target = new CanvasRenderTarget(ctx, width, height);
+  }
+
+  public get usesWorker() {
+    return this.worker !== null;
+  }
+
+  public getResolutionScale() {
+    return this.scale;
+  }
+
+  public setResolutionScale(scale: number) {
+    this.scale = scale;
+    this.applySettings();
+  }
+
+  public setMode(mode: RenderModeValue) {
+    this.mode = mode;
+    this.applySettings();
+  }
+
+  // Swaps in a texture pack once it has loaded, procedural textures show until then
+  public loadTexturePack(url: string) {
+    const absoluteUrl = new URL(url, window.location.href).href; // Workers resolve relative URLs against their script
+    if (this.texturePack === absoluteUrl) return;
+    this.texturePack = absoluteUrl;
+    if (this.worker) {
+      this.post({ type: 'texturePack', url: absoluteUrl });
+      return;
+    }
+    loadTexturePack(absoluteUrl).then(textures => {
+      if (this.texturePack === absoluteUrl) this.textures = textures;
+    });
+  }
+
+  public render(state: RenderState, zoom: number) {
+    if (this.raycaster && this.target) {
+      state.enemies.forEach(e => { if (e.palette) addPaletteTextures(this.textures, e.palette); });
+      this.raycaster.render(this.target, state, this.textures, zoom);
+      this.frameTime = this.raycaster.frameTime;
+      this.visibleCells = this.raycaster.visibleCells;
+      return;
+    }
+    if (!this.worker || this.busy) return; // Drop frames rather than queue them behind a slow worker
+
+    const world = this.world;
+    if (!world || world.map !== state.map || world.heights !== state.heights || world.lightMap !== state.lightMap ||
+        world.floors !== state.floors || world.ceilings !== state.ceilings) {
+      this.world = { map: state.map, heights: state.heights, lightMap: state.lightMap, floors: state.floors, ceilings: state.ceilings };
+      this.post({ type: 'world', ...this.world });
+    }
+    this.busy = true;
+    this.post({ type: 'frame', frame: createRenderFrame(state, performance.now()), zoom });
+  }
+
+  // Called on unmount. Deferred so an immediate re-attach of the same canvas can keep the worker.
+  public release() {
+    if (this.releaseTimer !== null) return;
+    this.releaseTimer = window.setTimeout(() => this.dispose(), 0);
+  }
+
+  private dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.raycaster = null;
+  }
+
+  private applySettings() {
+    if (this.raycaster) {
+      this.raycaster.mode = this.mode;
+      this.raycaster.setResolutionScale(this.scale);
+    } else {
+      this.post({ type: 'settings', mode: this.mode, scale: this.scale });
+    }
+  }
+
+  private post(message: RenderWorkerRequest, worker: Worker | null = this.worker, transfer: Transferable[] = []) {
+    worker?.postMessage(message, transfer);
+  }
+}
@@ -445,6 +445,45 @@ export class SoundManager {
     osc2.stop(t + 0.3);
   }
 
+  public playDoor(pos: { x: number, y: number } | null = null) {
+    const ctx = this.getContext();
+    if (!ctx || !this.masterGain) return;
+    const t = ctx.currentTime;
+
+    // Low hydraulic hiss with a rumbling slide
+    const osc = ctx.createOscillator();
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(60, t);
+    osc.frequency.linearRampToValueAtTime(90, t + 0.5);
+
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(400, t);
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.001, t);
+    gain.gain.linearRampToValueAtTime(0.3, t + 0.05);
+    gain.gain.linearRampToValueAtTime(0, t + 0.5);
+
+    osc.connect(filter);
+    filter.connect(gain);
+
+    if (pos) {
+      const panner = this.createPanner(pos.x, pos.y);
+      if (panner) {
+        gain.connect(panner);
+        panner.connect(this.masterGain);
+      } else {
+        gain.connect(this.masterGain);
+      }
+    } else {
+      gain.connect(this.masterGain);
+    }
+
+    osc.start(t);
+    osc.stop(t + 0.5);
+  }
+
   public playStep() {
     const ctx = this.getContext();
     if (!ctx || !this.masterGain) return;
@@ -464,5 +503,58 @@ export class SoundManager {
     osc.stop(t + 0.05);
   }
 
+  public playSwitch(pos: { x: number, y: number } | null = null) {
+    const ctx = this.getContext();
+    if (!ctx || !this.masterGain) return;
+    const t = ctx.currentTime;
 
-}
\ No newline at end of file
+    // Two quick clicks: the lever going over and landing
+    const osc = ctx.createOscillator();
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(700, t);
+    osc.frequency.setValueAtTime(450, t + 0.06);
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.2, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.04);
+    gain.gain.setValueAtTime(0.25, t + 0.06);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.1);
+
+    osc.connect(gain);
+    const panner = pos ? this.createPanner(pos.x, pos.y) : null;
+    if (panner) {
+      gain.connect(panner);
+      panner.connect(this.masterGain);
+    } else {
+      gain.connect(this.masterGain);
+    }
+    osc.start(t);
+    osc.stop(t + 0.1);
+  }
+
+  public playAlarm() {
+    const ctx = this.getContext();
+    if (!ctx || !this.masterGain) return;
+    const t = ctx.currentTime;
+
+    // Siren sweeping up and down twice
+    const osc = ctx.createOscillator();
+    osc.type = 'sawtooth';
+    osc.frequency.setValueAtTime(500, t);
+    osc.frequency.linearRampToValueAtTime(900, t + 0.4);
+    osc.frequency.linearRampToValueAtTime(500, t + 0.8);
+    osc.frequency.linearRampToValueAtTime(900, t + 1.2);
+    osc.frequency.linearRampToValueAtTime(500, t + 1.6);
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.001, t);
+    gain.gain.linearRampToValueAtTime(0.15, t + 0.05);
+    gain.gain.setValueAtTime(0.15, t + 1.5);
+    gain.gain.linearRampToValueAtTime(0, t + 1.6);
+
+    osc.connect(gain);
+    gain.connect(this.masterGain);
+    osc.start(t);
+    osc.stop(t + 1.6);
+  }
+}
@@ -0,0 +1,67 @@
+import { CellType, EnemyAnimation, EnemyState, type Enemy, type EnemyAnimationName, type EnemyStateValue } from '../types';
+
+export const CORPSE_TIME = 15000; // ms a corpse stays on the floor after its death sequence
+
+export interface AnimationSequence {
+  textureId: number;
+  frames: number[]; // Frame indices into textures[textureId]
+  frameTime: number; // ms per frame
+  loop: boolean;
+}
+
+export const GUARD_ANIMATIONS: Record<EnemyAnimationName, AnimationSequence> = {
+  IDLE: { textureId: CellType.ENEMY_GUARD, frames: [0], frameTime: 1000, loop: true },
+  WALK: { textureId: CellType.ENEMY_GUARD_WALK, frames: [0, 1, 2, 3], frameTime: 150, loop: true },
+  ATTACK: { textureId: CellType.ENEMY_GUARD, frames: [1, 2, 1], frameTime: 90, loop: false },
+  PAIN: { textureId: CellType.ENEMY_GUARD_PAIN, frames: [0], frameTime: 250, loop: false },
+  DYING: { textureId: CellType.ENEMY_GUARD_DYING, frames: [0, 1, 2, 3], frameTime: 140, loop: false },
+  DEAD: { textureId: CellType.ENEMY_GUARD_DEAD, frames: [0], frameTime: 1000, loop: true }
+};
+
+const sequenceLength = (sequence: AnimationSequence) => sequence.frames.length * sequence.frameTime;
+
+// The looping sequence an AI state settles into. Attack and pain are one-shots played over it.
+const getStateAnimation = (state: EnemyStateValue, isMoving: boolean): EnemyAnimationName => {
+  if (state === EnemyState.DYING) return EnemyAnimation.DYING;
+  if (state === EnemyState.DEAD) return EnemyAnimation.DEAD;
+  return isMoving ? EnemyAnimation.WALK : EnemyAnimation.IDLE;
+};
+
+// Starts a one-shot (attack flash, pain flinch). Ignored once the death sequence has begun.
+export const playAnimation = (enemy: Enemy, name: EnemyAnimationName) => {
+  if (enemy.state === EnemyState.DYING || enemy.state === EnemyState.DEAD) return;
+  enemy.animation = name;
+  enemy.animationTimer = 0;
+};
+
+// Advances the enemy's animation and sets the texture and frame the renderer draws.
+// Returns true on the tick a non-looping state sequence (the death sequence) finishes.
+export const updateAnimation = (
+  enemy: Enemy,
+  dt: number,
+  isMoving: boolean,
+  animations: Record<EnemyAnimationName, AnimationSequence> = GUARD_ANIMATIONS
+): boolean => {
+  const base = getStateAnimation(enemy.state, isMoving);
+  const current = enemy.animation ? animations[enemy.animation] : undefined;
+  const wasFinished = !!current && !current.loop && enemy.animationTimer >= sequenceLength(current);
+
+  if (enemy.animation !== base) {
+    // Let a running one-shot finish unless the state sequence is the death sequence
+    const isDeath = base === EnemyAnimation.DYING || base === EnemyAnimation.DEAD;
+    if (isDeath || !current || current.loop || wasFinished) {
+      enemy.animation = base;
+      enemy.animationTimer = 0;
+    }
+  }
+
+  const sequence = animations[enemy.animation ?? base];
+  enemy.animationTimer += dt * 1000;
+
+  const step = Math.floor(enemy.animationTimer / sequence.frameTime);
+  const index = sequence.loop ? step % sequence.frames.length : Math.min(sequence.frames.length - 1, step);
+  enemy.textureId = sequence.textureId;
+  enemy.currentFrame = sequence.frames[index];
+
+  return enemy.animation === base && !sequence.loop && !wasFinished && enemy.animationTimer >= sequenceLength(sequence);
+};
@@ -0,0 +1,249 @@
+import { Difficulty, EnemyState, type DifficultyLevel, type Enemy, type EnemyBrain, type EnemyStateValue, type GameState, type Vector2 } from '../types';
+import { alertEnemy, findCover, isWalkable, steerTowards, trackTarget } from './navigation';
+
+// How quickly enemies react to spotting you, and how hard they press the fight: aggressive enemies
+// close in further, duck into cover less, hold it for less time and retreat later
+export interface AiProfile {
+  reactionTime: number; // ms from spotting the target to acting on it
+  aggression: number; // 0..1
+  engageRange?: number; // Distance to fight from; scales with aggression when unset
+}
+
+export const AI_PROFILES: Record<DifficultyLevel, AiProfile> = {
+  [Difficulty.EASY]: { reactionTime: 900, aggression: 0.3 },
+  [Difficulty.MEDIUM]: { reactionTime: 550, aggression: 0.55 },
+  [Difficulty.HARD]: { reactionTime: 250, aggression: 0.85 }
+};
+
+export const AGGRO_RANGE = 12; // Idle and patrolling enemies notice targets this close
+const PATROL_RANGE = 6; // Enemies spawning this close to a route walk it
+const ROUTE_POINT_REACHED = 0.5;
+const SEARCH_TIME = 3000; // ms spent looking around the last known position
+const GIVE_UP_TIME = 15000; // ms a search may take before the enemy gives up
+const COVER_STEPS = 6, RETREAT_STEPS = 12; // How far to look for somewhere to hide
+const LOOK_AROUND_SPEED = 1.5; // rad/s while searching
+const LOST_SIGHT_TIME = 700; // ms out of sight before a fight turns into a search, so corners and windows don't flicker it
+const COVER_HOLD_TIME = 1500, RETREAT_HOLD_TIME = 5000; // ms spent hiding once there, plus up to 2s for timid enemies
+
+// How fast each state moves, as a fraction of the enemy's speed
+const STATE_SPEED: Partial<Record<EnemyStateValue, number>> = {
+  [EnemyState.PATROL]: 0.45,
+  [EnemyState.CHASE]: 1.0,
+  [EnemyState.ATTACK]: 0.5,
+  [EnemyState.SEARCH]: 0.7,
+  [EnemyState.COVER]: 1.1,
+  [EnemyState.RETREAT]: 1.0
+};
+
+const STATE_NAMES = Object.fromEntries(Object.entries(EnemyState).map(([name, value]) => [value, name])) as Record<EnemyStateValue, string>;
+
+// For debug views: 'PATROL', 'COVER'...
+export const getStateName = (state: EnemyStateValue) => STATE_NAMES[state] ?? String(state);
+
+type BehaviorWorld = Pick<GameState, 'map' | 'doors' | 'heights' | 'enemies'>;
+
+// What an enemy knows about its target this tick
+export interface Perception {
+  target: Vector2 | null; // Null when there is nobody left to fight
+  canSee: boolean;
+  dist: number;
+}
+
+// What the behaviour wants done this tick. The caller moves the enemy and decides what a shot does.
+export interface EnemyIntent {
+  move: Vector2 | null; // Unit direction to walk in
+  speed: number; // Fraction of the enemy's speed
+  fire: boolean; // Has a shot lined up
+}
+
+const getBrain = (enemy: Enemy, now: number): EnemyBrain => {
+  enemy.brain ??= {
+    stateSince: now, noticedAt: null, lastSeenAt: -Infinity, maxHealth: enemy.health, lastHealth: enemy.health,
+    route: null, routeIndex: 0, cover: null, holdUntil: 0, strafeSign: 1, strafeUntil: 0
+  };
+  return enemy.brain;
+};
+
+const setState = (enemy: Enemy, brain: EnemyBrain, state: EnemyStateValue, now: number) => {
+  if (enemy.state === state) return;
+  enemy.state = state;
+  brain.stateSince = now;
+};
+
+// Out of a fight, enemies go back to their route if they have one
+const standDown = (enemy: Enemy, brain: EnemyBrain, now: number) =>
+  setState(enemy, brain, brain.route ? EnemyState.PATROL : EnemyState.IDLE, now);
+
+// Ranges scale with aggression: timid enemies keep their distance
+const engageRange = (profile: AiProfile) => profile.engageRange ?? 8 - profile.aggression * 4;
+const retreatHealth = (brain: EnemyBrain, profile: AiProfile) => brain.maxHealth * (0.45 - profile.aggression * 0.3);
+
+// Puts a newly spawned enemy on the nearest patrol route, starting from the route point closest to it
+export const assignPatrol = (enemy: Enemy, routes: Vector2[][] | undefined, now: number) => {
+  let bestRoute: Vector2[] | null = null, bestIndex = 0, bestDist = PATROL_RANGE;
+  for (const route of routes ?? []) {
+    for (let i = 0; i < route.length; i++) {
+      const dist = Math.hypot(route[i].x - enemy.pos.x, route[i].y - enemy.pos.y);
+      if (dist < bestDist) { bestRoute = route; bestIndex = i; bestDist = dist; }
+    }
+  }
+  if (!bestRoute) return;
+  const brain = getBrain(enemy, now);
+  brain.route = bestRoute;
+  brain.routeIndex = bestIndex;
+  setState(enemy, brain, EnemyState.PATROL, now);
+};
+
+// Being shot gives the attacker away: an enemy that wasn't fighting goes looking for them
+export const reactToHit = (enemy: Enemy, attacker: Vector2, now: number) => {
+  alertEnemy(enemy, attacker);
+  if (enemy.state === EnemyState.IDLE || enemy.state === EnemyState.PATROL) setState(enemy, getBrain(enemy, now), EnemyState.SEARCH, now);
+};
+
+const face = (enemy: Enemy, dir: Vector2 | null) => {
+  const length = dir ? Math.hypot(dir.x, dir.y) : 0;
+  if (dir && length > 0) enemy.dir = { x: dir.x / length, y: dir.y / length };
+};
+
+// Strafes across the target's line of fire, drifting in or out to stay near the engage range.
+// Flips direction every so often, and early when a wall is in the way.
+const strafe = (enemy: Enemy, brain: EnemyBrain, target: Vector2, dist: number, range: number, world: BehaviorWorld, now: number): Vector2 => {
+  const toX = (target.x - enemy.pos.x) / dist, toY = (target.y - enemy.pos.y) / dist;
+  if (now > brain.strafeUntil) {
+    brain.strafeSign = Math.random() < 0.5 ? 1 : -1;
+    brain.strafeUntil = now + 700 + Math.random() * 800;
+  }
+  const radial = dist > range ? 0.4 : dist < range * 0.5 ? -0.4 : 0;
+  let dir = { x: -toY * brain.strafeSign + toX * radial, y: toX * brain.strafeSign + toY * radial };
+  if (!isWalkable(world, Math.floor(enemy.pos.x + dir.x * 0.6), Math.floor(enemy.pos.y + dir.y * 0.6))) {
+    brain.strafeSign = -brain.strafeSign;
+    dir = { x: -toY * brain.strafeSign + toX * radial, y: toX * brain.strafeSign + toY * radial };
+  }
+  const length = Math.hypot(dir.x, dir.y);
+  return { x: dir.x / length, y: dir.y / length };
+};
+
+// Runs one tick of an enemy's behaviour: updates enemy.state (and its brain) and says how it wants to
+// move and whether it has a shot. Dying and dead enemies are the caller's business.
+export const thinkEnemy = (
+  enemy: Enemy, perception: Perception, profile: AiProfile, world: BehaviorWorld, dt: number, now: number
+): EnemyIntent => {
+  const brain = getBrain(enemy, now);
+  const { target, canSee, dist } = perception;
+  const sees = !!target && canSee;
+  const wasHurt = enemy.health < brain.lastHealth;
+  brain.lastHealth = enemy.health;
+  if (sees) {
+    trackTarget(enemy, target, true);
+    brain.lastSeenAt = now;
+  }
+  const lostSight = !sees && now - brain.lastSeenAt > LOST_SIGHT_TIME;
+
+  const goTo = (goal: Vector2) => steerTowards(enemy, goal, world.enemies, world, now);
+  const intent = (move: Vector2 | null, fire = false): EnemyIntent => {
+    face(enemy, sees ? { x: target.x - enemy.pos.x, y: target.y - enemy.pos.y } : move);
+    return { move, speed: STATE_SPEED[enemy.state] ?? 0, fire: fire && sees };
+  };
+  const takeCover = (steps: number, away: boolean) => {
+    brain.cover = target ? findCover(world, enemy.pos, target, steps, away) : null;
+    return brain.cover !== null;
+  };
+
+  // Alert enemies that get hurt weigh up falling back or ducking out of sight before anything else
+  const isAlert = enemy.state === EnemyState.CHASE || enemy.state === EnemyState.ATTACK || enemy.state === EnemyState.SEARCH;
+  if (isAlert && wasHurt && enemy.health < retreatHealth(brain, profile) && takeCover(RETREAT_STEPS, true)) {
+    setState(enemy, brain, EnemyState.RETREAT, now);
+    brain.holdUntil = Infinity;
+  } else if (isAlert && sees && wasHurt && Math.random() < (1 - profile.aggression) * 0.6 && takeCover(COVER_STEPS, false)) {
+    setState(enemy, brain, EnemyState.COVER, now);
+    brain.holdUntil = Infinity;
+  }
+
+  switch (enemy.state) {
+    case EnemyState.IDLE:
+    case EnemyState.PATROL: {
+      if (sees && dist < AGGRO_RANGE) {
+        // Stops dead on spotting the target and acts once its reaction time is up
+        brain.noticedAt ??= now;
+        if (now - brain.noticedAt >= profile.reactionTime) {
+          brain.noticedAt = null;
+          setState(enemy, brain, EnemyState.CHASE, now);
+        }
+        return intent(null);
+      }
+      brain.noticedAt = null;
+      if (enemy.state === EnemyState.IDLE || !brain.route) return intent(null);
+      const point = brain.route[brain.routeIndex];
+      if (Math.hypot(point.x - enemy.pos.x, point.y - enemy.pos.y) < ROUTE_POINT_REACHED) {
+        brain.routeIndex = (brain.routeIndex + 1) % brain.route.length;
+      }
+      return intent(goTo(brain.route[brain.routeIndex]));
+    }
+
+    case EnemyState.CHASE: {
+      if (lostSight) {
+        setState(enemy, brain, EnemyState.SEARCH, now);
+        return thinkEnemy(enemy, perception, profile, world, dt, now);
+      }
+      if (sees && dist <= engageRange(profile)) setState(enemy, brain, EnemyState.ATTACK, now);
+      const goal = sees ? target : enemy.nav?.lastKnownTarget;
+      return intent(goal ? goTo(goal) : null, true);
+    }
+
+    case EnemyState.ATTACK: {
+      if (lostSight) {
+        setState(enemy, brain, EnemyState.SEARCH, now);
+        return thinkEnemy(enemy, perception, profile, world, dt, now);
+      }
+      // Just lost sight: close in on where the target was
+      const lastKnown = enemy.nav?.lastKnownTarget;
+      if (!sees) return intent(lastKnown ? goTo(lastKnown) : null);
+      if (dist > engageRange(profile) * 1.4) setState(enemy, brain, EnemyState.CHASE, now);
+      return intent(strafe(enemy, brain, target, Math.max(dist, 0.01), engageRange(profile), world, now), true);
+    }
+
+    case EnemyState.SEARCH: {
+      if (sees) {
+        setState(enemy, brain, EnemyState.CHASE, now);
+        return intent(goTo(target), true);
+      }
+      const goal = trackTarget(enemy, target ?? enemy.pos, false);
+      if (goal) {
+        brain.holdUntil = 0;
+        if (now - brain.stateSince > GIVE_UP_TIME) standDown(enemy, brain, now);
+        return intent(goTo(goal));
+      }
+      // Nothing at the last known position: look around for a while, then give up
+      if (!brain.holdUntil) brain.holdUntil = now + SEARCH_TIME;
+      if (now > brain.holdUntil) {
+        brain.holdUntil = 0;
+        standDown(enemy, brain, now);
+        return intent(null);
+      }
+      const turn = LOOK_AROUND_SPEED * dt;
+      face(enemy, {
+        x: enemy.dir.x * Math.cos(turn) - enemy.dir.y * Math.sin(turn),
+        y: enemy.dir.x * Math.sin(turn) + enemy.dir.y * Math.cos(turn)
+      });
+      return { move: null, speed: 0, fire: false };
+    }
+
+    case EnemyState.COVER:
+    case EnemyState.RETREAT: {
+      const cover = brain.cover;
+      // A spot it cannot get to within GIVE_UP_TIME is as good as reached
+      const onTheWay = cover && Math.hypot(cover.x - enemy.pos.x, cover.y - enemy.pos.y) > ROUTE_POINT_REACHED && now - brain.stateSince < GIVE_UP_TIME;
+      if (onTheWay) return intent(goTo(cover), sees);
+      // In cover: a short breather before peeking out again. Retreating enemies hold out longer and only
+      // fight back when found, then rejoin the fight or go looking for the target.
+      const isRetreat = enemy.state === EnemyState.RETREAT;
+      if (brain.holdUntil === Infinity) brain.holdUntil = now + (isRetreat ? RETREAT_HOLD_TIME : COVER_HOLD_TIME) + (1 - profile.aggression) * 2000;
+      if ((sees && !isRetreat) || now > brain.holdUntil) {
+        brain.holdUntil = 0; // SEARCH keeps its own timer in there
+        setState(enemy, brain, sees ? EnemyState.ATTACK : EnemyState.SEARCH, now);
+      }
+      return intent(null, sees);
+    }
+  }
+  return intent(null);
+};
@@ -0,0 +1,56 @@
+import type { RenderTarget } from './renderTarget';
+
+export type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type AnyContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Workers have no document, so fall back to OffscreenCanvas there
+export const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof document === 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const getContext2D = (canvas: AnyCanvas, options?: CanvasRenderingContext2DSettings): AnyContext2D =>
+  (canvas as HTMLCanvasElement).getContext('2d', options)!;
+
+// Builds the canvases textures are drawn on; tests can pass one backed by a Node canvas library
+export type CanvasFactory = (width: number, height: number) => AnyCanvas;
+
+// Presents frames onto a 2D context: the game canvas, or the transferred OffscreenCanvas in the render worker
+export class CanvasRenderTarget implements RenderTarget {
+  public readonly width: number;
+  public readonly height: number;
+  private ctx: AnyContext2D;
+  private staging: AnyCanvas | null = null; // Internal-resolution canvas buffer frames are uploaded to
+  private stagingCtx: AnyContext2D | null = null;
+  private imageData: ImageData | null = null;
+
+  constructor(ctx: AnyContext2D, width: number, height: number) {
+    this.ctx = ctx;
+    this.width = width;
+    this.height = height;
+  }
+
+  public presentPixels(rgba: Uint8ClampedArray<ArrayBuffer>, width: number, height: number) {
+    // Wraps the renderer's pixels without copying, rebuilt only when the resolution changes
+    if (!this.imageData || this.imageData.data !== rgba) this.imageData = new ImageData(rgba, width, height);
+    if (width === this.width && height === this.height) {
+      this.ctx.putImageData(this.imageData, 0, 0);
+      return;
+    }
+    if (!this.staging || !this.stagingCtx || this.staging.width !== width || this.staging.height !== height) {
+      this.staging = createCanvas(width, height);
+      this.stagingCtx = getContext2D(this.staging, { alpha: false });
+    }
+    this.stagingCtx.putImageData(this.imageData, 0, 0);
+    this.presentImage(this.staging, width, height);
+  }
+
+  public presentImage(image: CanvasImageSource, width: number, height: number) {
+    // Blocky upscaling keeps the low-res look crisp
+    this.ctx.imageSmoothingEnabled = false;
+    this.ctx.drawImage(image, 0, 0, width, height, 0, 0, this.width, this.height);
+  }
+}
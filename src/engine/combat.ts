@@ -0,0 +1,92 @@
+import { CellType, EnemyAnimation, EnemyState, type Enemy, type GameState, type Player, type Vector2 } from '../types';
+import { FOV, type WeaponDef } from '../constants';
+import { playAnimation } from './animation';
+import { reactToHit } from './behavior';
+import { addWallHitDecal } from './decals';
+import { getArmoredDamage, getEnemyDef, rollDrop } from './enemies';
+import { EYE_HEIGHT, getFloorHeight } from './heights';
+import { hasLineOfSight, traceWall } from './hitscan';
+import { addDynamicLight } from './lighting';
+import type { Simulation } from './simulation';
+import type { SoundManager } from './SoundManager';
+
+export const HEADSHOT_FRACTION = 0.25; // Top part of a sprite that counts as the head
+
+type ShotWorld = Pick<GameState, 'map' | 'doors' | 'heights' | 'decals' | 'lights'>;
+
+export interface ShotHit {
+  target: Enemy;
+  dist: number;
+  isHead: boolean;
+}
+
+// Fires a hitscan shot through the crosshair at the nearest target in front of the first wall, marking the wall behind.
+// viewHeight and fovScale are the shooter's viewport, so the hit test matches the sprite as the Raycaster draws it.
+export const fireShot = (
+  world: ShotWorld,
+  player: Player,
+  targets: Enemy[],
+  viewHeight: number,
+  fovScale: number,
+  now: number
+): ShotHit | null => {
+  const { map, doors, heights, decals } = world;
+  const eyeZ = EYE_HEIGHT + player.z;
+  addDynamicLight(world.lights, player.pos, 0.9, 5.0, 80, now);
+  const wallHit = traceWall(map, doors, heights, player.pos, player.dir, eyeZ);
+  const markWall = (textureId: number, variants: number, size: number) =>
+    addWallHitDecal(decals, heights, wallHit, textureId, variants, size, eyeZ, now);
+
+  const zoom = FOV / fovScale;
+  let hit: ShotHit | null = null;
+  for (const target of targets) {
+    if (target.health <= 0) continue;
+    const dx = target.pos.x - player.pos.x, dy = target.pos.y - player.pos.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dx * player.dir.x + dy * player.dir.y <= 0 || dist >= Math.min(wallHit.dist, hit?.dist ?? Infinity)) continue;
+    if (Math.abs(dx * player.dir.y - dy * player.dir.x) >= 0.5) continue;
+    // Where the crosshair crosses the sprite, 0 at its top, drawn at the same resting height as the Raycaster
+    const targetZ = target.z ?? getFloorHeight(map, heights, target.pos);
+    const spriteHeight = (viewHeight * zoom) / dist;
+    const vOffset = player.pitch + ((player.z - targetZ) * viewHeight * zoom) / dist;
+    const relativeY = 0.5 - vOffset / spriteHeight;
+    if (relativeY < 0 || relativeY > 1 || !hasLineOfSight(player.pos, target.pos, map, doors, heights)) continue;
+    hit = { target, dist, isHead: relativeY < HEADSHOT_FRACTION };
+  }
+
+  // Blood sprays onto a wall close behind the target; a miss leaves a bullet hole, or a scorch mark at point-blank range
+  if (!hit) {
+    if (wallHit.dist < 1.0) markWall(CellType.DECAL_SCORCH, 2, 0.3);
+    else markWall(CellType.DECAL_BULLET, 3, 0.08);
+  } else if (wallHit.dist - hit.dist < 1.5) markWall(CellType.DECAL_BLOOD, 3, 0.35);
+  return hit;
+};
+
+export const getShotDamage = (weapon: WeaponDef, hit: ShotHit) =>
+  hit.isHead ? weapon.damage * weapon.headshotMultiplier : weapon.damage;
+
+// Wounds an enemy, which turns on the shooter at from, or kills it and rolls its drop. Returns the points earned.
+export const damageEnemy = (
+  sim: Simulation,
+  world: Pick<GameState, 'items' | 'lights'>,
+  enemy: Enemy,
+  damage: number,
+  from: Vector2,
+  sound: SoundManager,
+  now: number
+): number => {
+  enemy.health -= getArmoredDamage(enemy, damage);
+  if (enemy.health > 0) {
+    sound.playEnemyHit(enemy.pos);
+    reactToHit(enemy, from, now);
+    playAnimation(enemy, EnemyAnimation.PAIN);
+    return 0;
+  }
+  enemy.state = EnemyState.DYING;
+  sound.playEnemyDeath(enemy.pos);
+  addDynamicLight(world.lights, enemy.pos, 1.0, 3.0, 250, now);
+  const def = getEnemyDef(enemy);
+  const drop = rollDrop(def);
+  if (drop !== null) world.items.push({ id: ++sim.itemIdCounter, pos: { x: enemy.pos.x, y: enemy.pos.y }, textureId: drop, spawnTime: now });
+  return def.score;
+};
@@ -0,0 +1,104 @@
+import { ControlScheme, type ControlSchemeValue } from '../types';
+
+// One player's intent for a frame. Axes run -1..1, buttons are held states.
+export interface PlayerInput {
+  move: number; // Forward
+  strafe: number; // Right
+  turn: number; // Right
+  look: number; // Up
+  fire: boolean;
+  aim: boolean;
+  jump: boolean;
+  reload: boolean;
+  use: boolean;
+  nextWeapon: boolean;
+}
+
+interface KeyBindings {
+  forward: string;
+  back: string;
+  turnLeft: string;
+  turnRight: string;
+  strafeLeft: string;
+  strafeRight: string;
+  fire: string;
+  jump: string;
+  reload: string;
+  use: string;
+  nextWeapon: string;
+}
+
+// Two players share a keyboard, one hand cluster each; there is no mouse look, so turning is on keys
+export const KEYBOARD_BINDINGS: Record<typeof ControlScheme.KEYBOARD_LEFT | typeof ControlScheme.KEYBOARD_RIGHT, KeyBindings> = {
+  [ControlScheme.KEYBOARD_LEFT]: {
+    forward: 'KeyW', back: 'KeyS', turnLeft: 'KeyA', turnRight: 'KeyD', strafeLeft: 'KeyQ', strafeRight: 'KeyE',
+    fire: 'KeyF', jump: 'KeyC', reload: 'KeyR', use: 'KeyG', nextWeapon: 'KeyT'
+  },
+  [ControlScheme.KEYBOARD_RIGHT]: {
+    forward: 'ArrowUp', back: 'ArrowDown', turnLeft: 'ArrowLeft', turnRight: 'ArrowRight', strafeLeft: 'Comma', strafeRight: 'Period',
+    fire: 'Enter', jump: 'ShiftRight', reload: 'Backslash', use: 'Slash', nextWeapon: 'Quote'
+  }
+};
+
+export const CONTROL_SCHEME_LABELS: Record<ControlSchemeValue, string> = {
+  [ControlScheme.KEYBOARD_LEFT]: 'Keyboard Left (WASD, F fire)',
+  [ControlScheme.KEYBOARD_RIGHT]: 'Keyboard Right (Arrows, Enter fire)',
+  [ControlScheme.GAMEPAD_1]: 'Gamepad 1',
+  [ControlScheme.GAMEPAD_2]: 'Gamepad 2',
+  [ControlScheme.GAMEPAD_3]: 'Gamepad 3',
+  [ControlScheme.GAMEPAD_4]: 'Gamepad 4'
+};
+
+const GAMEPAD_INDEX: Partial<Record<ControlSchemeValue, number>> = {
+  [ControlScheme.GAMEPAD_1]: 0,
+  [ControlScheme.GAMEPAD_2]: 1,
+  [ControlScheme.GAMEPAD_3]: 2,
+  [ControlScheme.GAMEPAD_4]: 3
+};
+
+const STICK_DEADZONE = 0.2;
+
+const stick = (value: number | undefined) => {
+  if (value === undefined || Math.abs(value) < STICK_DEADZONE) return 0;
+  return Math.sign(value) * (Math.abs(value) - STICK_DEADZONE) / (1 - STICK_DEADZONE);
+};
+
+const pressed = (pad: Gamepad, index: number) => !!pad.buttons[index]?.pressed;
+
+const IDLE_INPUT: PlayerInput = { move: 0, strafe: 0, turn: 0, look: 0, fire: false, aim: false, jump: false, reload: false, use: false, nextWeapon: false };
+
+// Gamepads use the browser's standard mapping: left stick moves, right stick looks, RT fires
+export const readInput = (scheme: ControlSchemeValue, keys: Record<string, boolean>, gamepads: (Gamepad | null)[]): PlayerInput => {
+  const padIndex = GAMEPAD_INDEX[scheme];
+  if (padIndex !== undefined) {
+    const pad = gamepads[padIndex];
+    if (!pad) return IDLE_INPUT;
+    return {
+      move: -stick(pad.axes[1]),
+      strafe: stick(pad.axes[0]),
+      turn: stick(pad.axes[2]),
+      look: -stick(pad.axes[3]),
+      fire: pressed(pad, 7),
+      aim: pressed(pad, 6),
+      jump: pressed(pad, 0),
+      reload: pressed(pad, 2),
+      use: pressed(pad, 1),
+      nextWeapon: pressed(pad, 3)
+    };
+  }
+
+  const b = KEYBOARD_BINDINGS[scheme as keyof typeof KEYBOARD_BINDINGS];
+  const axis = (neg: string, pos: string) => (keys[pos] ? 1 : 0) - (keys[neg] ? 1 : 0);
+  return {
+    move: axis(b.back, b.forward),
+    strafe: axis(b.strafeLeft, b.strafeRight),
+    turn: axis(b.turnLeft, b.turnRight),
+    look: 0,
+    fire: !!keys[b.fire],
+    aim: false,
+    jump: !!keys[b.jump],
+    reload: !!keys[b.reload],
+    use: !!keys[b.use],
+    nextWeapon: !!keys[b.nextWeapon]
+  };
+};
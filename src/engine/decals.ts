@@ -0,0 +1,69 @@
+import { CellType, DecalFace, type Decal, type DecalFaceValue, type Vector2 } from '../types';
+import type { WallHit } from './hitscan';
+
+export const MAX_DECALS = 96; // Oldest marks are scraped off once the level holds this many
+
+export const decalKey = (mapX: number, mapY: number, face: DecalFaceValue) => `${mapX},${mapY},${face}`;
+
+// The face a ray enters a cell through. side is 0 for X sides and 1 for Y sides, step the ray's direction along that axis.
+export const wallFace = (side: number, step: number): DecalFaceValue =>
+  side === 0 ? (step > 0 ? DecalFace.X_MIN : DecalFace.X_MAX) : (step > 0 ? DecalFace.Y_MIN : DecalFace.Y_MAX);
+
+export const getFaceDecals = (decals: Record<string, Decal[]>, mapX: number, mapY: number, face: DecalFaceValue): Decal[] | undefined =>
+  decals[decalKey(mapX, mapY, face)];
+
+const countDecals = (decals: Record<string, Decal[]>) =>
+  Object.values(decals).reduce((n, list) => n + list.length, 0);
+
+// Stamps a decal, kept whole on its face, and evicts the oldest one when over the cap
+export const addDecal = (decals: Record<string, Decal[]>, decal: Decal, max: number = MAX_DECALS) => {
+  const half = Math.min(0.5, decal.size / 2);
+  decal.u = Math.max(half, Math.min(1 - half, decal.u));
+  if (decal.face === DecalFace.FLOOR) decal.v = Math.max(half, Math.min(1 - half, decal.v));
+
+  const key = decalKey(decal.mapX, decal.mapY, decal.face);
+  (decals[key] ??= []).push(decal);
+
+  if (countDecals(decals) <= max) return;
+  let oldestKey = key;
+  let oldestIndex = decals[key].length - 1;
+  for (const [k, list] of Object.entries(decals)) {
+    for (let i = 0; i < list.length; i++) {
+      if (list[i].spawnTime < decals[oldestKey][oldestIndex].spawnTime) {
+        oldestKey = k;
+        oldestIndex = i;
+      }
+    }
+  }
+  decals[oldestKey].splice(oldestIndex, 1);
+  if (decals[oldestKey].length === 0) delete decals[oldestKey];
+};
+
+// Marks where a bullet struck a wall, a random variant centred at height z (doors slide, so they keep no marks)
+export const addWallHitDecal = (
+  decals: Record<string, Decal[]>,
+  heights: number[][],
+  hit: WallHit,
+  textureId: number,
+  variants: number,
+  size: number,
+  z: number,
+  now: number
+) => {
+  if (hit.isDoor) return;
+  const top = heights[hit.mapX]?.[hit.mapY] ?? 1;
+  addDecal(decals, {
+    mapX: hit.mapX, mapY: hit.mapY, face: hit.face,
+    textureId, variant: Math.floor(Math.random() * variants),
+    u: hit.wallX, v: Math.max(size / 2, Math.min(top - size / 2, z + (Math.random() - 0.5) * 0.05)), size, spawnTime: now
+  });
+};
+
+// Blood pool on the floor where a body comes to rest
+export const spillBlood = (decals: Record<string, Decal[]>, pos: Vector2, now: number) => {
+  addDecal(decals, {
+    mapX: Math.floor(pos.x), mapY: Math.floor(pos.y), face: DecalFace.FLOOR,
+    textureId: CellType.DECAL_BLOOD, variant: Math.floor(Math.random() * 3),
+    u: pos.x - Math.floor(pos.x), v: pos.y - Math.floor(pos.y), size: 0.7, spawnTime: now
+  });
+};
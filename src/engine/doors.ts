@@ -0,0 +1,81 @@
+import { CellType, type Door, type Vector2 } from '../types';
+
+export const DOOR_SPEED = 1.5; // Fraction of the slab per second
+export const DOOR_HOLD_TIME = 4000; // ms a door stays open before auto-closing
+export const DOOR_PASSABLE_AMOUNT = 0.9; // How far a door must slide before it can be walked through
+
+export const doorKey = (mapX: number, mapY: number) => `${mapX},${mapY}`;
+
+export const createDoors = (map: number[][]): Record<string, Door> => {
+  const doors: Record<string, Door> = {};
+  for (let x = 0; x < map.length; x++) {
+    for (let y = 0; y < map[x].length; y++) {
+      if (map[x][y] !== CellType.DOOR) continue;
+      // A door set between walls above/below it blocks travel along X, so its slab faces the X sides
+      const wallsAlongY = (map[x][y - 1] ?? 1) > 0 && (map[x][y + 1] ?? 1) > 0;
+      doors[doorKey(x, y)] = { mapX: x, mapY: y, axis: wallsAlongY ? 0 : 1, openAmount: 0, isOpen: false, openedAt: 0 };
+    }
+  }
+  return doors;
+};
+
+export const getDoor = (doors: Record<string, Door>, mapX: number, mapY: number): Door | undefined => doors[doorKey(mapX, mapY)];
+
+export const isDoorPassable = (door: Door | undefined) => !!door && door.openAmount >= DOOR_PASSABLE_AMOUNT;
+
+// True if the cell stops movement, bullets and line of sight
+export const isSolidCell = (map: number[][], doors: Record<string, Door>, mapX: number, mapY: number): boolean => {
+  const cell = map[mapX]?.[mapY];
+  if (cell === undefined) return true;
+  if (cell === CellType.DOOR) return !isDoorPassable(getDoor(doors, mapX, mapY));
+  return cell > 0;
+};
+
+export const openDoor = (door: Door, now: number) => {
+  door.isOpen = true;
+  door.openedAt = now;
+};
+
+export const isDoorOccupied = (door: Door, occupants: Vector2[]) =>
+  occupants.some(p => Math.floor(p.x) === door.mapX && Math.floor(p.y) === door.mapY);
+
+// Animates every door towards its target state. Auto-close is skipped when the server owns door state.
+export const updateDoors = (doors: Record<string, Door>, dt: number, now: number, occupants: Vector2[], autoClose: boolean = true) => {
+  for (const door of Object.values(doors)) {
+    if (autoClose && door.isOpen && now - door.openedAt > DOOR_HOLD_TIME) {
+      // Never close on top of someone, just try again later
+      if (isDoorOccupied(door, occupants)) door.openedAt = now;
+      else door.isOpen = false;
+    }
+    const target = door.isOpen ? 1 : 0;
+    if (door.openAmount < target) door.openAmount = Math.min(target, door.openAmount + DOOR_SPEED * dt);
+    else if (door.openAmount > target) door.openAmount = Math.max(target, door.openAmount - DOOR_SPEED * dt);
+  }
+};
+
+// Ray vs recessed door slab (set halfway into the cell). Returns the perpendicular distance and the
+// slab coordinate of the hit, or null if the ray passes through the open gap or misses the slab.
+export const intersectDoor = (
+  door: Door,
+  posX: number,
+  posY: number,
+  rayDirX: number,
+  rayDirY: number
+): { dist: number, wallX: number } | null => {
+  let dist: number, along: number;
+  if (door.axis === 0) {
+    if (rayDirX === 0) return null;
+    dist = (door.mapX + 0.5 - posX) / rayDirX;
+    along = posY + dist * rayDirY;
+    if (Math.floor(along) !== door.mapY) return null;
+    along -= door.mapY;
+  } else {
+    if (rayDirY === 0) return null;
+    dist = (door.mapY + 0.5 - posY) / rayDirY;
+    along = posX + dist * rayDirX;
+    if (Math.floor(along) !== door.mapX) return null;
+    along -= door.mapX;
+  }
+  if (dist <= 0 || along < door.openAmount) return null;
+  return { dist, wallX: along - door.openAmount };
+};
@@ -0,0 +1,67 @@
+import { Difficulty, EnemyState, EnemyType, type DifficultyLevel, type Enemy, type EnemyTypeName, type Vector2 } from '../types';
+import { ENEMIES, ENEMY_DIFFICULTY, type EnemyDef } from '../constants';
+import { AI_PROFILES, type AiProfile } from './behavior';
+
+const DIFFICULTY_RANK: Record<DifficultyLevel, number> = {
+  [Difficulty.EASY]: 0,
+  [Difficulty.MEDIUM]: 1,
+  [Difficulty.HARD]: 2
+};
+
+// Enemies without an archetype (player avatars) fight as guards
+export const getEnemyDef = (enemy: Enemy): EnemyDef => ENEMIES[enemy.type ?? EnemyType.GUARD];
+
+export const isEnemyType = (type: unknown): type is EnemyTypeName => typeof type === 'string' && Object.hasOwn(ENEMIES, type);
+
+// Archetype for the next spawn: weighted odds among those the difficulty and the time into the level
+// have unlocked, leaving out any already at their cap. Guards when nothing else qualifies.
+export const pickEnemyType = (difficulty: DifficultyLevel, elapsed: number, enemies: Enemy[], random = Math.random): EnemyTypeName => {
+  const allowed = (Object.keys(ENEMIES) as EnemyTypeName[]).filter(type => {
+    const { spawn } = ENEMIES[type];
+    if (DIFFICULTY_RANK[difficulty] < DIFFICULTY_RANK[spawn.minDifficulty] || elapsed < spawn.after) return false;
+    return spawn.maxAlive === undefined || enemies.filter(e => e.type === type && e.health > 0).length < spawn.maxAlive;
+  });
+  let roll = random() * allowed.reduce((sum, type) => sum + ENEMIES[type].spawn.weight, 0);
+  for (const type of allowed) {
+    roll -= ENEMIES[type].spawn.weight;
+    if (roll < 0) return type;
+  }
+  return EnemyType.GUARD;
+};
+
+export const createEnemy = (type: EnemyTypeName, id: number, pos: Vector2, now: number): Enemy => {
+  const def = ENEMIES[type];
+  const facing = Math.random() * Math.PI * 2; // Idle enemies look in random directions until alerted
+  return {
+    id,
+    type,
+    pos: { x: pos.x, y: pos.y },
+    dir: { x: Math.cos(facing), y: Math.sin(facing) },
+    state: EnemyState.IDLE,
+    health: def.health,
+    textureId: def.animations.IDLE.textureId,
+    palette: def.palette,
+    lastAttackTime: now,
+    animationTimer: 0
+  };
+};
+
+// The difficulty's behaviour profile with the archetype's own temperament on top, so a sniper on
+// HARD is still bolder than a sniper on EASY
+export const getAiProfile = (def: EnemyDef, difficulty: DifficultyLevel): AiProfile => ({
+  ...AI_PROFILES[difficulty],
+  aggression: Math.max(0, Math.min(1, AI_PROFILES[difficulty].aggression + (def.temperament ?? 0))),
+  engageRange: def.engageRange
+});
+
+// Damage per attack and ms between attacks at a difficulty
+export const getEnemyAttack = (def: EnemyDef, difficulty: DifficultyLevel) => ({
+  damage: def.weapon.damage * ENEMY_DIFFICULTY[difficulty].damage,
+  cooldown: def.weapon.cooldown / ENEMY_DIFFICULTY[difficulty].fireRate
+});
+
+// What a hit of this much damage takes off once armour has soaked up its share
+export const getArmoredDamage = (enemy: Enemy, damage: number) => damage * (1 - (getEnemyDef(enemy).armor ?? 0));
+
+// The item a kill leaves behind, if any
+export const rollDrop = (def: EnemyDef, random = Math.random): number | null => def.drops.find(drop => random() < drop.chance)?.item ?? null;
@@ -0,0 +1,11 @@
+// Minimap fog of war: which cells a player has seen so far, indexed x * mapHeight + y like Raycaster.visibleCells
+
+export const createExploredMap = (map: number[][]): Uint8Array => new Uint8Array(map.length * (map[0]?.length ?? 0));
+
+// Marks what the last rendered frame saw. Frames from another map (a worker answer that crossed a level change) are ignored.
+export const revealCells = (explored: Uint8Array, visible: Uint8Array | null | undefined) => {
+  if (!visible || visible.length !== explored.length) return;
+  for (let i = 0; i < visible.length; i++) explored[i] |= visible[i];
+};
+
+export const isExplored = (explored: Uint8Array, mapHeight: number, x: number, y: number) => explored[x * mapHeight + y] === 1;
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { CellType } from '../types';
+import { createRng, generateMap, generatedMapId, GENERATOR_LIMITS, normalizeGeneratorOptions, parseGeneratedMapId, type GeneratorOptions } from './generator';
+import { validateMap } from './maps';
+
+const OPTIONS: GeneratorOptions = { seed: 1234, width: 32, height: 24, rooms: 6, corridorWidth: 2 };
+
+describe('createRng', () => {
+  it('repeats its sequence for a seed and stays within 0..1', () => {
+    const a = createRng(42), b = createRng(42), c = createRng(43);
+    const seqA = Array.from({ length: 50 }, a);
+    expect(Array.from({ length: 50 }, b)).toEqual(seqA);
+    expect(Array.from({ length: 50 }, c)).not.toEqual(seqA);
+    expect(seqA.every(n => n >= 0 && n < 1)).toBe(true);
+  });
+});
+
+describe('generator options and IDs', () => {
+  it('clamps options to the limits', () => {
+    expect(normalizeGeneratorOptions({ seed: -7.9, width: 4, height: 500, rooms: 0, corridorWidth: 9 })).toEqual({
+      seed: 7,
+      width: GENERATOR_LIMITS.size[0],
+      height: GENERATOR_LIMITS.size[1],
+      rooms: GENERATOR_LIMITS.rooms[0],
+      corridorWidth: GENERATOR_LIMITS.corridorWidth[1]
+    });
+  });
+
+  it('round-trips options through the map ID', () => {
+    const id = generatedMapId(OPTIONS);
+    expect(id).toBe('gen-1234-32x24-6-2');
+    expect(parseGeneratedMapId(id)).toEqual(OPTIONS);
+  });
+
+  it('only parses generated IDs', () => {
+    expect(parseGeneratedMapId('compound')).toBeNull();
+    expect(parseGeneratedMapId('gen-1-32x32-8')).toBeNull();
+    expect(parseGeneratedMapId(null)).toBeNull();
+  });
+
+  it('normalizes out-of-range values in a typed-in ID', () => {
+    expect(parseGeneratedMapId('gen-5-2x999-99-0')).toEqual({ seed: 5, width: 16, height: 64, rooms: 16, corridorWidth: 1 });
+  });
+});
+
+describe('generateMap', () => {
+  it('builds the same map from the same options', () => {
+    expect(generateMap(OPTIONS)).toEqual(generateMap(OPTIONS));
+    expect(generateMap({ ...OPTIONS, seed: 99 }).grid).not.toEqual(generateMap(OPTIONS).grid);
+  });
+
+  it('builds a valid map of the requested size, named after its ID', () => {
+    const def = generateMap(OPTIONS);
+    expect(def.id).toBe(generatedMapId(OPTIONS));
+    expect(def.grid.length).toBe(OPTIONS.width);
+    expect(def.grid.every(row => row.length === OPTIONS.height)).toBe(true);
+    expect(validateMap(def)).toEqual([]);
+  });
+
+  it('stays valid across seeds and layout settings', () => {
+    for (let seed = 0; seed < 40; seed++) {
+      const options = { seed, width: 16 + (seed % 4) * 12, height: 16 + (seed % 3) * 16, rooms: 2 + (seed % 15), corridorWidth: 1 + (seed % 3) };
+      expect(validateMap(generateMap(options)), generatedMapId(options)).toEqual([]);
+    }
+  });
+
+  it('closes the border and spreads player spawns across separate rooms', () => {
+    const def = generateMap(OPTIONS);
+    const { grid } = def;
+    const last = grid.length - 1, lastY = grid[0].length - 1;
+    grid.forEach((row, x) => row.forEach((cell, y) => {
+      if (x === 0 || y === 0 || x === last || y === lastY) expect(cell, `${x},${y}`).not.toBe(CellType.EMPTY);
+    }));
+    const spawnCells = new Set(def.playerSpawns.map(p => `${Math.floor(p.x)},${Math.floor(p.y)}`));
+    expect(def.playerSpawns.length).toBeGreaterThan(1);
+    expect(spawnCells.size).toBe(def.playerSpawns.length);
+  });
+});
@@ -0,0 +1,236 @@
+import { CellType, type ItemSpawn, type Light, type MapDefinition, type PlayerSpawn, type SurfaceRegion, type Vector2 } from '../types';
+import { MAP_FORMAT_VERSION, validateMap } from './maps';
+
+export interface GeneratorOptions {
+  seed: number;
+  width: number;  // Cells along x (grid rows)
+  height: number; // Cells along y
+  rooms: number;  // Rooms to try to place; small maps may fit fewer
+  corridorWidth: number;
+}
+
+export const DEFAULT_GENERATOR_OPTIONS: GeneratorOptions = { seed: 1, width: 32, height: 32, rooms: 8, corridorWidth: 2 };
+
+export const GENERATOR_LIMITS = {
+  size: [16, 64],
+  rooms: [2, 16],
+  corridorWidth: [1, 3]
+} as const;
+
+const MIN_ROOM = 4, MAX_ROOM = 9; // Inner floor size of a room
+const MAX_PLAYER_SPAWNS = 8;
+
+// Each room picks a wall texture, with a floor to match
+const ROOM_THEMES = [
+  { wall: CellType.WALL_1, floor: CellType.FLOOR },
+  { wall: CellType.WALL_2, floor: CellType.FLOOR_GRASS },
+  { wall: CellType.WALL_3, floor: CellType.FLOOR_TILE },
+  { wall: CellType.WALL_4, floor: CellType.FLOOR_WOOD }
+];
+
+interface Room {
+  x: number; // Top-left floor cell
+  y: number;
+  w: number;
+  h: number;
+  theme: typeof ROOM_THEMES[number];
+}
+
+// mulberry32: small, fast and the same on every browser, so a seed always gives the same layout
+export const createRng = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const clamp = (n: number, [min, max]: readonly [number, number]) => Math.max(min, Math.min(max, Math.floor(n) || min));
+
+// Keeps options inside the limits, so any ID a player types in still builds a playable map
+export const normalizeGeneratorOptions = (options: GeneratorOptions): GeneratorOptions => ({
+  seed: Math.floor(Math.abs(options.seed)) % 1000000000 || 0,
+  width: clamp(options.width, GENERATOR_LIMITS.size),
+  height: clamp(options.height, GENERATOR_LIMITS.size),
+  rooms: clamp(options.rooms, GENERATOR_LIMITS.rooms),
+  corridorWidth: clamp(options.corridorWidth, GENERATOR_LIMITS.corridorWidth)
+});
+
+// Generated maps are never stored: their ID carries everything needed to build them again, so a room
+// only has to share the ID for every client (and anyone reading the room list) to get the same layout
+const GENERATED_ID = /^gen-(\d+)-(\d+)x(\d+)-(\d+)-(\d+)$/;
+
+export const generatedMapId = (options: GeneratorOptions) => {
+  const o = normalizeGeneratorOptions(options);
+  return `gen-${o.seed}-${o.width}x${o.height}-${o.rooms}-${o.corridorWidth}`;
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 1000000);
+
+// A fresh generated map with the default layout settings
+export const randomGeneratedMapId = () => generatedMapId({ ...DEFAULT_GENERATOR_OPTIONS, seed: randomSeed() });
+
+export const parseGeneratedMapId = (id: string | null | undefined): GeneratorOptions | null => {
+  const match = id ? GENERATED_ID.exec(id) : null;
+  if (!match) return null;
+  const [seed, width, height, rooms, corridorWidth] = match.slice(1).map(Number);
+  return normalizeGeneratorOptions({ seed, width, height, rooms, corridorWidth });
+};
+
+const center = (room: Room): Vector2 => ({ x: room.x + room.w / 2, y: room.y + room.h / 2 });
+
+// Rooms keep a wall between each other; corridors are the only way through
+const overlaps = (a: Room, b: Room) =>
+  a.x - 2 < b.x + b.w && b.x - 2 < a.x + a.w && a.y - 2 < b.y + b.h && b.y - 2 < a.y + a.h;
+
+const placeRooms = (options: GeneratorOptions, random: () => number): Room[] => {
+  const rooms: Room[] = [];
+  const roll = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  for (let attempt = 0; attempt < options.rooms * 30 && rooms.length < options.rooms; attempt++) {
+    const w = roll(MIN_ROOM, MAX_ROOM), h = roll(MIN_ROOM, MAX_ROOM);
+    const room: Room = {
+      x: roll(1, options.width - w - 1),
+      y: roll(1, options.height - h - 1),
+      w, h,
+      theme: ROOM_THEMES[Math.floor(random() * ROOM_THEMES.length)]
+    };
+    if (!rooms.some(other => overlaps(room, other))) rooms.push(room);
+  }
+  return rooms;
+};
+
+// Joins every room into one tree: each room links to the nearest room already joined
+const linkRooms = (rooms: Room[]): [Room, Room][] => {
+  const links: [Room, Room][] = [];
+  const joined = [rooms[0]];
+  const rest = rooms.slice(1);
+  while (rest.length > 0) {
+    let best = { from: joined[0], index: 0, dist: Infinity };
+    rest.forEach((room, index) => {
+      for (const from of joined) {
+        const a = center(room), b = center(from);
+        const dist = Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+        if (dist < best.dist) best = { from, index, dist };
+      }
+    });
+    const [room] = rest.splice(best.index, 1);
+    links.push([best.from, room]);
+    joined.push(room);
+  }
+  return links;
+};
+
+// Farthest-point sampling: each pick is the point furthest from every earlier pick
+const spreadPoints = (points: Vector2[], count: number): Vector2[] => {
+  if (points.length === 0) return [];
+  const picked = [points[0]];
+  while (picked.length < Math.min(count, points.length)) {
+    let best = points[0], bestDist = -1;
+    for (const p of points) {
+      const dist = Math.min(...picked.map(q => Math.hypot(p.x - q.x, p.y - q.y)));
+      if (dist > bestDist) { best = p; bestDist = dist; }
+    }
+    picked.push(best);
+  }
+  return picked;
+};
+
+// Builds a level from a seed: rooms with their own wall theme, joined by L-shaped corridors, with player
+// spawns spread across the rooms and enemies and pickups in the rest. The same options always build the same map.
+export const generateMap = (input: GeneratorOptions): MapDefinition => {
+  const options = normalizeGeneratorOptions(input);
+  const random = createRng(options.seed);
+  const rooms = placeRooms(options, random);
+  const owner: (Room | null)[][] = Array.from({ length: options.width }, () => new Array(options.height).fill(null));
+  const open = Array.from({ length: options.width }, () => new Array<boolean>(options.height).fill(false));
+
+  for (const room of rooms) {
+    for (let x = room.x; x < room.x + room.w; x++) {
+      for (let y = room.y; y < room.y + room.h; y++) {
+        open[x][y] = true;
+        owner[x][y] = room;
+      }
+    }
+  }
+
+  // Corridors are carved as squares of corridorWidth along the path, kept off the border
+  const carve = (cx: number, cy: number) => {
+    for (let dx = 0; dx < options.corridorWidth; dx++) {
+      for (let dy = 0; dy < options.corridorWidth; dy++) {
+        const x = cx + dx, y = cy + dy;
+        if (x > 0 && y > 0 && x < options.width - 1 && y < options.height - 1) open[x][y] = true;
+      }
+    }
+  };
+  for (const [a, b] of linkRooms(rooms)) {
+    const from = center(a), to = center(b);
+    const x0 = Math.floor(from.x), y0 = Math.floor(from.y), x1 = Math.floor(to.x), y1 = Math.floor(to.y);
+    const horizontalFirst = random() < 0.5;
+    const cornerX = horizontalFirst ? x1 : x0, cornerY = horizontalFirst ? y0 : y1;
+    for (let x = Math.min(x0, x1); x <= Math.max(x0, x1); x++) carve(x, cornerY);
+    for (let y = Math.min(y0, y1); y <= Math.max(y0, y1); y++) carve(cornerX, y);
+  }
+
+  // Walls take the theme of the room they face, corridors and outer walls stay brick
+  const grid = open.map((row, x) => row.map((isOpen, y) => {
+    if (isOpen) return CellType.EMPTY;
+    for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+      const room = owner[x + dx]?.[y + dy];
+      if (room) return room.theme.wall;
+    }
+    return CellType.WALL_1;
+  }));
+
+  const surfaces: SurfaceRegion[] = rooms.map(r => ({ x0: r.x, y0: r.y, x1: r.x + r.w - 1, y1: r.y + r.h - 1, floor: r.theme.floor }));
+  const lights: Light[] = rooms.map(r => ({ pos: center(r), intensity: 0.5, radius: Math.max(r.w, r.h) * 0.6 }));
+
+  // One player spawn per room as far as it goes, spread out so nobody spawns on top of each other
+  const roomCenters = rooms.map(r => ({ x: Math.floor(center(r).x) + 0.5, y: Math.floor(center(r).y) + 0.5 }));
+  const playerSpawns: PlayerSpawn[] = spreadPoints(roomCenters, MAX_PLAYER_SPAWNS).map(p => ({ ...p, angle: random() * Math.PI * 2 }));
+
+  // Enemies and pickups go in the room corners, away from the spawns in the middle
+  const enemySpawns: Vector2[] = [];
+  const itemSpawns: ItemSpawn[] = [];
+  rooms.forEach((room, i) => {
+    const corners = [
+      { x: room.x + 0.5, y: room.y + 0.5 },
+      { x: room.x + room.w - 0.5, y: room.y + room.h - 0.5 },
+      { x: room.x + room.w - 0.5, y: room.y + 0.5 },
+      { x: room.x + 0.5, y: room.y + room.h - 0.5 }
+    ];
+    enemySpawns.push(corners[0], corners[1]);
+    if (i % 2 === 0) itemSpawns.push({ ...corners[2], type: random() < 0.5 ? CellType.HEALTH_ORB : CellType.AMMO_BOX });
+  });
+
+  // Guards walk a loop one cell in from each room's walls
+  const patrols: Vector2[][] = rooms.map(room => [
+    { x: room.x + 1.5, y: room.y + 1.5 },
+    { x: room.x + 1.5, y: room.y + room.h - 1.5 },
+    { x: room.x + room.w - 1.5, y: room.y + room.h - 1.5 },
+    { x: room.x + room.w - 1.5, y: room.y + 1.5 }
+  ]);
+
+  const def: MapDefinition = {
+    version: MAP_FORMAT_VERSION,
+    id: generatedMapId(options),
+    name: `Generated #${options.seed}`,
+    author: 'Generator',
+    description: `${options.width}x${options.height}, ${rooms.length} rooms, corridors ${options.corridorWidth} wide`,
+    grid,
+    surfaces,
+    ambientLight: 0.45,
+    lights,
+    playerSpawns,
+    enemySpawns,
+    itemSpawns,
+    patrols
+  };
+
+  // Only possible if the layout logic above is broken, never for a bad seed
+  const errors = validateMap(def);
+  if (errors.length > 0) throw new Error(`Generated map ${def.id} is invalid: ${errors.join('; ')}`);
+  return def;
+};
@@ -0,0 +1,155 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { deflateSync, inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { CellType, type MapDefinition, type RenderSprite, type RenderState, type TextureSource } from '../types';
+import { renderToRGBA } from './headless';
+import { createMapWorld } from './maps';
+
+// Reference frames live next to this file; UPDATE_GOLDEN=1 (re)writes them from the current renderer
+const GOLDEN_DIR = new URL('./__golden__/', import.meta.url);
+const WIDTH = 96, HEIGHT = 64;
+
+// --- Fixtures: raw ABGR textures, no canvas involved ---
+
+const abgr = (r: number, g: number, b: number, a = 255) => ((a << 24) | (b << 16) | (g << 8) | r) >>> 0;
+
+const texture = (size: number, texel: (x: number, y: number) => number): TextureSource => {
+  const data = new Uint32Array(size * size);
+  for (let y = 0; y < size; y++) for (let x = 0; x < size; x++) data[y * size + x] = texel(x, y);
+  return { data, width: size, height: size };
+};
+
+const SPRITE_COLOR = abgr(255, 0, 0);
+const TEXTURES: Record<number, TextureSource[]> = {
+  [CellType.WALL_1]: [texture(8, (x, y) => (y % 4 === 3 || (x + (y >> 2) * 4) % 8 === 0) ? abgr(200, 200, 200) : abgr(150, 60, 40))],
+  [CellType.FLOOR]: [texture(4, (x, y) => (x + y) % 2 ? abgr(90, 90, 90) : abgr(60, 60, 60))],
+  [CellType.CEILING]: [texture(4, () => abgr(40, 40, 70))],
+  // Opaque red square in the middle of a transparent sprite
+  [CellType.HEALTH_ORB]: [texture(8, (x, y) => x >= 1 && x < 7 && y >= 1 && y < 7 ? SPRITE_COLOR : 0)]
+};
+
+const ROOM: MapDefinition = {
+  version: 1,
+  id: 'golden-room',
+  name: 'Golden Room',
+  author: 'tests',
+  grid: [
+    [1, 1, 1, 1, 1, 1, 1],
+    [1, 0, 0, 0, 0, 0, 1],
+    [1, 0, 0, 0, 0, 0, 1],
+    [1, 0, 0, 1, 0, 0, 1],
+    [1, 0, 0, 0, 0, 0, 1],
+    [1, 0, 0, 0, 0, 0, 1],
+    [1, 1, 1, 1, 1, 1, 1]
+  ],
+  ambientLight: 1,
+  playerSpawns: [{ x: 1.5, y: 1.5 }],
+  enemySpawns: []
+};
+
+// Standing in a corner looking across the room past the pillar
+const createState = (items: RenderSprite[]): RenderState => ({
+  ...createMapWorld(ROOM),
+  player: {
+    pos: { x: 1.5, y: 1.5 }, dir: { x: Math.SQRT1_2, y: Math.SQRT1_2 }, plane: { x: 0.66 * Math.SQRT1_2, y: -0.66 * Math.SQRT1_2 },
+    health: 100, ammo: 0, ammoReserve: 0, z: 0, vz: 0, pitch: 0, weaponIndex: 0
+  },
+  lights: [],
+  decals: {},
+  enemies: [],
+  items,
+  particles: [],
+  effects: []
+});
+
+// A few cells out so fog reaches it, and partly behind the pillar
+const PICKUP: RenderSprite = { pos: { x: 5.0, y: 3.3 }, textureId: CellType.HEALTH_ORB };
+
+// --- Minimal PNG: 8-bit RGBA, no filtering, enough to keep references viewable ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Buffer) => {
+  let c = 0xFFFFFFFF;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xFF] ^ (c >>> 8);
+  return (c ^ 0xFFFFFFFF) >>> 0;
+};
+
+const chunk = (type: string, data: Buffer) => {
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const length = Buffer.alloc(4), crc = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+const encodePng = (rgba: Uint8ClampedArray, width: number, height: number): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.set([8, 6, 0, 0, 0], 8); // 8 bits, RGBA
+  const rows = Buffer.alloc(height * (width * 4 + 1));
+  for (let y = 0; y < height; y++) rows.set(rgba.subarray(y * width * 4, (y + 1) * width * 4), y * (width * 4 + 1) + 1);
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+    chunk('IHDR', header), chunk('IDAT', deflateSync(rows)), chunk('IEND', Buffer.alloc(0))
+  ]);
+};
+
+// Reads back what encodePng wrote
+const decodePng = (png: Buffer): { rgba: Uint8ClampedArray, width: number, height: number } => {
+  const width = png.readUInt32BE(16), height = png.readUInt32BE(20);
+  const idat: Buffer[] = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = png.readUInt32BE(offset);
+    if (png.toString('ascii', offset + 4, offset + 8) === 'IDAT') idat.push(png.subarray(offset + 8, offset + 8 + length));
+    offset += length + 12;
+  }
+  const rows = inflateSync(Buffer.concat(idat));
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) rgba.set(rows.subarray(y * (width * 4 + 1) + 1, (y + 1) * (width * 4 + 1)), y * width * 4);
+  return { rgba, width, height };
+};
+
+// Compares a frame with its reference, or writes the reference when asked to
+const expectGolden = (name: string, rgba: Uint8ClampedArray) => {
+  const file = new URL(`${name}.png`, GOLDEN_DIR);
+  if (process.env.UPDATE_GOLDEN) {
+    writeFileSync(file, encodePng(rgba, WIDTH, HEIGHT));
+    return;
+  }
+  expect(existsSync(file), `no reference for ${name}; run with UPDATE_GOLDEN=1 to create it`).toBe(true);
+  const golden = decodePng(readFileSync(file));
+  expect([golden.width, golden.height]).toEqual([WIDTH, HEIGHT]);
+  const mismatched = rgba.reduce((count, value, i) => count + (value !== golden.rgba[i] ? 1 : 0), 0);
+  expect(mismatched, `${name}.png differs in ${mismatched} channels; rerun with UPDATE_GOLDEN=1 if the change is intended`).toBe(0);
+};
+
+describe('renderToRGBA', () => {
+  it('renders a room with a sprite the same as the reference frame', () => {
+    expectGolden('room', renderToRGBA(createState([PICKUP]), TEXTURES, WIDTH, HEIGHT));
+  });
+
+  it('renders the same frame at half resolution, upscaled', () => {
+    expectGolden('room-half', renderToRGBA(createState([PICKUP]), TEXTURES, WIDTH, HEIGHT, { scale: 0.5 }));
+  });
+
+  // Fog must darken a sprite's texels, never the transparent pixels around them (which would leave a
+  // fogged box around every distant sprite)
+  it('only changes pixels under the opaque part of a fogged sprite', () => {
+    const without = renderToRGBA(createState([]), TEXTURES, WIDTH, HEIGHT);
+    const withSprite = renderToRGBA(createState([PICKUP]), TEXTURES, WIDTH, HEIGHT);
+    let changed = 0;
+    for (let i = 0; i < without.length; i += 4) {
+      if (without[i] === withSprite[i] && without[i + 1] === withSprite[i + 1] && without[i + 2] === withSprite[i + 2]) continue;
+      changed++;
+      // Pure red, only dimmed by light and fog
+      expect([withSprite[i + 1], withSprite[i + 2]], `pixel ${i / 4} outside the sprite's opaque texels was changed`).toEqual([0, 0]);
+    }
+    expect(changed).toBeGreaterThan(0);
+  });
+});
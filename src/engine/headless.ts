@@ -0,0 +1,49 @@
+import { RenderMode, type RenderState, type TextureSource } from '../types';
+import { Raycaster } from './Raycaster';
+import type { RenderTarget } from './renderTarget';
+
+// Keeps the last frame as display-size RGBA, upscaled nearest-neighbour like the canvas target
+export class HeadlessRenderTarget implements RenderTarget {
+  public readonly width: number;
+  public readonly height: number;
+  public readonly rgba: Uint8ClampedArray<ArrayBuffer>;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.rgba = new Uint8ClampedArray(width * height * 4);
+  }
+
+  public presentPixels(rgba: Uint8ClampedArray<ArrayBuffer>, width: number, height: number) {
+    const src = new Uint32Array(rgba.buffer, rgba.byteOffset, width * height);
+    const dst = new Uint32Array(this.rgba.buffer);
+    for (let y = 0; y < this.height; y++) {
+      const srcRow = Math.floor(y * height / this.height) * width;
+      for (let x = 0; x < this.width; x++) {
+        dst[y * this.width + x] = src[srcRow + Math.floor(x * width / this.width)];
+      }
+    }
+  }
+}
+
+export interface HeadlessRenderOptions {
+  zoom?: number;
+  time?: number; // Fixed clock for wall animation and light fades, defaults to 0
+  scale?: number; // Internal resolution scale
+}
+
+// Renders one frame to RGBA with no browser involved, e.g. to compare against reference images under Node
+export const renderToRGBA = (
+  state: RenderState,
+  textures: Record<number, TextureSource[]>,
+  width: number,
+  height: number,
+  options: HeadlessRenderOptions = {}
+): Uint8ClampedArray<ArrayBuffer> => {
+  const raycaster = new Raycaster(width, height);
+  raycaster.mode = RenderMode.BUFFER;
+  if (options.scale !== undefined) raycaster.setResolutionScale(options.scale);
+  const target = new HeadlessRenderTarget(width, height);
+  raycaster.render(target, state, textures, options.zoom ?? 1.0, options.time ?? 0);
+  return target.rgba;
+};
@@ -0,0 +1,54 @@
+import { CellType, type Door, type Vector2 } from '../types';
+import { isSolidCell } from './doors';
+
+export const WALL_HEIGHT = 1.0; // Floor to ceiling, anything this tall always blocks
+export const EYE_HEIGHT = 0.5; // Camera height above the surface you stand on
+export const STEP_HEIGHT = 0.3; // Ledges up to this height can be walked onto without jumping
+
+// Builds the height layer for a map: empty cells sit at 0, walls default to full height.
+// Overrides are keyed "x,y" like doors.
+export const createHeightMap = (map: number[][], overrides: Record<string, number> = {}): number[][] =>
+  map.map((row, x) => row.map((cell, y) => overrides[`${x},${y}`] ?? (cell > 0 ? WALL_HEIGHT : 0)));
+
+export const getCellHeight = (heights: number[][], mapX: number, mapY: number): number =>
+  heights[mapX]?.[mapY] ?? WALL_HEIGHT;
+
+// Height of the surface under a position: the top of a short block, or the floor
+export const getFloorHeight = (map: number[][], heights: number[][], pos: Vector2): number => {
+  const mapX = Math.floor(pos.x), mapY = Math.floor(pos.y);
+  const cell = map[mapX]?.[mapY];
+  if (!cell || cell === CellType.DOOR) return 0;
+  return getCellHeight(heights, mapX, mapY);
+};
+
+// Cells the renderer, bullets and line of sight look through, though nobody can walk through them
+export const isSeeThroughCell = (cell: number) => cell === CellType.WALL_WINDOW;
+
+// Short blocks only stop you when their top is out of stepping reach
+export const blocksMovement = (
+  map: number[][],
+  doors: Record<string, Door>,
+  heights: number[][],
+  mapX: number,
+  mapY: number,
+  z: number = 0
+): boolean => {
+  if (!isSolidCell(map, doors, mapX, mapY)) return false;
+  const top = map[mapX]?.[mapY] === CellType.DOOR ? WALL_HEIGHT : getCellHeight(heights, mapX, mapY);
+  return top >= WALL_HEIGHT || top > z + STEP_HEIGHT;
+};
+
+// Half-walls below eye level can be seen (and shot) over
+export const blocksSight = (
+  map: number[][],
+  doors: Record<string, Door>,
+  heights: number[][],
+  mapX: number,
+  mapY: number,
+  eyeZ: number = EYE_HEIGHT
+): boolean => {
+  if (!isSolidCell(map, doors, mapX, mapY)) return false;
+  if (map[mapX]?.[mapY] === CellType.DOOR) return true;
+  if (isSeeThroughCell(map[mapX][mapY])) return false;
+  return getCellHeight(heights, mapX, mapY) > eyeZ;
+};
@@ -0,0 +1,59 @@
+import { CellType, type Door, type Vector2 } from '../types';
+import { getDoor, intersectDoor } from './doors';
+import { EYE_HEIGHT, blocksSight } from './heights';
+import { wallFace } from './decals';
+import type { DecalFaceValue } from '../types';
+
+export interface WallHit {
+  mapX: number;
+  mapY: number;
+  dist: number; // Along dir, which is unit length for players
+  wallX: number; // Where along the face the ray landed, 0..1
+  face: DecalFaceValue;
+  isDoor: boolean;
+}
+
+// Walks a bullet from pos along dir to the first wall taller than eyeZ, or the slab of a closed door
+export const traceWall = (
+  map: number[][],
+  doors: Record<string, Door>,
+  heights: number[][],
+  pos: Vector2,
+  dir: Vector2,
+  eyeZ: number = EYE_HEIGHT
+): WallHit => {
+  let mapX = Math.floor(pos.x);
+  let mapY = Math.floor(pos.y);
+  const deltaDistX = Math.abs(1 / dir.x);
+  const deltaDistY = Math.abs(1 / dir.y);
+  const stepX = dir.x < 0 ? -1 : 1;
+  const stepY = dir.y < 0 ? -1 : 1;
+  let sideDistX = dir.x < 0 ? (pos.x - mapX) * deltaDistX : (mapX + 1.0 - pos.x) * deltaDistX;
+  let sideDistY = dir.y < 0 ? (pos.y - mapY) * deltaDistY : (mapY + 1.0 - pos.y) * deltaDistY;
+  let side = 0;
+  let doorDist: number | null = null;
+  while (map[mapX] && doorDist === null) {
+    if (sideDistX < sideDistY) { sideDistX += deltaDistX; mapX += stepX; side = 0; }
+    else { sideDistY += deltaDistY; mapY += stepY; side = 1; }
+    if (map[mapX]?.[mapY] === CellType.DOOR) {
+      const door = getDoor(doors, mapX, mapY);
+      doorDist = door ? intersectDoor(door, pos.x, pos.y, dir.x, dir.y)?.dist ?? null : null;
+    } else if (blocksSight(map, doors, heights, mapX, mapY, eyeZ)) break;
+  }
+  const dist = doorDist ?? (side === 0 ? (sideDistX - deltaDistX) : (sideDistY - deltaDistY));
+  let wallX = side === 0 ? pos.y + dist * dir.y : pos.x + dist * dir.x;
+  wallX -= Math.floor(wallX);
+  return { mapX, mapY, dist, wallX, face: wallFace(side, side === 0 ? stepX : stepY), isDoor: doorDist !== null };
+};
+
+// Samples the straight line between two points against walls, closed doors and tall blocks
+export const hasLineOfSight = (p1: Vector2, p2: Vector2, map: number[][], doors: Record<string, Door>, heights: number[][]): boolean => {
+  const steps = 25;
+  const dx = (p2.x - p1.x) / steps, dy = (p2.y - p1.y) / steps;
+  let cx = p1.x, cy = p1.y;
+  for (let i = 0; i < steps; i++) {
+    cx += dx; cy += dy;
+    if (blocksSight(map, doors, heights, Math.floor(cx), Math.floor(cy))) return false;
+  }
+  return true;
+};
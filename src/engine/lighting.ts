@@ -0,0 +1,70 @@
+import { CellType, type Light, type Vector2 } from '../types';
+import { isSeeThroughCell } from './heights';
+
+export const MAX_LIGHT = 2.0; // Brightest a surface can get, 1.0 is the unlit texture colour
+
+// WALL_3 monitors glow onto the cells around them
+const EMISSIVE_CELLS: Record<number, { intensity: number, radius: number }> = {
+  [CellType.WALL_3]: { intensity: 0.45, radius: 3.0 }
+};
+
+const lightFalloff = (light: Light, dx: number, dy: number, intensity: number = light.intensity) => {
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  return dist >= light.radius ? 0 : intensity * (1 - dist / light.radius);
+};
+
+// Walks from the light to the target cell centre. The source and target cells never block,
+// so lights embedded in a wall still reach the floor in front of it.
+const isLit = (map: number[][], from: Vector2, toX: number, toY: number) => {
+  const srcX = Math.floor(from.x), srcY = Math.floor(from.y);
+  const dx = toX + 0.5 - from.x, dy = toY + 0.5 - from.y;
+  const steps = Math.max(1, Math.ceil(Math.sqrt(dx * dx + dy * dy) * 4));
+  for (let i = 1; i < steps; i++) {
+    const cx = Math.floor(from.x + dx * i / steps), cy = Math.floor(from.y + dy * i / steps);
+    if ((cx === srcX && cy === srcY) || (cx === toX && cy === toY)) continue;
+    const cell = map[cx]?.[cy];
+    if (cell > 0 && cell !== CellType.DOOR && !isSeeThroughCell(cell)) return false;
+  }
+  return true;
+};
+
+// Bakes ambient light, placed lights and emissive walls into one brightness value per cell.
+// Doors don't occlude here since they open and close at runtime.
+export const createLightMap = (map: number[][], lights: Light[], ambient: number): number[][] => {
+  const sources: Light[] = [...lights];
+  map.forEach((row, x) => row.forEach((cell, y) => {
+    const emissive = EMISSIVE_CELLS[cell];
+    if (emissive) sources.push({ pos: { x: x + 0.5, y: y + 0.5 }, ...emissive });
+  }));
+
+  return map.map((row, x) => row.map((_, y) => {
+    let level = ambient;
+    for (const light of sources) {
+      const contribution = lightFalloff(light, x + 0.5 - light.pos.x, y + 0.5 - light.pos.y);
+      if (contribution > 0 && isLit(map, light.pos, x, y)) level += contribution;
+    }
+    return Math.min(MAX_LIGHT, level);
+  }));
+};
+
+// Short-lived light (muzzle flash, explosion, pickup) that fades out over its duration
+export const addDynamicLight = (lights: Light[], pos: Vector2, intensity: number, radius: number, duration: number, now: number) => {
+  lights.push({ pos: { x: pos.x, y: pos.y }, intensity, radius, duration, expiresAt: now + duration });
+};
+
+export const pruneLights = (lights: Light[], now: number): Light[] =>
+  lights.filter(l => l.expiresAt === undefined || l.expiresAt > now);
+
+export const getLightIntensity = (light: Light, now: number) => {
+  if (light.expiresAt === undefined || !light.duration) return light.intensity;
+  return light.intensity * Math.max(0, (light.expiresAt - now) / light.duration);
+};
+
+// Baked cell light plus whatever dynamic lights reach the point
+export const getLightLevel = (lightMap: number[][], lights: Light[], x: number, y: number, now: number): number => {
+  let level = lightMap[Math.floor(x)]?.[Math.floor(y)] ?? 1.0;
+  for (const light of lights) {
+    level += lightFalloff(light, x - light.pos.x, y - light.pos.y, getLightIntensity(light, now));
+  }
+  return Math.min(MAX_LIGHT, level);
+};
@@ -0,0 +1,173 @@
+import { CellType, EnemyState, type GameState, type MapObjective, type Vector2, type Waypoint } from '../types';
+import { hasLineOfSight } from './hitscan';
+import { isExplored } from './fog';
+import { getStateName } from './behavior';
+import { RADAR_FIRE_WINDOW } from '../constants';
+
+// What the minimap and tactical map draw, read fresh on every redraw
+export interface MapView {
+  state: Pick<GameState, 'map' | 'player' | 'doors' | 'heights' | 'enemies' | 'items'>;
+  explored?: Uint8Array; // Cells seen so far (see engine/fog); the whole map shows without it
+  teammates?: Vector2[]; // Allies, drawn as blue dots
+  objectives?: MapObjective[];
+  waypoints?: Waypoint[];
+  showAi?: boolean; // Debug: every enemy through walls, with its path and behaviour state
+}
+
+// Draws the map at cellSize pixels per cell from the world origin; the caller sets up the transform.
+// Markers keep their pixel size at any scale.
+export const drawMapView = (ctx: CanvasRenderingContext2D, view: MapView, cellSize: number, now: number) => {
+  const { map, player, doors, heights, enemies, items } = view.state;
+  const mapW = map.length;
+  const mapH = map[0].length;
+  const { explored, teammates = [], objectives = [], waypoints = [] } = view;
+  const seen = (x: number, y: number) => !explored || isExplored(explored, mapH, x, y);
+
+  // Tactical Background
+  ctx.fillStyle = 'rgba(20, 20, 20, 0.7)';
+  ctx.fillRect(0, 0, mapW * cellSize, mapH * cellSize);
+
+  // Explored floor is lifted a shade off the unexplored dark
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.06)';
+  for (let x = 0; x < mapW; x++) {
+    for (let y = 0; y < mapH; y++) {
+      if (map[x][y] === CellType.EMPTY && seen(x, y)) ctx.fillRect(x * cellSize, y * cellSize, cellSize, cellSize);
+    }
+  }
+
+  // Light Grid lines
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.05)';
+  ctx.lineWidth = 0.5;
+  for (let x = 0; x <= mapW; x++) {
+    ctx.beginPath(); ctx.moveTo(x * cellSize, 0); ctx.lineTo(x * cellSize, mapH * cellSize); ctx.stroke();
+  }
+  for (let y = 0; y <= mapH; y++) {
+    ctx.beginPath(); ctx.moveTo(0, y * cellSize); ctx.lineTo(mapW * cellSize, y * cellSize); ctx.stroke();
+  }
+
+  // Walls
+  for (let x = 0; x < mapW; x++) {
+    for (let y = 0; y < mapH; y++) {
+      if (!seen(x, y)) continue;
+      if (map[x][y] === CellType.DOOR) {
+        // Doors fade out as they slide open
+        const open = doors[`${x},${y}`]?.openAmount ?? 0;
+        ctx.fillStyle = `rgba(250, 204, 21, ${0.7 - open * 0.5})`;
+        ctx.fillRect(x * cellSize, y * cellSize, cellSize - 0.5, cellSize - 0.5);
+      } else if (map[x][y] > 0) {
+        // Ledges and half-walls are drawn fainter than full walls
+        ctx.fillStyle = `rgba(255, 255, 255, ${0.2 + 0.3 * Math.min(1, heights[x][y])})`;
+        ctx.fillRect(x * cellSize, y * cellSize, cellSize - 0.5, cellSize - 0.5);
+      }
+    }
+  }
+
+  // Pickups in explored cells: health pink, ammo amber
+  for (const item of items) {
+    if (!seen(Math.floor(item.pos.x), Math.floor(item.pos.y))) continue;
+    ctx.fillStyle = item.textureId === CellType.HEALTH_ORB ? '#f472b6' : '#fbbf24';
+    ctx.fillRect(item.pos.x * cellSize - 1.5, item.pos.y * cellSize - 1.5, 3, 3);
+  }
+
+  // Radar: hostiles show while in line of sight, and fade out after firing from cover
+  for (const enemy of enemies) {
+    if (enemy.health <= 0 || enemy.state === EnemyState.DYING || enemy.state === EnemyState.DEAD) continue;
+    const sinceShot = now - (enemy.lastShotAt ?? -Infinity);
+    const alpha = hasLineOfSight(player.pos, enemy.pos, map, doors, heights) ? 1 : Math.max(0, 1 - sinceShot / RADAR_FIRE_WINDOW);
+    if (alpha <= 0) continue;
+    ctx.fillStyle = !enemy.type && enemy.palette ? enemy.palette : '#ef4444'; // Players in their suit colour; archetype tints stay hostile red
+    ctx.globalAlpha = alpha;
+    ctx.beginPath();
+    ctx.arc(enemy.pos.x * cellSize, enemy.pos.y * cellSize, 2.5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalAlpha = 1;
+  }
+
+  // AI debug: enemies in orange with their facing, planned path and state
+  if (view.showAi) {
+    ctx.font = 'bold 9px monospace';
+    ctx.textAlign = 'center';
+    for (const enemy of enemies) {
+      if (enemy.state === EnemyState.DYING || enemy.state === EnemyState.DEAD) continue;
+      const ex = enemy.pos.x * cellSize, ey = enemy.pos.y * cellSize;
+      const path = enemy.nav?.path ?? [];
+      if (path.length > 0) {
+        ctx.strokeStyle = 'rgba(249, 115, 22, 0.6)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.moveTo(ex, ey);
+        for (const p of path) ctx.lineTo(p.x * cellSize, p.y * cellSize);
+        ctx.stroke();
+      }
+      ctx.strokeStyle = '#f97316';
+      ctx.beginPath();
+      ctx.moveTo(ex, ey);
+      ctx.lineTo(ex + enemy.dir.x * 6, ey + enemy.dir.y * 6);
+      ctx.stroke();
+      ctx.fillStyle = '#f97316';
+      ctx.beginPath();
+      ctx.arc(ex, ey, 2, 0, Math.PI * 2);
+      ctx.fill();
+      if (cellSize >= 12) ctx.fillText(`${enemy.type ?? ''} ${getStateName(enemy.state)} ${Math.ceil(enemy.health)}`.trim(), ex, ey - 6);
+    }
+  }
+
+  // Objectives are always known; labels only fit once zoomed in
+  ctx.font = 'bold 11px monospace';
+  ctx.textAlign = 'center';
+  for (const objective of objectives) {
+    const ox = objective.x * cellSize, oy = objective.y * cellSize;
+    ctx.strokeStyle = '#facc15';
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(ox - 3.5, oy - 3.5, 7, 7);
+    if (cellSize >= 12) {
+      ctx.fillStyle = '#facc15';
+      ctx.fillText(objective.label.toUpperCase(), ox, oy - 8);
+    }
+  }
+
+  for (const waypoint of waypoints) {
+    const wx = waypoint.pos.x * cellSize, wy = waypoint.pos.y * cellSize;
+    ctx.fillStyle = waypoint.color;
+    ctx.beginPath();
+    ctx.moveTo(wx, wy - 5); ctx.lineTo(wx + 4, wy); ctx.lineTo(wx, wy + 5); ctx.lineTo(wx - 4, wy);
+    ctx.closePath();
+    ctx.fill();
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  }
+
+  ctx.fillStyle = '#38bdf8';
+  for (const mate of teammates) {
+    ctx.beginPath();
+    ctx.arc(mate.x * cellSize, mate.y * cellSize, 2.5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  // Player
+  const px = player.pos.x * cellSize;
+  const py = player.pos.y * cellSize;
+
+  // View Cone
+  ctx.fillStyle = 'rgba(34, 197, 94, 0.2)';
+  ctx.beginPath();
+  ctx.moveTo(px, py);
+  const coneAngle = Math.atan2(player.dir.y, player.dir.x);
+  ctx.arc(px, py, 40, coneAngle - 0.5, coneAngle + 0.5);
+  ctx.fill();
+
+  // Player Dot
+  ctx.fillStyle = '#22c55e';
+  ctx.beginPath();
+  ctx.arc(px, py, 2.5, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Dir Indicator
+  ctx.strokeStyle = '#ffffff';
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.moveTo(px, py);
+  ctx.lineTo(px + player.dir.x * 8, py + player.dir.y * 8);
+  ctx.stroke();
+};
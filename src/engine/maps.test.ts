@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { CellType, MapActionType, TriggerKind, type MapDefinition } from '../types';
+import { loadMap, validateMap } from './maps';
+
+// 5x5 room with a pillar in the middle
+const room = (overrides: Partial<MapDefinition> = {}): MapDefinition => ({
+  version: 1,
+  id: 'test-room',
+  name: 'Test Room',
+  author: 'tests',
+  grid: [
+    [1, 1, 1, 1, 1],
+    [1, 0, 0, 0, 1],
+    [1, 0, 1, 0, 1],
+    [1, 0, 0, 0, 1],
+    [1, 1, 1, 1, 1]
+  ],
+  playerSpawns: [{ x: 1.5, y: 1.5 }],
+  enemySpawns: [{ x: 3.5, y: 3.5 }],
+  ...overrides
+});
+
+// Loose input, as read from a file
+const parse = (def: object) => validateMap(def as MapDefinition);
+
+describe('validateMap', () => {
+  it('accepts a playable map', () => {
+    expect(validateMap(room())).toEqual([]);
+  });
+
+  it('accepts every map bundled with the game', () => {
+    const files = import.meta.glob<object>('../maps/*.json', { eager: true, import: 'default' });
+    expect(Object.keys(files).length).toBeGreaterThan(0);
+    for (const [file, def] of Object.entries(files)) expect(parse(def), file).toEqual([]);
+  });
+
+  it('rejects anything that is not a map object of the current version', () => {
+    expect(parse(null as unknown as object)).toEqual(['map must be an object']);
+    expect(validateMap(room({ version: 2 }))).toEqual(['unsupported map version 2, expected 1']);
+  });
+
+  it('reports missing names and a broken grid without looking further', () => {
+    expect(validateMap(room({ id: '', grid: [[1, 1], [1, 1]] }))).toEqual(['id is required', 'grid must be an array of at least 3 rows']);
+  });
+
+  it('reports ragged rows, unknown cells and open borders', () => {
+    const errors = validateMap(room({
+      grid: [
+        [1, 1, 1, 1, 1],
+        [1, 0, 0, 0, 1],
+        [1, 0, 99, 0],
+        [0, 0, 0, 0, 1],
+        [1, 1, 1, 1, 1]
+      ]
+    }));
+    expect(errors).toContain('grid row 2 has 4 cells, expected 5');
+    expect(errors).toContain('unknown cell ID 99 at 2,2');
+    expect(errors).toContain('open border at 3,0');
+  });
+
+  it('checks the shape of optional fields before their entries', () => {
+    expect(parse({ ...room(), lights: {}, heights: [] })).toEqual([
+      'heights must be an object of "x,y": height',
+      'lights must be a list'
+    ]);
+    expect(parse({ ...room(), playerSpawns: [] })).toEqual(['needs at least one player spawn']);
+  });
+
+  it('reports bad entries by index', () => {
+    const errors = parse({
+      ...room(),
+      heights: { '9,9': 0.5 },
+      surfaces: [{ x0: 0.5, y0: 0, x1: 2, y1: 2, floor: CellType.SKY }],
+      lights: [{ pos: { x: 20, y: 1 }, intensity: 1, radius: 3 }],
+      itemSpawns: [{ x: 1.5, y: 3.5, type: CellType.WALL_1 }],
+      objectives: [{ x: 1.5, y: 1.5 }]
+    });
+    expect(errors).toEqual(expect.arrayContaining([
+      'bad height 9,9: 0.5',
+      'surface 0 needs whole-cell x0, y0, x1 and y1',
+      `surface 0 has unknown floor ID ${CellType.SKY}`,
+      'light 0 needs a position on the map, intensity and radius',
+      `item spawn 0 has unknown item ID ${CellType.WALL_1}`,
+      'objective 0 needs a position on the map and a label'
+    ]));
+  });
+
+  it('includes trigger problems', () => {
+    const triggers = [{ id: 'hall', kind: TriggerKind.AREA, x0: 1, y0: 1, x1: 3, y1: 3, actions: [{ type: MapActionType.OPEN_DOOR, x: 1, y: 1 }] }];
+    expect(validateMap(room({ triggers }))).toEqual(['trigger hall action 0 must point at a door']);
+  });
+
+  it('rejects spawns off the map, inside walls or walled off from the player', () => {
+    expect(validateMap(room({ enemySpawns: [{ x: 7, y: 1 }] }))).toEqual(['enemy spawn 0 is off the map']);
+    expect(validateMap(room({ enemySpawns: [{ x: 2.5, y: 2.5 }] }))).toEqual(['enemy spawn 0 at 2.5,2.5 is inside a wall']);
+
+    const walledOff = room({
+      grid: [
+        [1, 1, 1, 1, 1],
+        [1, 0, 1, 0, 1],
+        [1, 1, 1, 0, 1],
+        [1, 0, 0, 0, 1],
+        [1, 1, 1, 1, 1]
+      ]
+    });
+    expect(validateMap(walledOff)).toEqual(['enemy spawn 0 at 3.5,3.5 is unreachable']);
+  });
+
+  it('counts short blocks as reachable, since they can be jumped onto', () => {
+    const grid = [
+      [1, 1, 1, 1, 1],
+      [1, 0, 1, 0, 1],
+      [1, 1, 1, 0, 1],
+      [1, 0, 0, 0, 1],
+      [1, 1, 1, 1, 1]
+    ];
+    expect(validateMap(room({ grid, heights: { '1,2': 0.4 } }))).toEqual([]);
+  });
+
+  it('rejects patrol routes with fewer than two points', () => {
+    expect(validateMap(room({ patrols: [[{ x: 1.5, y: 1.5 }]] }))).toEqual(['patrols must be a list of routes with at least 2 points each']);
+  });
+});
+
+describe('loadMap', () => {
+  it('parses JSON text', () => {
+    expect(loadMap(JSON.stringify(room())).id).toBe('test-room');
+  });
+
+  it('throws with every problem found', () => {
+    const def = room({ lights: [{ pos: { x: 20, y: 1 }, intensity: 1, radius: 3 }], enemySpawns: [{ x: 2.5, y: 2.5 }] });
+    expect(() => loadMap(def)).toThrow('Invalid map test-room: light 0 needs a position on the map, intensity and radius; enemy spawn 0 at 2.5,2.5 is inside a wall');
+  });
+});
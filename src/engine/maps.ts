@@ -0,0 +1,158 @@
+import { CellType, type GameState, type Item, type MapDefinition, type Vector2 } from '../types';
+import { createDoors } from './doors';
+import { WALL_HEIGHT, createHeightMap } from './heights';
+import { createLightMap } from './lighting';
+import { createSurfaceMaps } from './surfaces';
+import { checkTriggers } from './triggers';
+
+export const MAP_FORMAT_VERSION = 1;
+export const DEFAULT_AMBIENT_LIGHT = 0.55;
+
+const GRID_CELLS = new Set<number>([CellType.EMPTY, CellType.WALL_1, CellType.WALL_2, CellType.WALL_3, CellType.WALL_4, CellType.WALL_WINDOW, CellType.DOOR]);
+const FLOOR_TEXTURES = new Set<number>([CellType.FLOOR, CellType.FLOOR_TILE, CellType.FLOOR_GRASS, CellType.FLOOR_WOOD]);
+const CEILING_TEXTURES = new Set<number>([CellType.CEILING, CellType.SKY]);
+const ITEM_TYPES = new Set<number>([CellType.HEALTH_ORB, CellType.AMMO_BOX]);
+
+// The map layers a level is played on
+export type MapWorld = Pick<GameState, 'map' | 'doors' | 'heights' | 'lightMap' | 'floors' | 'ceilings'>;
+
+const isNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+const isObject = (o: unknown): o is object => typeof o === 'object' && o !== null && !Array.isArray(o);
+
+// Optional lists of a map file; each must be a list before its entries can be checked
+const LIST_FIELDS = ['surfaces', 'lights', 'itemSpawns', 'objectives', 'triggers', 'patrols'] as const;
+
+// Cells a player can get into: open floor, doors, and short blocks (a jump clears anything below a full wall)
+const isPassable = (grid: number[][], heights: number[][], x: number, y: number) => {
+  const cell = grid[x]?.[y];
+  if (cell === undefined) return false;
+  return cell === CellType.EMPTY || cell === CellType.DOOR || heights[x][y] < WALL_HEIGHT;
+};
+
+// Flood fill from the first player spawn, true for every cell that can be walked or jumped to
+const findReachable = (grid: number[][], heights: number[][], start: Vector2): boolean[][] => {
+  const reachable = grid.map(row => row.map(() => false));
+  const stack = [[Math.floor(start.x), Math.floor(start.y)]];
+  while (stack.length > 0) {
+    const [x, y] = stack.pop()!;
+    if (!isPassable(grid, heights, x, y) || reachable[x][y]) continue;
+    reachable[x][y] = true;
+    stack.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
+  }
+  return reachable;
+};
+
+const checkGrid = (grid: unknown): string[] => {
+  if (!Array.isArray(grid) || grid.length < 3 || !grid.every(row => Array.isArray(row))) return ['grid must be an array of at least 3 rows'];
+  const errors: string[] = [];
+  const width = grid[0].length;
+  if (width < 3) errors.push('grid rows need at least 3 cells');
+  grid.forEach((row: unknown[], x) => {
+    if (row.length !== width) errors.push(`grid row ${x} has ${row.length} cells, expected ${width}`);
+    row.forEach((cell, y) => {
+      if (!isNumber(cell) || !GRID_CELLS.has(cell)) errors.push(`unknown cell ID ${String(cell)} at ${x},${y}`);
+      // Nothing stops the player walking off an edge that is open or only a door
+      const isBorder = x === 0 || y === 0 || x === grid.length - 1 || y === width - 1;
+      if (isBorder && (cell === CellType.EMPTY || cell === CellType.DOOR)) errors.push(`open border at ${x},${y}`);
+    });
+  });
+  return errors;
+};
+
+// Every problem that stops a map from loading, empty when it is playable
+export const validateMap = (def: MapDefinition): string[] => {
+  if (!def || typeof def !== 'object') return ['map must be an object'];
+  if (def.version !== MAP_FORMAT_VERSION) return [`unsupported map version ${def.version}, expected ${MAP_FORMAT_VERSION}`];
+
+  const errors: string[] = [];
+  if (typeof def.id !== 'string' || !def.id) errors.push('id is required');
+  if (typeof def.name !== 'string' || !def.name) errors.push('name is required');
+  if (typeof def.author !== 'string') errors.push('author is required');
+
+  const gridErrors = checkGrid(def.grid);
+  if (gridErrors.length > 0) return [...errors, ...gridErrors];
+  const grid = def.grid;
+  const inBounds = (p: Vector2 | null | undefined) => isNumber(p?.x) && isNumber(p?.y) && p.x >= 0 && p.y >= 0 && p.x < grid.length && p.y < grid[0].length;
+
+  // Structure first: the entry checks below and the reachability fill rely on it
+  if (def.heights !== undefined && !isObject(def.heights)) errors.push('heights must be an object of "x,y": height');
+  for (const field of LIST_FIELDS) {
+    if (def[field] !== undefined && !Array.isArray(def[field])) errors.push(`${field} must be a list`);
+  }
+  if (!Array.isArray(def.playerSpawns) || def.playerSpawns.length === 0) errors.push('needs at least one player spawn');
+  if (!Array.isArray(def.enemySpawns)) errors.push('enemySpawns must be a list');
+  if (errors.length > 0) return errors;
+
+  for (const [key, height] of Object.entries(def.heights ?? {})) {
+    const [x, y] = key.split(',').map(Number);
+    if (!inBounds({ x, y }) || !isNumber(height) || height < 0) errors.push(`bad height ${key}: ${height}`);
+  }
+  (def.surfaces ?? []).forEach((r, i) => {
+    if (![r?.x0, r?.y0, r?.x1, r?.y1].every(n => Number.isInteger(n))) errors.push(`surface ${i} needs whole-cell x0, y0, x1 and y1`);
+    if (r?.floor !== undefined && !FLOOR_TEXTURES.has(r.floor)) errors.push(`surface ${i} has unknown floor ID ${r.floor}`);
+    if (r?.ceiling !== undefined && !CEILING_TEXTURES.has(r.ceiling)) errors.push(`surface ${i} has unknown ceiling ID ${r.ceiling}`);
+  });
+  if (def.ambientLight !== undefined && !(isNumber(def.ambientLight) && def.ambientLight >= 0)) errors.push('ambientLight must be a number of at least 0');
+  (def.lights ?? []).forEach((l, i) => {
+    if (!inBounds(l?.pos) || !isNumber(l?.intensity) || !isNumber(l?.radius)) errors.push(`light ${i} needs a position on the map, intensity and radius`);
+  });
+  (def.itemSpawns ?? []).forEach((item, i) => {
+    if (!ITEM_TYPES.has(item?.type)) errors.push(`item spawn ${i} has unknown item ID ${item?.type}`);
+  });
+  (def.objectives ?? []).forEach((o, i) => {
+    if (!inBounds(o) || typeof o?.label !== 'string' || !o.label) errors.push(`objective ${i} needs a position on the map and a label`);
+  });
+  errors.push(...checkTriggers(def));
+
+  const patrols = def.patrols ?? [];
+  if (!patrols.every(route => Array.isArray(route) && route.length >= 2)) {
+    return [...errors, 'patrols must be a list of routes with at least 2 points each'];
+  }
+
+  // Spawns must stand on open floor or a short block, joined up with the first player spawn
+  const heights = createHeightMap(grid, def.heights);
+  const spawns: [string, Vector2][] = [
+    ...def.playerSpawns.map((p, i): [string, Vector2] => [`player spawn ${i}`, p]),
+    ...def.enemySpawns.map((p, i): [string, Vector2] => [`enemy spawn ${i}`, p]),
+    ...(def.itemSpawns ?? []).map((p, i): [string, Vector2] => [`item spawn ${i}`, p]),
+    ...patrols.flatMap((route, i) => route.map((p, j): [string, Vector2] => [`patrol ${i} point ${j}`, p]))
+  ];
+  const outside = spawns.filter(([, p]) => !inBounds(p));
+  outside.forEach(([name]) => errors.push(`${name} is off the map`));
+  if (outside.length > 0) return errors;
+
+  const reachable = findReachable(grid, heights, def.playerSpawns[0]);
+  for (const [name, p] of spawns) {
+    const x = Math.floor(p.x), y = Math.floor(p.y);
+    if (grid[x][y] === CellType.DOOR || heights[x][y] >= WALL_HEIGHT) errors.push(`${name} at ${p.x},${p.y} is inside a wall`);
+    else if (!reachable[x][y]) errors.push(`${name} at ${p.x},${p.y} is unreachable`);
+  }
+  return errors;
+};
+
+// Parses and checks a map file, throwing with every problem found
+export const loadMap = (source: string | object): MapDefinition => {
+  const def = (typeof source === 'string' ? JSON.parse(source) : source) as MapDefinition;
+  const errors = validateMap(def);
+  if (errors.length > 0) throw new Error(`Invalid map ${def?.id ?? ''}: ${errors.join('; ')}`);
+  return def;
+};
+
+// Builds the layers a level is played and rendered on. Every call gets fresh doors.
+export const createMapWorld = (def: MapDefinition): MapWorld => ({
+  map: def.grid,
+  doors: createDoors(def.grid),
+  heights: createHeightMap(def.grid, def.heights),
+  lightMap: createLightMap(def.grid, def.lights ?? [], def.ambientLight ?? DEFAULT_AMBIENT_LIGHT),
+  ...createSurfaceMaps(def.grid, def.surfaces)
+});
+
+// The pickups a level starts with
+export const createMapItems = (def: MapDefinition, now: number): Item[] =>
+  (def.itemSpawns ?? []).map((item, i) => ({
+    id: `map-${i}`,
+    pos: { x: item.x, y: item.y },
+    textureId: item.type,
+    spawnTime: now,
+    isPlaced: true
+  }));
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { Vector2 } from '../types';
+import { createDoors } from './doors';
+import { createHeightMap } from './heights';
+import { findCover, findPath, isWalkable } from './navigation';
+
+// Rows are x, columns y, as in map files
+const world = (map: number[][], heights: Record<string, number> = {}) =>
+  ({ map, doors: createDoors(map), heights: createHeightMap(map, heights) });
+
+// Two rooms joined by a gap at x = 3 in the wall along y = 3
+const ROOMS = [
+  [1, 1, 1, 1, 1, 1, 1],
+  [1, 0, 0, 1, 0, 0, 1],
+  [1, 0, 0, 1, 0, 0, 1],
+  [1, 0, 0, 0, 0, 0, 1],
+  [1, 0, 0, 1, 0, 0, 1],
+  [1, 1, 1, 1, 1, 1, 1]
+];
+
+const cell = (p: Vector2) => `${Math.floor(p.x)},${Math.floor(p.y)}`;
+
+// Each step of a path moves to a neighbouring open cell, diagonals included
+const expectConnected = (w: ReturnType<typeof world>, from: Vector2, path: Vector2[]) => {
+  let prev = { x: Math.floor(from.x), y: Math.floor(from.y) };
+  for (const p of path) {
+    const x = Math.floor(p.x), y = Math.floor(p.y);
+    expect(Math.max(Math.abs(x - prev.x), Math.abs(y - prev.y)), `${prev.x},${prev.y} -> ${x},${y}`).toBe(1);
+    expect(isWalkable(w, x, y)).toBe(true);
+    prev = { x, y };
+  }
+};
+
+describe('findPath', () => {
+  it('returns cell centres from the next cell to the goal', () => {
+    const w = world(ROOMS);
+    const path = findPath(w, { x: 1.2, y: 1.7 }, { x: 1.5, y: 2.5 });
+    expect(path).toEqual([{ x: 1.5, y: 2.5 }]);
+  });
+
+  it('is empty when already in the goal cell', () => {
+    expect(findPath(world(ROOMS), { x: 1.1, y: 1.1 }, { x: 1.9, y: 1.9 })).toEqual([]);
+  });
+
+  it('routes through the gap between rooms along a shortest path', () => {
+    const w = world(ROOMS);
+    const from = { x: 1.5, y: 1.5 }, to = { x: 1.5, y: 5.5 };
+    const path = findPath(w, from, to)!;
+    expect(path.map(cell)).toContain('3,3');
+    expect(cell(path[path.length - 1])).toBe('1,5');
+    expectConnected(w, from, path);
+    // Straight through the gap (its corners can't be cut), one diagonal either side of it
+    expect(path.length).toBe(6);
+  });
+
+  it('never cuts a wall corner diagonally', () => {
+    const w = world([
+      [1, 1, 1, 1],
+      [1, 0, 1, 1],
+      [1, 0, 0, 1],
+      [1, 1, 1, 1]
+    ]);
+    expect(findPath(w, { x: 1.5, y: 1.5 }, { x: 2.5, y: 2.5 })!.map(cell)).toEqual(['2,1', '2,2']);
+  });
+
+  it('returns null for walls, off-map goals and sealed areas', () => {
+    const w = world(ROOMS);
+    expect(findPath(w, { x: 1.5, y: 1.5 }, { x: 0.5, y: 0.5 })).toBeNull();
+    expect(findPath(w, { x: 1.5, y: 1.5 }, { x: 9, y: 1 })).toBeNull();
+
+    const sealed = ROOMS.map(row => [...row]);
+    sealed[3][3] = 1;
+    expect(findPath(world(sealed), { x: 1.5, y: 1.5 }, { x: 1.5, y: 5.5 })).toBeNull();
+  });
+
+  it('walks through closed doors, which enemies push open', () => {
+    const withDoor = ROOMS.map(row => [...row]);
+    withDoor[3][3] = 6;
+    expect(findPath(world(withDoor), { x: 1.5, y: 1.5 }, { x: 1.5, y: 5.5 })!.map(cell)).toContain('3,3');
+  });
+
+  it('treats short blocks as walkable and full-height ones as walls', () => {
+    const blocked = ROOMS.map(row => [...row]);
+    blocked[3][3] = 2;
+    expect(findPath(world(blocked), { x: 1.5, y: 1.5 }, { x: 1.5, y: 5.5 })).toBeNull();
+    expect(findPath(world(blocked, { '3,3': 0.2 }), { x: 1.5, y: 1.5 }, { x: 1.5, y: 5.5 })).not.toBeNull();
+  });
+});
+
+describe('findCover', () => {
+  const threat = { x: 1.5, y: 1.5 };
+
+  it('finds the nearest cell the threat cannot see', () => {
+    const cover = findCover(world(ROOMS), { x: 3.5, y: 3.5 }, threat, 6)!;
+    expect(cover).not.toBeNull();
+    expect(Math.floor(cover.y)).toBeGreaterThan(3); // Behind the dividing wall
+    expect(Math.hypot(cover.x - 3.5, cover.y - 3.5)).toBeLessThan(2);
+  });
+
+  it('falls back as far as it can when asked to get away', () => {
+    const near = findCover(world(ROOMS), { x: 3.5, y: 3.5 }, threat, 6)!;
+    const far = findCover(world(ROOMS), { x: 3.5, y: 3.5 }, threat, 6, true)!;
+    expect(Math.hypot(far.x - threat.x, far.y - threat.y)).toBeGreaterThan(Math.hypot(near.x - threat.x, near.y - threat.y));
+  });
+
+  it('returns null in an open room', () => {
+    expect(findCover(world(ROOMS), { x: 2.5, y: 2.5 }, threat, 1)).toBeNull();
+  });
+});
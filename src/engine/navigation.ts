@@ -0,0 +1,234 @@
+import { CellType, type Door, type Enemy, type GameState, type NavState, type Vector2 } from '../types';
+import { getDoor, openDoor } from './doors';
+import { blocksMovement } from './heights';
+import { hasLineOfSight } from './hitscan';
+
+export const REPLAN_INTERVAL = 400; // ms before a moving target triggers a new path
+export const MAX_PATH_AGE = 2500; // ms a path is trusted before re-planning anyway, e.g. for doors that shut
+export const WAYPOINT_REACHED = 0.25; // Cells from a path node's centre that count as arriving
+export const SEPARATION_RADIUS = 0.8; // Enemies closer than this push each other apart
+const SEPARATION_WEIGHT = 0.6;
+
+type NavWorld = Pick<GameState, 'map' | 'doors' | 'heights'>;
+
+const NEIGHBOURS = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, 1], [1, -1], [-1, 1], [-1, -1]];
+
+// Doors count as open ground: an enemy walking into one pushes it open
+export const isWalkable = ({ map, doors, heights }: NavWorld, x: number, y: number) =>
+  map[x]?.[y] === CellType.DOOR || (map[x]?.[y] !== undefined && !blocksMovement(map, doors, heights, x, y));
+
+// Binary min-heap of cell indices ordered by score
+class CellHeap {
+  private items: number[] = [];
+  private scores: Float32Array;
+
+  constructor(scores: Float32Array) {
+    this.scores = scores;
+  }
+
+  public get size() {
+    return this.items.length;
+  }
+
+  public push(cell: number) {
+    const items = this.items;
+    items.push(cell);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.scores[items[parent]] <= this.scores[items[i]]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  public pop(): number {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1, right = left + 1;
+        let smallest = i;
+        if (left < items.length && this.scores[items[left]] < this.scores[items[smallest]]) smallest = left;
+        if (right < items.length && this.scores[items[right]] < this.scores[items[smallest]]) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+// A* over the grid with 8-way moves. Diagonals may not cut a corner, so a path never clips a wall edge.
+// Returns the cell centres from the cell after the start to the goal, or null when the goal can't be reached.
+export const findPath = (world: NavWorld, from: Vector2, to: Vector2): Vector2[] | null => {
+  const { map } = world;
+  const width = map.length, height = map[0]?.length ?? 0;
+  const sx = Math.floor(from.x), sy = Math.floor(from.y);
+  const gx = Math.floor(to.x), gy = Math.floor(to.y);
+  if (gx < 0 || gy < 0 || gx >= width || gy >= height || !isWalkable(world, gx, gy)) return null;
+  if (sx === gx && sy === gy) return [];
+
+  const cells = width * height;
+  const cost = new Float32Array(cells).fill(Infinity);
+  const score = new Float32Array(cells);
+  const cameFrom = new Int32Array(cells).fill(-1);
+  const closed = new Uint8Array(cells);
+  const heuristic = (x: number, y: number) => {
+    const dx = Math.abs(x - gx), dy = Math.abs(y - gy);
+    return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+  };
+
+  const start = sx * height + sy, goal = gx * height + gy;
+  const open = new CellHeap(score);
+  cost[start] = 0;
+  score[start] = heuristic(sx, sy);
+  open.push(start);
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === goal) break;
+    if (closed[current]) continue;
+    closed[current] = 1;
+    const cx = Math.floor(current / height), cy = current % height;
+
+    for (const [dx, dy] of NEIGHBOURS) {
+      const nx = cx + dx, ny = cy + dy;
+      if (!isWalkable(world, nx, ny)) continue;
+      if (dx !== 0 && dy !== 0 && (!isWalkable(world, cx + dx, cy) || !isWalkable(world, cx, cy + dy))) continue;
+      const next = nx * height + ny;
+      const nextCost = cost[current] + (dx !== 0 && dy !== 0 ? Math.SQRT2 : 1);
+      if (closed[next] || nextCost >= cost[next]) continue;
+      cost[next] = nextCost;
+      cameFrom[next] = current;
+      score[next] = nextCost + heuristic(nx, ny);
+      open.push(next);
+    }
+  }
+
+  if (cameFrom[goal] === -1) return null;
+  const path: Vector2[] = [];
+  for (let cell = goal; cell !== start; cell = cameFrom[cell]) {
+    path.push({ x: Math.floor(cell / height) + 0.5, y: (cell % height) + 0.5 });
+  }
+  return path.reverse();
+};
+
+const getNav = (enemy: Enemy): NavState => {
+  enemy.nav ??= { path: [], goalX: -1, goalY: -1, plannedAt: -Infinity, lastKnownTarget: null };
+  return enemy.nav;
+};
+
+// Keeps the enemy's cached path towards target fresh: re-plans once the target has moved to another cell
+// (at most every REPLAN_INTERVAL), when the path runs out, or when it has grown stale
+const updatePath = (enemy: Enemy, nav: NavState, world: NavWorld, target: Vector2, now: number) => {
+  const gx = Math.floor(target.x), gy = Math.floor(target.y);
+  const goalMoved = gx !== nav.goalX || gy !== nav.goalY;
+  const age = now - nav.plannedAt;
+  if ((goalMoved && age > REPLAN_INTERVAL) || nav.path.length === 0 && goalMoved || age > MAX_PATH_AGE) {
+    nav.path = findPath(world, enemy.pos, target) ?? [];
+    nav.goalX = gx;
+    nav.goalY = gy;
+    nav.plannedAt = now;
+  }
+  while (nav.path.length > 0 && Math.hypot(nav.path[0].x - enemy.pos.x, nav.path[0].y - enemy.pos.y) < WAYPOINT_REACHED) nav.path.shift();
+};
+
+// Pushes away from nearby living enemies so a pack spreads out instead of stacking on one spot
+const getSeparation = (enemy: Enemy, others: Enemy[]): Vector2 => {
+  let sx = 0, sy = 0;
+  for (const other of others) {
+    if (other === enemy || other.health <= 0) continue;
+    const dx = enemy.pos.x - other.pos.x, dy = enemy.pos.y - other.pos.y;
+    const dist = Math.hypot(dx, dy);
+    if (dist >= SEPARATION_RADIUS) continue;
+    // Exactly overlapping enemies split along their IDs rather than not at all
+    const push = (1 - dist / SEPARATION_RADIUS) * SEPARATION_WEIGHT;
+    if (dist > 0.001) { sx += dx / dist * push; sy += dy / dist * push; }
+    else { sx += (enemy.id > other.id ? 1 : -1) * push; }
+  }
+  return { x: sx, y: sy };
+};
+
+// Unit direction to walk this tick to reach target: along the cached path, or straight on when the
+// target shares the cell, blended with separation from the rest of the pack. Null when already there.
+export const steerTowards = (enemy: Enemy, target: Vector2, others: Enemy[], world: NavWorld, now: number): Vector2 | null => {
+  const nav = getNav(enemy);
+  updatePath(enemy, nav, world, target, now);
+  // Off the end of the path (same cell, or the goal is unreachable) head straight for the target
+  const next = nav.path[0] ?? target;
+  let dx = next.x - enemy.pos.x, dy = next.y - enemy.pos.y;
+  const dist = Math.hypot(dx, dy);
+  if (dist < 0.05 && nav.path.length === 0) return null;
+  if (dist > 0) { dx /= dist; dy /= dist; }
+
+  const separation = getSeparation(enemy, others);
+  dx += separation.x;
+  dy += separation.y;
+  const length = Math.hypot(dx, dy);
+  return length > 0 ? { x: dx / length, y: dy / length } : null;
+};
+
+// Remembers where the target was while it is in sight, and hands back where to head for. Once the
+// enemy reaches a last known position without seeing the target again, the trail has gone cold: null.
+export const trackTarget = (enemy: Enemy, target: Vector2, canSee: boolean): Vector2 | null => {
+  const nav = getNav(enemy);
+  if (canSee) {
+    nav.lastKnownTarget = { x: target.x, y: target.y };
+    return target;
+  }
+  const last = nav.lastKnownTarget;
+  if (last && Math.hypot(last.x - enemy.pos.x, last.y - enemy.pos.y) < WAYPOINT_REACHED * 2) nav.lastKnownTarget = null;
+  return nav.lastKnownTarget;
+};
+
+// Something gave the target away without a clear view of it (a bullet, say): hunt towards that spot
+export const alertEnemy = (enemy: Enemy, pos: Vector2) => {
+  getNav(enemy).lastKnownTarget = { x: pos.x, y: pos.y };
+};
+
+// Nearest cell, within maxSteps moves, that the threat can't see. With away set it picks the covered
+// cell furthest from the threat instead, for falling back. Null when there is nowhere to hide.
+export const findCover = (world: NavWorld, from: Vector2, threat: Vector2, maxSteps: number, away = false): Vector2 | null => {
+  const height = world.map[0]?.length ?? 0;
+  const start = { x: Math.floor(from.x), y: Math.floor(from.y) };
+  const seen = new Set([start.x * height + start.y]);
+  let frontier = [start];
+  let best: Vector2 | null = null, bestDist = -1;
+  for (let step = 0; step <= maxSteps && frontier.length > 0; step++) {
+    const next: Vector2[] = [];
+    for (const cell of frontier) {
+      const center = { x: cell.x + 0.5, y: cell.y + 0.5 };
+      if (!hasLineOfSight(center, threat, world.map, world.doors, world.heights)) {
+        if (!away) return center;
+        const dist = Math.hypot(center.x - threat.x, center.y - threat.y);
+        if (dist > bestDist) { best = center; bestDist = dist; }
+      }
+      for (const [dx, dy] of NEIGHBOURS.slice(0, 4)) {
+        const nx = cell.x + dx, ny = cell.y + dy;
+        if (seen.has(nx * height + ny) || !isWalkable(world, nx, ny)) continue;
+        seen.add(nx * height + ny);
+        next.push({ x: nx, y: ny });
+      }
+    }
+    frontier = next;
+  }
+  return best;
+};
+
+// Moves an enemy step cells along dir, one axis at a time so it slides along walls.
+// Returns the closed door it bumped and pushed open, if any, for the caller to play the sound.
+export const walkEnemy = (enemy: Enemy, dir: Vector2, step: number, world: NavWorld, now: number): Door | null => {
+  const { map, doors, heights } = world;
+  const nextX = Math.floor(enemy.pos.x + dir.x * step), nextY = Math.floor(enemy.pos.y + dir.y * step);
+  if (!blocksMovement(map, doors, heights, nextX, Math.floor(enemy.pos.y))) enemy.pos.x += dir.x * step;
+  if (!blocksMovement(map, doors, heights, Math.floor(enemy.pos.x), nextY)) enemy.pos.y += dir.y * step;
+  const door = getDoor(doors, nextX, Math.floor(enemy.pos.y)) || getDoor(doors, Math.floor(enemy.pos.x), nextY);
+  if (!door || door.isOpen) return null;
+  openDoor(door, now);
+  return door;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { CellType, type TextureSource } from '../types';
+import { GUARD_SUIT_COLOR, isPaletteColor, paletteTextureId, remapPalette } from './palette';
+
+const abgr = (r: number, g: number, b: number, a = 255) => ((a << 24) | (b << 16) | (g << 8) | r) >>> 0;
+const rgb = (c: number) => [c & 0xFF, (c >> 8) & 0xFF, (c >> 16) & 0xFF];
+const hex = (color: string) => [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16));
+
+const SUIT = abgr(...(hex(GUARD_SUIT_COLOR) as [number, number, number]));
+const SUIT_SHADOW = abgr(0x0f, 0x1d, 0x45); // Same hue, half as light
+const GREY = abgr(120, 120, 120);
+const SKIN = abgr(224, 172, 105);
+const CLEAR = abgr(0x1e, 0x3a, 0x8a, 0); // Suit-coloured but transparent
+
+const sprite = (...texels: number[]): TextureSource => ({ data: new Uint32Array(texels), width: texels.length, height: 1 });
+
+// Within rounding of the HSL round trip
+const expectColor = (actual: number, expected: number[]) =>
+  rgb(actual).forEach((channel, i) => expect(Math.abs(channel - expected[i]), `channel ${i} of ${rgb(actual)}`).toBeLessThanOrEqual(2));
+
+describe('remapPalette', () => {
+  it('turns the suit colour into the new colour', () => {
+    const [out] = remapPalette(sprite(SUIT), '#b91c1c');
+    expectColor(out, hex('#b91c1c'));
+    expect(out >>> 24).toBe(255);
+  });
+
+  it('keeps the shading of the suit', () => {
+    const [lit, shadow] = remapPalette(sprite(SUIT, SUIT_SHADOW), '#15803d');
+    const lightness = (c: number) => Math.max(...rgb(c)) + Math.min(...rgb(c));
+    expect(lightness(shadow)).toBeLessThan(lightness(lit));
+    expect(rgb(shadow)[1]).toBeGreaterThan(rgb(shadow)[0]); // Still green
+  });
+
+  it('leaves greys, other hues and transparent texels alone', () => {
+    const source = sprite(GREY, SKIN, CLEAR);
+    expect(Array.from(remapPalette(source, '#b91c1c'))).toEqual([GREY, SKIN, CLEAR]);
+  });
+
+  it('can recolour from another base colour', () => {
+    const [out] = remapPalette(sprite(abgr(0xb9, 0x1c, 0x1c)), '#0f766e', '#b91c1c');
+    expectColor(out, hex('#0f766e'));
+  });
+
+  it('returns a copy and leaves the source untouched', () => {
+    const source = sprite(SUIT);
+    expect(remapPalette(source, '#b91c1c')).not.toBe(source.data);
+    expect(source.data[0]).toBe(SUIT);
+  });
+});
+
+describe('palette texture IDs', () => {
+  it('accepts only #rrggbb colours', () => {
+    expect(isPaletteColor('#B91C1C')).toBe(true);
+    expect(isPaletteColor('#fff')).toBe(false);
+    expect(isPaletteColor('red')).toBe(false);
+    expect(isPaletteColor(null)).toBe(false);
+  });
+
+  it('gives every sprite and colour its own ID, clear of the CellType IDs', () => {
+    const ids = [CellType.ENEMY_GUARD, CellType.ENEMY_GUARD_DEAD].flatMap(id => ['#000000', '#b91c1c', '#ffffff'].map(c => paletteTextureId(id, c)));
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(Math.min(...ids)).toBeGreaterThan(Math.max(...Object.values(CellType)));
+  });
+});
@@ -0,0 +1,84 @@
+import { CellType, type Texture, type TextureSource } from '../types';
+import { createCanvas, getContext2D, type CanvasFactory } from './canvas';
+
+// The guard's suit colour. Texels of this hue are what a palette swap recolours.
+export const GUARD_SUIT_COLOR = '#1e3a8a';
+
+// Every sprite a player is drawn with, in all poses
+export const PALETTE_SPRITES = [
+  CellType.ENEMY_GUARD,
+  CellType.ENEMY_GUARD_WALK,
+  CellType.ENEMY_GUARD_PAIN,
+  CellType.ENEMY_GUARD_DYING,
+  CellType.ENEMY_GUARD_DEAD
+];
+
+const PALETTE_ID_BASE = 1 << 20; // Above every CellType, leaving room for the colour below
+const HUE_TOLERANCE = 25 / 360;
+const MIN_SATURATION = 0.35; // Greys (helmet, pack, gun) keep their colour
+
+export const isPaletteColor = (color: unknown): color is string => typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color);
+
+// Where the recoloured copy of a sprite lives in the texture record. The same on every thread, so the
+// render worker and the main thread agree without sharing the textures.
+export const paletteTextureId = (textureId: number, color: string) =>
+  PALETTE_ID_BASE + parseInt(color.slice(1), 16) * 1024 + textureId;
+
+const toHsl = (r: number, g: number, b: number) => {
+  r /= 255; g /= 255; b /= 255;
+  const max = Math.max(r, g, b), min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l };
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return { h: h / 6, s, l };
+};
+
+// Packed ABGR, like texture data
+const fromHsl = (h: number, s: number, l: number, alpha: number) => {
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    t = (t + 1) % 1;
+    const c = t < 1 / 6 ? p + (q - p) * 6 * t : t < 1 / 2 ? q : t < 2 / 3 ? p + (q - p) * (2 / 3 - t) * 6 : p;
+    return Math.round(c * 255);
+  };
+  return ((alpha << 24) | (channel(h - 1 / 3) << 16) | (channel(h) << 8) | channel(h + 1 / 3)) >>> 0;
+};
+
+const parseColor = (color: string) => {
+  const n = parseInt(color.slice(1), 16);
+  return toHsl((n >> 16) & 0xFF, (n >> 8) & 0xFF, n & 0xFF);
+};
+
+// Recolours the suit: texels near the suit hue take the new hue, with saturation and lightness scaled
+// by how far they sit from the suit colour, so shading in pack art survives the swap
+export const remapPalette = (source: TextureSource, color: string, from: string = GUARD_SUIT_COLOR): Uint32Array<ArrayBuffer> => {
+  const src = parseColor(from), dst = parseColor(color);
+  const out = new Uint32Array(source.data.length);
+  for (let i = 0; i < source.data.length; i++) {
+    const c = source.data[i];
+    const alpha = c >>> 24;
+    const { h, s, l } = toHsl(c & 0xFF, (c >> 8) & 0xFF, (c >> 16) & 0xFF);
+    const hueDist = Math.min(Math.abs(h - src.h), 1 - Math.abs(h - src.h));
+    out[i] = alpha === 0 || s < MIN_SATURATION || hueDist > HUE_TOLERANCE
+      ? c
+      : fromHsl(dst.h, Math.min(1, dst.s * s / src.s), Math.min(1, l * dst.l / src.l), alpha);
+  }
+  return out;
+};
+
+// Caches recoloured copies of the player sprites as their own texture entries, once per colour
+export const addPaletteTextures = (textures: Record<number, Texture[]>, color: string, canvasFactory: CanvasFactory = createCanvas) => {
+  if (!isPaletteColor(color) || textures[paletteTextureId(PALETTE_SPRITES[0], color)]) return;
+  for (const id of PALETTE_SPRITES) {
+    textures[paletteTextureId(id, color)] = (textures[id] ?? []).map((texture): Texture => {
+      const data = remapPalette(texture, color);
+      const canvas = canvasFactory(texture.width, texture.height);
+      const pixels = new Uint8ClampedArray(data.buffer);
+      getContext2D(canvas).putImageData(new ImageData(pixels, texture.width, texture.height), 0, 0);
+      return { image: canvas, data, width: texture.width, height: texture.height, fps: texture.fps };
+    });
+  }
+};
@@ -0,0 +1,47 @@
+import type { GameState, Player } from '../types';
+import { FOV, GRAVITY, JUMP_FORCE, MOVE_SPEED } from '../constants';
+import { blocksMovement, getFloorHeight } from './heights';
+
+type PhysicsWorld = Pick<GameState, 'map' | 'doors' | 'heights'>;
+
+// Rotates the view by angle radians, positive to the left
+export const turnPlayer = (player: Player, angle: number) => {
+  const oldDirX = player.dir.x;
+  player.dir.x = player.dir.x * Math.cos(angle) - player.dir.y * Math.sin(angle);
+  player.dir.y = oldDirX * Math.sin(angle) + player.dir.y * Math.cos(angle);
+};
+
+// Eases the FOV scale toward 2x zoom while aiming and keeps the camera plane in step. Returns the new scale.
+export const updateZoom = (player: Player, fovScale: number, isAiming: boolean, dt: number): number => {
+  const next = fovScale + ((isAiming ? FOV / 2 : FOV) - fovScale) * 8.0 * dt;
+  player.plane.x = player.dir.y * next;
+  player.plane.y = -player.dir.x * next;
+  return next;
+};
+
+// Only from the ground
+export const jump = (world: PhysicsWorld, player: Player) => {
+  if (player.vz === 0 && player.z === getFloorHeight(world.map, world.heights, player.pos)) player.vz = JUMP_FORCE;
+};
+
+// Lands on (or steps up to) whatever surface is under the player, ledges included. True when standing on it.
+export const applyGravity = (world: PhysicsWorld, player: Player, dt: number): boolean => {
+  const groundZ = getFloorHeight(world.map, world.heights, player.pos);
+  if (player.z > groundZ || player.vz !== 0) {
+    player.vz -= GRAVITY * dt;
+    player.z += player.vz * dt;
+  }
+  if (player.z <= groundZ) { player.z = groundZ; player.vz = Math.max(0, player.vz); }
+  return player.z === groundZ && player.vz === 0;
+};
+
+// Walks along (dx, dy), full speed from length 1 up, sliding along walls one axis at a time. True when it moved.
+export const movePlayer = (world: PhysicsWorld, player: Player, dx: number, dy: number, dt: number): boolean => {
+  const { map, doors, heights } = world;
+  const len = Math.sqrt(dx * dx + dy * dy);
+  if (len === 0) return false;
+  const move = (MOVE_SPEED * dt * Math.min(1, len)) / len;
+  if (!blocksMovement(map, doors, heights, Math.floor(player.pos.x + dx * move), Math.floor(player.pos.y), player.z)) player.pos.x += dx * move;
+  if (!blocksMovement(map, doors, heights, Math.floor(player.pos.x), Math.floor(player.pos.y + dy * move), player.z)) player.pos.y += dy * move;
+  return true;
+};
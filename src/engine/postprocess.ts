@@ -0,0 +1,117 @@
+import { PostEffect, type PostEffectName, type ScreenEffect } from '../types';
+
+// Rewrites the finished frame (ABGR pixels) in place. scratch is a spare buffer of the same size.
+export type PostEffectFn = (buffer: Uint32Array, scratch: Uint32Array, width: number, height: number, strength: number, time: number) => void;
+
+const luminance = (c: number) => (c & 0xFF) * 0.299 + ((c >> 8) & 0xFF) * 0.587 + ((c >> 16) & 0xFF) * 0.114;
+
+// Blends pixel c towards (r, g, b) by t
+const mix = (c: number, r: number, g: number, b: number, t: number) => {
+  const cr = c & 0xFF, cg = (c >> 8) & 0xFF, cb = (c >> 16) & 0xFF;
+  return 0xFF000000 | ((cb + (b - cb) * t) << 16) | ((cg + (g - cg) * t) << 8) | (cr + (r - cr) * t);
+};
+
+const nightVision: PostEffectFn = (buffer, _scratch, _w, _h, strength, time) => {
+  const seed = Math.floor(time / 50); // Grain changes 20 times a second
+  for (let i = 0; i < buffer.length; i++) {
+    const noise = (((Math.imul(i, 1103515245) + seed * 12345) >>> 24) & 31) - 16;
+    const l = Math.max(0, Math.min(255, luminance(buffer[i]) * 1.8 + noise));
+    buffer[i] = mix(buffer[i], l * 0.3, l, l * 0.25, strength);
+  }
+};
+
+const grayscale: PostEffectFn = (buffer, _scratch, _w, _h, strength) => {
+  for (let i = 0; i < buffer.length; i++) {
+    const l = luminance(buffer[i]);
+    buffer[i] = mix(buffer[i], l, l, l, strength);
+  }
+};
+
+// Red and blue fringes pulled apart horizontally
+const chromatic: PostEffectFn = (buffer, scratch, w, h, strength) => {
+  const shift = Math.max(1, Math.round(strength * w / 160));
+  scratch.set(buffer);
+  for (let y = 0; y < h; y++) {
+    const row = y * w;
+    for (let x = 0; x < w; x++) {
+      const red = scratch[row + Math.min(w - 1, x + shift)] & 0xFF;
+      const blue = scratch[row + Math.max(0, x - shift)] & 0xFF0000;
+      buffer[row + x] = (scratch[row + x] & 0xFF00FF00) | blue | red;
+    }
+  }
+};
+
+// One box-blur pass along a line of length pixels, stride apart
+const blurLine = (src: Uint32Array, dst: Uint32Array, base: number, stride: number, length: number, radius: number) => {
+  const at = (i: number) => src[base + Math.max(0, Math.min(length - 1, i)) * stride];
+  const n = radius * 2 + 1;
+  let r = 0, g = 0, b = 0;
+  for (let i = -radius; i <= radius; i++) {
+    const c = at(i);
+    r += c & 0xFF; g += (c >> 8) & 0xFF; b += (c >> 16) & 0xFF;
+  }
+  for (let i = 0; i < length; i++) {
+    dst[base + i * stride] = 0xFF000000 | ((b / n) << 16) | ((g / n) << 8) | (r / n);
+    const out = at(i - radius), next = at(i + radius + 1);
+    r += (next & 0xFF) - (out & 0xFF);
+    g += ((next >> 8) & 0xFF) - ((out >> 8) & 0xFF);
+    b += ((next >> 16) & 0xFF) - ((out >> 16) & 0xFF);
+  }
+};
+
+// Separable box blur, radius scaled with the frame so it looks the same at any resolution
+const blur: PostEffectFn = (buffer, scratch, w, h, strength) => {
+  const radius = Math.max(1, Math.round(strength * w / 320));
+  for (let y = 0; y < h; y++) blurLine(buffer, scratch, y * w, 1, w, radius);
+  for (let x = 0; x < w; x++) blurLine(scratch, buffer, x, w, h, radius);
+};
+
+const scanlines: PostEffectFn = (buffer, _scratch, w, h, strength) => {
+  const dim = 1 - 0.4 * strength;
+  for (let y = 1; y < h; y += 2) {
+    for (let i = y * w; i < (y + 1) * w; i++) {
+      const c = buffer[i];
+      buffer[i] = 0xFF000000 | ((((c >> 16) & 0xFF) * dim) << 16) | ((((c >> 8) & 0xFF) * dim) << 8) | ((c & 0xFF) * dim);
+    }
+  }
+};
+
+export const POST_EFFECTS: Record<PostEffectName, PostEffectFn> = {
+  [PostEffect.NIGHT_VISION]: nightVision,
+  [PostEffect.GRAYSCALE]: grayscale,
+  [PostEffect.CHROMATIC]: chromatic,
+  [PostEffect.BLUR]: blur,
+  [PostEffect.SCANLINES]: scanlines
+};
+
+// Colour grading first, then lens distortion, with the display's scanlines on top
+const POST_EFFECT_ORDER: PostEffectName[] = [
+  PostEffect.NIGHT_VISION,
+  PostEffect.GRAYSCALE,
+  PostEffect.CHROMATIC,
+  PostEffect.BLUR,
+  PostEffect.SCANLINES
+];
+
+// Effect triggered by a game event, fading out over its duration
+export const addScreenEffect = (effects: ScreenEffect[], id: PostEffectName, strength: number, duration: number, now: number) => {
+  effects.push({ id, strength, duration, expiresAt: now + duration });
+};
+
+export const pruneScreenEffects = (effects: ScreenEffect[], now: number): ScreenEffect[] =>
+  effects.filter(e => e.expiresAt === undefined || e.expiresAt > now);
+
+export const getEffectStrength = (effect: ScreenEffect, now: number) => {
+  if (effect.expiresAt === undefined || !effect.duration) return effect.strength;
+  return effect.strength * Math.max(0, (effect.expiresAt - now) / effect.duration);
+};
+
+// Runs the chain over a frame. Several instances of one effect count once, at the strongest.
+export const applyPostEffects = (buffer: Uint32Array, scratch: Uint32Array, width: number, height: number, effects: ScreenEffect[], time: number) => {
+  const strengths: Partial<Record<PostEffectName, number>> = {};
+  for (const e of effects) strengths[e.id] = Math.max(strengths[e.id] ?? 0, Math.min(1, getEffectStrength(e, time)));
+  for (const id of POST_EFFECT_ORDER) {
+    const strength = strengths[id];
+    if (strength && strength > 0) POST_EFFECTS[id](buffer, scratch, width, height, strength, time);
+  }
+};
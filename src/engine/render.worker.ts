@@ -0,0 +1,51 @@
+import type { Texture } from '../types';
+import { Raycaster } from './Raycaster';
+import { generateTextures } from './textures';
+import { loadTexturePack } from './texturePack';
+import { addPaletteTextures } from './palette';
+import { CanvasRenderTarget } from './canvas';
+import type { RenderWorkerRequest, RenderWorkerResponse, RenderWorld } from './RenderHost';
+
+// Runs the Raycaster off the main thread, drawing straight into the transferred game canvas
+
+let raycaster: Raycaster | null = null;
+let target: CanvasRenderTarget | null = null;
+let textures: Record<number, Texture[]> = {};
+let world: RenderWorld = { map: [], heights: [], lightMap: [], floors: [], ceilings: [] };
+
+self.onmessage = (e: MessageEvent<RenderWorkerRequest>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'init': {
+      raycaster = new Raycaster(msg.width, msg.height);
+      const ctx = msg.canvas.getContext('2d', { alpha: false });
+      if (ctx) target = new CanvasRenderTarget(ctx, msg.width, msg.height);
+      textures = generateTextures();
+      break;
+    }
+    case 'world':
+      world = { map: msg.map, heights: msg.heights, lightMap: msg.lightMap, floors: msg.floors, ceilings: msg.ceilings };
+      break;
+    case 'settings':
+      if (!raycaster) return;
+      raycaster.mode = msg.mode;
+      raycaster.setResolutionScale(msg.scale);
+      break;
+    case 'texturePack':
+      loadTexturePack(msg.url).then(pack => { textures = pack; });
+      break;
+    case 'frame': {
+      // Always answer, the host holds back the next frame until this one is acknowledged
+      try {
+        msg.frame.enemies.forEach(e => { if (e.palette) addPaletteTextures(textures, e.palette); });
+        if (raycaster && target) raycaster.render(target, { ...world, ...msg.frame }, textures, msg.zoom);
+      } finally {
+        // A copy, the raycaster reuses its array next frame
+        const visibleCells = raycaster ? raycaster.visibleCells.slice() : new Uint8Array(0);
+        const response: RenderWorkerResponse = { type: 'rendered', frameTime: raycaster?.frameTime ?? 0, visibleCells };
+        self.postMessage(response, { transfer: [visibleCells.buffer] });
+      }
+      break;
+    }
+  }
+};
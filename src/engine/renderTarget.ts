@@ -0,0 +1,9 @@
+// Where the Raycaster delivers finished frames: a canvas (engine/canvas) or plain memory (engine/headless)
+export interface RenderTarget {
+  readonly width: number; // Display size, frames rendered at a lower internal resolution are scaled up to it
+  readonly height: number;
+  // The frame as RGBA bytes at the internal resolution
+  presentPixels(rgba: Uint8ClampedArray<ArrayBuffer>, width: number, height: number): void;
+  // Canvas mode renders onto a canvas instead. Targets without this only get buffer-mode frames.
+  presentImage?(image: CanvasImageSource, width: number, height: number): void;
+}
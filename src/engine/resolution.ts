@@ -0,0 +1,22 @@
+export const MIN_RESOLUTION_SCALE = 0.5;
+export const MAX_RESOLUTION_SCALE = 1.0;
+export const RESOLUTION_STEP = 0.05;
+export const TARGET_FRAME_TIME = 1000 / 60; // ms
+export const RESOLUTION_CHECK_INTERVAL = 500; // ms between automatic adjustments
+
+const clampScale = (scale: number) =>
+  Math.round(Math.max(MIN_RESOLUTION_SCALE, Math.min(MAX_RESOLUTION_SCALE, scale)) / RESOLUTION_STEP) * RESOLUTION_STEP;
+
+// Next scale for automatic mode. frameInterval is the smoothed time between frames and renderTime the
+// raycaster's own share of it. Frames are capped by vsync, so headroom to scale back up is judged from
+// the render cost alone.
+export const adjustResolutionScale = (
+  scale: number,
+  frameInterval: number,
+  renderTime: number,
+  target: number = TARGET_FRAME_TIME
+): number => {
+  if (frameInterval > target * 1.15) return clampScale(scale - RESOLUTION_STEP);
+  if (frameInterval < target * 1.05 && renderTime < target * 0.45) return clampScale(scale + RESOLUTION_STEP);
+  return scale;
+};
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { CellType, Difficulty, EnemyState, EnemyType, MapActionType, TriggerKind, type MapDefinition, type Player, type Vector2 } from '../types';
+import { FOV } from '../constants';
+import { fireShot } from './combat';
+import { createMapWorld } from './maps';
+import { addEnemy, createSimulation, interactAhead, updateTriggers, type SimWorld, type SimulationEvents } from './simulation';
+import type { SoundManager } from './SoundManager';
+
+// Two rooms joined by a door at 3,3, a switch in the wall at 0,2 and an area trigger over the far room
+const LEVEL: MapDefinition = {
+  version: 1,
+  id: 'sim',
+  name: 'Sim',
+  author: 'tests',
+  grid: [
+    [1, 1, 1, 1, 1, 1, 1],
+    [1, 0, 0, 0, 0, 0, 1],
+    [1, 0, 0, 0, 0, 0, 1],
+    [1, 1, 1, 6, 1, 1, 1],
+    [1, 0, 0, 0, 0, 0, 1],
+    [1, 0, 0, 0, 0, 0, 1],
+    [1, 1, 1, 1, 1, 1, 1]
+  ],
+  playerSpawns: [{ x: 1.5, y: 1.5 }],
+  enemySpawns: [{ x: 5.5, y: 5.5 }],
+  triggers: [
+    { id: 'far-room', kind: TriggerKind.AREA, x0: 4, y0: 1, x1: 5, y1: 5, actions: [{ type: MapActionType.MESSAGE, text: 'Far room', duration: 1000 }] },
+    {
+      id: 'lever', kind: TriggerKind.SWITCH, x: 0, y: 2,
+      actions: [
+        { type: MapActionType.SET_WALL, x: 0, y: 2, cell: CellType.WALL_3 },
+        { type: MapActionType.SPAWN_WAVE, count: 2, spawns: [{ x: 5.5, y: 5.5 }], enemy: EnemyType.GUARD },
+        { type: MapActionType.END_LEVEL, delay: 500 }
+      ]
+    }
+  ]
+};
+
+const createWorld = (): SimWorld => ({
+  ...createMapWorld(LEVEL),
+  enemies: [],
+  items: [],
+  particles: [],
+  decals: {},
+  lights: [],
+  effects: [],
+  lastTime: 0
+});
+
+const createPlayer = (pos: Vector2, dir: Vector2): Player => ({
+  pos, dir, plane: { x: dir.y * FOV, y: -dir.x * FOV }, health: 100, ammo: 0, ammoReserve: 0, z: 0, vz: 0, pitch: 0, weaponIndex: 0
+});
+
+// Records what reaches the host; every sound is a no-op
+const createEvents = () => {
+  const log: string[] = [];
+  const events: SimulationEvents = {
+    sound: new Proxy({}, { get: () => () => {} }) as SoundManager,
+    hurtPlayer: (_player, damage) => log.push(`hurt ${damage}`),
+    showMessage: (text, until) => log.push(`message ${text} until ${until}`),
+    endLevel: text => log.push(`end ${text}`)
+  };
+  return { log, events };
+};
+
+describe('updateTriggers', () => {
+  it('fires area triggers for any player, not just the first', () => {
+    const sim = createSimulation(LEVEL, Difficulty.MEDIUM, 0);
+    const { log, events } = createEvents();
+    const players = [createPlayer({ x: 1.5, y: 1.5 }, { x: 0, y: 1 }), createPlayer({ x: 4.5, y: 2.5 }, { x: 0, y: 1 })];
+    updateTriggers(sim, createWorld(), players, 100, events);
+    expect(log).toEqual(['message Far room until 1100']);
+  });
+
+  it('ignores dead players standing in an area', () => {
+    const sim = createSimulation(LEVEL, Difficulty.MEDIUM, 0);
+    const { log, events } = createEvents();
+    const dead = { ...createPlayer({ x: 4.5, y: 2.5 }, { x: 0, y: 1 }), health: 0 };
+    updateTriggers(sim, createWorld(), [dead], 100, events);
+    expect(log).toEqual([]);
+  });
+});
+
+describe('interactAhead', () => {
+  it('flips a switch ahead and runs its script, waves coming for the nearest player', () => {
+    const sim = createSimulation(LEVEL, Difficulty.MEDIUM, 0);
+    const world = createWorld();
+    const { log, events } = createEvents();
+    const near = createPlayer({ x: 2.5, y: 5.5 }, { x: 0, y: 1 }), user = createPlayer({ x: 1.5, y: 2.5 }, { x: -1, y: 0 });
+    interactAhead(sim, world, user, [user, near], 0, events);
+    updateTriggers(sim, world, [user, near], 0, events);
+
+    expect(world.map[0][2]).toBe(CellType.WALL_3);
+    expect(LEVEL.grid[0][2]).toBe(CellType.WALL_1);
+    expect(world.enemies.map(e => e.state)).toEqual([EnemyState.CHASE, EnemyState.CHASE]);
+    expect(world.enemies[0].nav?.lastKnownTarget).toEqual(near.pos);
+
+    updateTriggers(sim, world, [user, near], 500, events);
+    expect(log).toEqual(['end Level Complete']);
+  });
+
+  it('leaves waves out of matches without enemies', () => {
+    const sim = createSimulation(LEVEL, Difficulty.MEDIUM, 0, false);
+    const world = createWorld();
+    const { events } = createEvents();
+    const user = createPlayer({ x: 1.5, y: 2.5 }, { x: -1, y: 0 });
+    interactAhead(sim, world, user, [user], 0, events);
+    updateTriggers(sim, world, [user], 0, events);
+    expect(world.enemies).toEqual([]);
+  });
+
+  it('opens the facing door, and only closes it when nobody stands in it', () => {
+    const sim = createSimulation(LEVEL, Difficulty.MEDIUM, 0);
+    const world = createWorld();
+    const { events } = createEvents();
+    const user = createPlayer({ x: 2.5, y: 3.5 }, { x: 1, y: 0 });
+    const door = world.doors['3,3'];
+    interactAhead(sim, world, user, [user], 0, events);
+    expect(door.isOpen).toBe(true);
+
+    const blocker = createPlayer({ x: 3.5, y: 3.5 }, { x: 1, y: 0 });
+    interactAhead(sim, world, user, [user, blocker], 10, events);
+    expect(door.isOpen).toBe(true);
+    interactAhead(sim, world, user, [user], 20, events);
+    expect(door.isOpen).toBe(false);
+  });
+});
+
+describe('fireShot', () => {
+  // Looking down the first room at a guard three cells away
+  const setup = (pitch: number) => {
+    const sim = createSimulation(LEVEL, Difficulty.MEDIUM, 0);
+    const world = createWorld();
+    const target = addEnemy(sim, world, { x: 1.5, y: 4.5 }, 0, EnemyType.GUARD);
+    const player = { ...createPlayer({ x: 1.5, y: 1.5 }, { x: 0, y: 1 }), pitch };
+    return { world, target, hit: fireShot(world, player, world.enemies, 100, FOV, 0) };
+  };
+
+  it('hits the body through the middle of the crosshair and the head near the top', () => {
+    const body = setup(0);
+    expect(body.hit).toMatchObject({ target: body.target, dist: 3, isHead: false });
+    expect(setup(12).hit?.isHead).toBe(true);
+  });
+
+  it('misses a sprite the crosshair is above, leaving a bullet hole on the wall', () => {
+    const { hit, world } = setup(20);
+    expect(hit).toBeNull();
+    expect(Object.values(world.decals).flat().map(d => d.textureId)).toEqual([CellType.DECAL_BULLET]);
+  });
+
+  it('skips the dead', () => {
+    const { world, target } = setup(0);
+    target.health = 0;
+    expect(fireShot(world, createPlayer({ x: 1.5, y: 1.5 }, { x: 0, y: 1 }), world.enemies, 100, FOV, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,244 @@
+import {
+  CellType,
+  EnemyAnimation,
+  EnemyState,
+  MapActionType,
+  MapSound,
+  type DifficultyLevel,
+  type Door,
+  type Enemy,
+  type EnemyTypeName,
+  type GameState,
+  type Item,
+  type MapAction,
+  type MapDefinition,
+  type Player,
+  type Vector2
+} from '../types';
+import { CLIP_SIZE, MAX_ENEMIES, MAX_RESERVE, SPAWN_INTERVAL } from '../constants';
+import { CORPSE_TIME, playAnimation, updateAnimation } from './animation';
+import { assignPatrol, thinkEnemy } from './behavior';
+import { spillBlood } from './decals';
+import { getDoor, isDoorOccupied, openDoor, updateDoors } from './doors';
+import { createEnemy, getAiProfile, getEnemyAttack, getEnemyDef, pickEnemyType } from './enemies';
+import { hasLineOfSight } from './hitscan';
+import { addDynamicLight, pruneLights } from './lighting';
+import { alertEnemy, walkEnemy } from './navigation';
+import { DEFAULT_MESSAGE_TIME, activateSwitch, createTriggerRunner, setWallCell, takeDueActions, updateAreaTriggers, type TriggerRunner } from './triggers';
+import type { SoundManager } from './SoundManager';
+
+export const PICKUP_RADIUS = 0.8;
+export const ITEM_LIFETIME = 5000; // ms a dropped item lies around before it despawns
+
+// The shared level every player is in; GameState adds the one local player and their score
+export type SimWorld = Omit<GameState, 'player' | 'score'>;
+
+// A level in progress, apart from its world: the script and the enemy spawner
+export interface Simulation {
+  level: MapDefinition;
+  difficulty: DifficultyLevel;
+  hasEnemies: boolean; // False in versus, where SPAWN_WAVE actions are skipped
+  triggers: TriggerRunner;
+  startTime: number | null; // Set by the first enemy; later archetypes unlock with time
+  lastSpawnTime: number;
+  enemyIdCounter: number;
+  itemIdCounter: number;
+}
+
+// How the simulation reaches the screen and speakers of whoever runs it
+export interface SimulationEvents {
+  sound: SoundManager;
+  hurtPlayer: (player: Player, damage: number, now: number) => void;
+  showMessage: (text: string, until: number) => void;
+  endLevel: (text: string) => void;
+}
+
+export const createSimulation = (level: MapDefinition, difficulty: DifficultyLevel, lastSpawnTime: number, hasEnemies: boolean = true): Simulation => ({
+  level,
+  difficulty,
+  hasEnemies,
+  triggers: createTriggerRunner(),
+  startTime: null,
+  lastSpawnTime,
+  enemyIdCounter: 0,
+  itemIdCounter: 0
+});
+
+const isAlive = (player: Player) => player.health > 0;
+
+const doorCenter = (door: Door): Vector2 => ({ x: door.mapX + 0.5, y: door.mapY + 0.5 });
+
+// Everything that holds a door open: players still standing and live enemies
+export const getOccupants = (world: SimWorld, players: Player[]): Vector2[] =>
+  [...players.filter(isAlive).map(p => p.pos), ...world.enemies.filter(e => e.health > 0).map(e => e.pos)];
+
+const getNearest = (players: Player[], pos: Vector2): { player: Player | null, dist: number } => {
+  let nearest: Player | null = null, dist = Infinity;
+  for (const player of players) {
+    const d = Math.hypot(player.pos.x - pos.x, player.pos.y - pos.y);
+    if (isAlive(player) && d < dist) { nearest = player; dist = d; }
+  }
+  return { player: nearest, dist };
+};
+
+export const addEnemy = (sim: Simulation, world: SimWorld, point: Vector2, now: number, type?: EnemyTypeName): Enemy => {
+  sim.startTime ??= now;
+  const enemy = createEnemy(type ?? pickEnemyType(sim.difficulty, now - sim.startTime, world.enemies), ++sim.enemyIdCounter, point, now);
+  assignPatrol(enemy, sim.level.patrols, now);
+  world.enemies.push(enemy);
+  return enemy;
+};
+
+// Brings in a new enemy every SPAWN_INTERVAL, at a spawn point out of every player's face
+export const spawnEnemy = (sim: Simulation, world: SimWorld, players: Player[], now: number) => {
+  const { enemySpawns } = sim.level;
+  if (world.enemies.filter(e => e.health > 0).length >= MAX_ENEMIES) return;
+  if (now - sim.lastSpawnTime < SPAWN_INTERVAL) return;
+  if (enemySpawns.length === 0) return;
+  const point = enemySpawns[Math.floor(Math.random() * enemySpawns.length)];
+  if (getNearest(players, point).dist < 5.0) return;
+  addEnemy(sim, world, point, now);
+  sim.lastSpawnTime = now;
+};
+
+// One AI tick: corpses fade, the dying finish falling, everyone else goes after the nearest player
+export const updateAI = (sim: Simulation, world: SimWorld, players: Player[], dt: number, now: number, events: SimulationEvents) => {
+  const { map, doors, heights } = world;
+
+  // Corpses stay on the floor for a while after their death sequence
+  world.enemies = world.enemies.filter(e => e.state !== EnemyState.DEAD || e.animationTimer < CORPSE_TIME);
+  world.enemies.forEach(enemy => {
+    const def = getEnemyDef(enemy);
+    if (enemy.state === EnemyState.DYING || enemy.state === EnemyState.DEAD) {
+      if (updateAnimation(enemy, dt, false, def.animations)) {
+        enemy.state = EnemyState.DEAD;
+        spillBlood(world.decals, enemy.pos, now);
+      }
+      return;
+    }
+    const { player: target, dist } = getNearest(players, enemy.pos);
+    if (!target) {
+      updateAnimation(enemy, dt, false, def.animations);
+      return;
+    }
+    const startX = enemy.pos.x, startY = enemy.pos.y;
+    const canSee = hasLineOfSight(enemy.pos, target.pos, map, doors, heights);
+    const intent = thinkEnemy(enemy, { target: target.pos, canSee, dist }, getAiProfile(def, sim.difficulty), world, dt, now);
+    if (intent.move) {
+      // Enemies on the move push closed doors open
+      const door = walkEnemy(enemy, intent.move, def.speed * intent.speed * dt, world, now);
+      if (door) events.sound.playDoor(doorCenter(door));
+    }
+
+    const attack = getEnemyAttack(def, sim.difficulty);
+    if (intent.fire && dist < def.weapon.range && now - enemy.lastAttackTime > attack.cooldown) {
+      enemy.lastAttackTime = now;
+      playAnimation(enemy, EnemyAnimation.ATTACK);
+      if (!def.weapon.isMelee) {
+        enemy.lastShotAt = now;
+        addDynamicLight(world.lights, enemy.pos, 0.8, 4.0, 100, now);
+        events.sound.playEnemyShoot(enemy.pos);
+      }
+      if (Math.random() < def.accuracy) events.hurtPlayer(target, attack.damage, now);
+    }
+
+    updateAnimation(enemy, dt, enemy.pos.x !== startX || enemy.pos.y !== startY, def.animations);
+  });
+};
+
+// The door in the player's cell, else the one directly ahead
+export const getFacingDoor = (doors: Record<string, Door>, player: Player): Door | undefined =>
+  getDoor(doors, Math.floor(player.pos.x), Math.floor(player.pos.y))
+  || getDoor(doors, Math.floor(player.pos.x + player.dir.x), Math.floor(player.pos.y + player.dir.y));
+
+// The use key: flips a switch directly ahead, otherwise opens or closes the facing door unless someone stands in it
+export const interactAhead = (sim: Simulation, world: SimWorld, player: Player, players: Player[], now: number, events: SimulationEvents) => {
+  const aheadX = Math.floor(player.pos.x + player.dir.x), aheadY = Math.floor(player.pos.y + player.dir.y);
+  if (activateSwitch(sim.triggers, sim.level.triggers ?? [], aheadX, aheadY, now)) {
+    events.sound.playSwitch({ x: aheadX + 0.5, y: aheadY + 0.5 });
+    return;
+  }
+  const door = getFacingDoor(world.doors, player);
+  if (!door) return;
+  if (!door.isOpen) openDoor(door, now);
+  else if (!isDoorOccupied(door, getOccupants(world, players))) door.isOpen = false;
+  else return;
+  events.sound.playDoor(doorCenter(door));
+};
+
+// Carries out one scripted map action (see engine/triggers)
+export const runMapAction = (sim: Simulation, world: SimWorld, players: Player[], action: MapAction, now: number, events: SimulationEvents) => {
+  const { sound } = events;
+  switch (action.type) {
+    case MapActionType.OPEN_DOOR: {
+      const door = getDoor(world.doors, action.x, action.y);
+      if (door && !door.isOpen) {
+        openDoor(door, now);
+        sound.playDoor(doorCenter(door));
+      }
+      break;
+    }
+    case MapActionType.SPAWN_WAVE: {
+      if (!sim.hasEnemies) break;
+      // A wave comes in knowing where the nearest player is
+      const spawns = action.spawns?.length ? action.spawns : sim.level.enemySpawns;
+      for (let i = 0; i < action.count && spawns.length > 0; i++) {
+        const enemy = addEnemy(sim, world, spawns[i % spawns.length], now, action.enemy);
+        enemy.state = EnemyState.CHASE;
+        const { player } = getNearest(players, enemy.pos);
+        if (player) alertEnemy(enemy, player.pos);
+      }
+      break;
+    }
+    case MapActionType.SET_WALL:
+      world.map = setWallCell(world.map, action.x, action.y, action.cell);
+      break;
+    case MapActionType.PLAY_SOUND: {
+      const pos = action.x !== undefined && action.y !== undefined ? { x: action.x + 0.5, y: action.y + 0.5 } : null;
+      if (action.sound === MapSound.DOOR) sound.playDoor(pos);
+      else if (action.sound === MapSound.SWITCH) sound.playSwitch(pos);
+      else if (action.sound === MapSound.ALARM) sound.playAlarm();
+      else if (action.sound === MapSound.PICKUP) sound.playAmmoPickup();
+      else if (action.sound === MapSound.HEAL) sound.playHeal();
+      else if (action.sound === MapSound.GUNSHOT) sound.playEnemyShoot(pos);
+      break;
+    }
+    case MapActionType.MESSAGE:
+      events.showMessage(action.text, now + (action.duration ?? DEFAULT_MESSAGE_TIME));
+      break;
+    case MapActionType.END_LEVEL:
+      events.endLevel(action.text ?? 'Level Complete');
+      break;
+  }
+};
+
+// Fires area triggers a player walked into this tick, then runs whatever actions are due
+export const updateTriggers = (sim: Simulation, world: SimWorld, players: Player[], now: number, events: SimulationEvents) => {
+  updateAreaTriggers(sim.triggers, sim.level.triggers ?? [], players.filter(isAlive).map(p => p.pos), now);
+  for (const action of takeDueActions(sim.triggers, now)) runMapAction(sim, world, players, action, now, events);
+};
+
+export const canPickUp = (player: Player, item: Item) =>
+  Math.hypot(player.pos.x - item.pos.x, player.pos.y - item.pos.y) < PICKUP_RADIUS;
+
+// Health orbs heal, anything else is ammo
+export const collectItems = (world: SimWorld, player: Player, now: number, events: SimulationEvents) => {
+  const { items } = world;
+  for (let i = items.length - 1; i >= 0; i--) {
+    const item = items[i];
+    if (!canPickUp(player, item)) continue;
+    if (item.textureId === CellType.HEALTH_ORB) { events.sound.playHeal(); player.health = Math.min(100, player.health + 30); }
+    else { events.sound.playAmmoPickup(); player.ammoReserve = Math.min(MAX_RESERVE, player.ammoReserve + CLIP_SIZE * 2); }
+    addDynamicLight(world.lights, item.pos, 0.8, 2.5, 300, now);
+    items.splice(i, 1);
+  }
+};
+
+// The rest of the world's tick: drops despawn, doors slide, particles fade and muzzle flashes go out
+export const updateWorld = (world: SimWorld, players: Player[], dt: number, now: number, autoCloseDoors: boolean = true) => {
+  world.items = world.items.filter(item => item.isPlaced || now - item.spawnTime < ITEM_LIFETIME);
+  updateDoors(world.doors, dt, now, getOccupants(world, players), autoCloseDoors);
+  world.particles.forEach(p => p.life -= dt * 2);
+  world.particles = world.particles.filter(p => p.life > 0);
+  world.lights = pruneLights(world.lights, now);
+};
@@ -0,0 +1,29 @@
+import { CellType, type TextureSource, type Vector2 } from '../types';
+import { paletteTextureId } from './palette';
+
+export const SPRITE_ANGLES = 8;
+
+// Sprite sets drawn from every view angle. Their Texture[] holds SPRITE_ANGLES entries per frame,
+// starting with the front view: 2 = facing screen left, 4 = back, 6 = facing screen right.
+export const DIRECTIONAL_SPRITES = new Set<number>([CellType.ENEMY_GUARD, CellType.ENEMY_GUARD_WALK]);
+
+// Which of the 8 views the viewer sees, from the angle between the entity's facing and the viewer
+export const getViewAngleIndex = (viewer: Vector2, pos: Vector2, dir: Vector2): number => {
+  const toViewer = Math.atan2(viewer.y - pos.y, viewer.x - pos.x);
+  let rel = (toViewer - Math.atan2(dir.y, dir.x)) % (Math.PI * 2);
+  if (rel < 0) rel += Math.PI * 2;
+  return Math.round(rel / (Math.PI * 2 / SPRITE_ANGLES)) % SPRITE_ANGLES;
+};
+
+export const getSpriteTexture = <T extends TextureSource>(
+  textures: Record<number, T[]>,
+  textureId: number,
+  frame: number = 0,
+  angle: number = 0,
+  palette?: string
+): T | undefined => {
+  // Falls back to the original colours until the recoloured copy exists
+  const frames = (palette ? textures[paletteTextureId(textureId, palette)] : undefined) ?? textures[textureId];
+  if (!frames) return undefined;
+  return DIRECTIONAL_SPRITES.has(textureId) ? frames[frame * SPRITE_ANGLES + angle] ?? frames[angle] : frames[frame];
+};
@@ -0,0 +1,16 @@
+import { CellType, type SurfaceRegion } from '../types';
+
+// Builds the floor and ceiling texture layers for a map. Later regions win where they overlap.
+export const createSurfaceMaps = (map: number[][], regions: SurfaceRegion[] = []): { floors: number[][], ceilings: number[][] } => {
+  const floors = map.map(row => row.map((): number => CellType.FLOOR));
+  const ceilings = map.map(row => row.map((): number => CellType.CEILING));
+  for (const r of regions) {
+    for (let x = Math.max(0, r.x0); x <= Math.min(map.length - 1, r.x1); x++) {
+      for (let y = Math.max(0, r.y0); y <= Math.min(map[x].length - 1, r.y1); y++) {
+        if (r.floor !== undefined) floors[x][y] = r.floor;
+        if (r.ceiling !== undefined) ceilings[x][y] = r.ceiling;
+      }
+    }
+  }
+  return { floors, ceilings };
+};
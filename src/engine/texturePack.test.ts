@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CellType } from '../types';
+import { validateTexturePack, type TexturePackManifest } from './texturePack';
+
+const frame = (x: number, y: number, size = 64) => ({ x, y, width: size, height: size });
+
+// A 256x128 atlas with a brick wall and a two-frame animated wall
+const pack = (textures: TexturePackManifest['textures']): TexturePackManifest => ({ version: 1, image: 'atlas.png', textures });
+const VALID = pack({
+  [CellType.WALL_1]: { frames: [frame(0, 0)] },
+  [CellType.WALL_2]: { frames: [frame(64, 0), frame(128, 0)], fps: 4 }
+});
+
+// Loose input, as read from a manifest file
+const check = (manifest: object) => validateTexturePack(manifest as TexturePackManifest, 256, 128);
+
+describe('validateTexturePack', () => {
+  it('accepts a pack that fits its atlas', () => {
+    expect(check(VALID)).toEqual({});
+  });
+
+  it('rejects the whole manifest for a wrong version or missing fields', () => {
+    expect(check({ ...VALID, version: 2 })).toEqual({ manifest: ['unsupported version 2, expected 1'] });
+    expect(check({ version: 1, textures: {} })).toEqual({ manifest: ['needs an image path and a textures object'] });
+    expect(check(null as unknown as object)).toEqual({ manifest: ['unsupported version undefined, expected 1'] });
+  });
+
+  it('reports problems per texture ID so the rest still loads', () => {
+    const problems = check(pack({
+      ...VALID.textures,
+      [CellType.WALL_3]: { frames: [frame(192, 64, 48)] },
+      999: { frames: [frame(0, 64)] }
+    }));
+    expect(Object.keys(problems).sort()).toEqual([String(CellType.WALL_3), '999']);
+    expect(problems[CellType.WALL_3]).toEqual([`${CellType.WALL_3} frame 0: 48x48 is not a power of two`]);
+    expect(problems[999]).toEqual(['999: not a CellType ID']);
+  });
+
+  it('needs frames with whole-number rectangles inside the atlas', () => {
+    const id = CellType.WALL_1;
+    expect(check(pack({ [id]: { frames: [] } }))).toEqual({ [id]: [`${id}: needs at least one frame`] });
+    expect(check(pack({ [id]: { frames: [{ x: 0.5, y: 0, width: 64, height: 64 }] } }))).toEqual({
+      [id]: [`${id} frame 0: x, y, width and height must be whole numbers`]
+    });
+    expect(check(pack({ [id]: { frames: [frame(224, 0)] } }))).toEqual({ [id]: [`${id} frame 0: outside the 256x128 atlas`] });
+    expect(check(pack({ [id]: { frames: [frame(0, -64)] } }))).toEqual({ [id]: [`${id} frame 0: outside the 256x128 atlas`] });
+  });
+
+  it('needs every animation frame the same size and a positive fps', () => {
+    const id = CellType.WALL_2;
+    expect(check(pack({ [id]: { frames: [frame(0, 0), frame(64, 0, 32)], fps: 0 } }))).toEqual({
+      [id]: [`${id}: fps must be a positive number`, `${id} frame 1: size differs from frame 0`]
+    });
+  });
+});
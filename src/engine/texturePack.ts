@@ -0,0 +1,105 @@
+import { CellType, type Texture } from '../types';
+import { createCanvas, getContext2D, type CanvasFactory } from './canvas';
+import { generateTextures } from './textures';
+
+// One frame's rectangle in the atlas, in pixels
+export interface TexturePackFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TexturePackEntry {
+  frames: TexturePackFrame[];
+  fps?: number; // Animation speed for walls with several frames
+}
+
+// manifest.json next to the atlas. Keys of `textures` are CellType IDs.
+export interface TexturePackManifest {
+  version: number;
+  image: string; // Atlas path, relative to the manifest
+  textures: Record<string, TexturePackEntry>;
+}
+
+export const TEXTURE_PACK_VERSION = 1;
+
+const KNOWN_IDS = new Set<number>(Object.values(CellType));
+
+const isPowerOfTwo = (n: number) => Number.isInteger(n) && n > 0 && (n & (n - 1)) === 0;
+
+// Problems with one entry, empty when it can be loaded
+const validateEntry = (id: string, entry: TexturePackEntry, atlasWidth: number, atlasHeight: number): string[] => {
+  const errors: string[] = [];
+  if (!KNOWN_IDS.has(Number(id))) errors.push(`${id}: not a CellType ID`);
+  if (!Array.isArray(entry?.frames) || entry.frames.length === 0) return [...errors, `${id}: needs at least one frame`];
+  if (entry.fps !== undefined && !(typeof entry.fps === 'number' && entry.fps > 0)) errors.push(`${id}: fps must be a positive number`);
+
+  entry.frames.forEach((f, i) => {
+    const where = `${id} frame ${i}`;
+    if (![f?.x, f?.y, f?.width, f?.height].every(Number.isInteger)) {
+      errors.push(`${where}: x, y, width and height must be whole numbers`);
+      return;
+    }
+    // The floor caster wraps texture coordinates with `& (size - 1)`
+    if (!isPowerOfTwo(f.width) || !isPowerOfTwo(f.height)) errors.push(`${where}: ${f.width}x${f.height} is not a power of two`);
+    if (f.x < 0 || f.y < 0 || f.x + f.width > atlasWidth || f.y + f.height > atlasHeight) errors.push(`${where}: outside the ${atlasWidth}x${atlasHeight} atlas`);
+    if (f.width !== entry.frames[0].width || f.height !== entry.frames[0].height) errors.push(`${where}: size differs from frame 0`);
+  });
+  return errors;
+};
+
+// Checks a manifest against its atlas. Entries with problems are reported per ID so the rest of the pack still loads.
+export const validateTexturePack = (manifest: TexturePackManifest, atlasWidth: number, atlasHeight: number): Record<string, string[]> => {
+  const problems: Record<string, string[]> = {};
+  if (manifest?.version !== TEXTURE_PACK_VERSION) problems.manifest = [`unsupported version ${manifest?.version}, expected ${TEXTURE_PACK_VERSION}`];
+  else if (typeof manifest.image !== 'string' || !manifest.textures || typeof manifest.textures !== 'object') problems.manifest = ['needs an image path and a textures object'];
+  else {
+    for (const [id, entry] of Object.entries(manifest.textures)) {
+      const errors = validateEntry(id, entry, atlasWidth, atlasHeight);
+      if (errors.length > 0) problems[id] = errors;
+    }
+  }
+  return problems;
+};
+
+// Copies one atlas rectangle out into its own texture
+const sliceFrame = (atlas: ImageBitmap, frame: TexturePackFrame, fps: number | undefined, canvasFactory: CanvasFactory): Texture => {
+  const canvas = canvasFactory(frame.width, frame.height);
+  const ctx = getContext2D(canvas);
+  ctx.imageSmoothingEnabled = false;
+  ctx.clearRect(0, 0, frame.width, frame.height);
+  ctx.drawImage(atlas, frame.x, frame.y, frame.width, frame.height, 0, 0, frame.width, frame.height);
+  const data = new Uint32Array(ctx.getImageData(0, 0, frame.width, frame.height).data.buffer);
+  return { image: canvas, data, width: frame.width, height: frame.height, fps };
+};
+
+// Loads a texture pack over the procedural textures. IDs the pack leaves out, or gets wrong, keep their procedural art,
+// and a pack that fails to load entirely leaves the procedural set as it is.
+export const loadTexturePack = async (manifestUrl: string, canvasFactory: CanvasFactory = createCanvas): Promise<Record<number, Texture[]>> => {
+  const textures = generateTextures(canvasFactory);
+  try {
+    const manifestResponse = await fetch(manifestUrl);
+    if (!manifestResponse.ok) throw new Error(`manifest request failed with ${manifestResponse.status}`);
+    const manifest: TexturePackManifest = await manifestResponse.json();
+
+    const imageUrl = new URL(String(manifest.image), new URL(manifestUrl, self.location.href)).href;
+    const imageResponse = await fetch(imageUrl);
+    if (!imageResponse.ok) throw new Error(`atlas request failed with ${imageResponse.status}`);
+    const atlas = await createImageBitmap(await imageResponse.blob());
+
+    const problems = validateTexturePack(manifest, atlas.width, atlas.height);
+    if (problems.manifest) throw new Error(problems.manifest.join(', '));
+    for (const [id, entry] of Object.entries(manifest.textures)) {
+      if (problems[id]) {
+        console.warn(`Texture pack ${manifestUrl}: skipping`, problems[id].join('; '));
+        continue;
+      }
+      textures[Number(id)] = entry.frames.map(frame => sliceFrame(atlas, frame, entry.fps, canvasFactory));
+    }
+    atlas.close();
+  } catch (e) {
+    console.warn(`Texture pack ${manifestUrl} unavailable, using procedural textures`, e);
+  }
+  return textures;
+};
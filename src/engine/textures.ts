@@ -1,30 +1,38 @@
 
 import { CellType, type Texture } from '../types';
+import { createCanvas, getContext2D, type CanvasFactory } from './canvas';
 
 const TEX_WIDTH = 64;
 const TEX_HEIGHT = 64;
+const SKY_WIDTH = 512;
+const SKY_HEIGHT = 128;
 
-const createTexture = (drawFn: (ctx: CanvasRenderingContext2D) => void): Texture => {
-  const canvas = document.createElement('canvas');
-  canvas.width = TEX_WIDTH;
-  canvas.height = TEX_HEIGHT;
-  const ctx = canvas.getContext('2d');
+// Sizes must be powers of two, the floor caster wraps texture coordinates with a bit mask
+const createTexture = (
+  drawFn: (ctx: CanvasRenderingContext2D) => void,
+  canvasFactory: CanvasFactory,
+  width: number = TEX_WIDTH,
+  height: number = TEX_HEIGHT
+): Texture => {
+  const canvas = canvasFactory(width, height);
+  // OffscreenCanvas contexts (render worker) share the drawing API the draw functions use
+  const ctx = getContext2D(canvas) as CanvasRenderingContext2D;
   if (ctx) {
     ctx.imageSmoothingEnabled = false;
-    ctx.clearRect(0, 0, TEX_WIDTH, TEX_HEIGHT);
+    ctx.clearRect(0, 0, width, height);
     drawFn(ctx);
   }
-  const imgData = ctx!.getImageData(0, 0, TEX_WIDTH, TEX_HEIGHT).data;
+  const imgData = ctx!.getImageData(0, 0, width, height).data;
   const uint32Data = new Uint32Array(imgData.buffer);
 
-  return { image: canvas, data: uint32Data, width: TEX_WIDTH, height: TEX_HEIGHT };
+  return { image: canvas, data: uint32Data, width, height };
 };
 
-export const generateTextures = (): Record<number, Texture[]> => {
+export const generateTextures = (canvasFactory: CanvasFactory = createCanvas): Record<number, Texture[]> => {
   const textures: Record<number, Texture[]> = {};
 
-  const addTex = (id: number, drawFns: ((ctx: CanvasRenderingContext2D) => void)[]) => {
-    textures[id] = drawFns.map(fn => createTexture(fn));
+  const addTex = (id: number, drawFns: ((ctx: CanvasRenderingContext2D) => void)[], width?: number, height?: number) => {
+    textures[id] = drawFns.map(fn => createTexture(fn, canvasFactory, width, height));
   };
 
   // --- WALL 1: BRIGHT BRICK ---
@@ -83,11 +91,28 @@ export const generateTextures = (): Record<number, Texture[]> => {
     ctx.fillStyle = '#444444';
     ctx.fillRect(0, 0, 64, 64);
     ctx.clearRect(12, 12, 40, 40); // Actual transparency for window
+    ctx.fillStyle = 'rgba(170, 210, 255, 0.12)'; // Faint glass tint over whatever is behind
+    ctx.fillRect(12, 12, 40, 40);
     ctx.strokeStyle = '#666666';
     ctx.lineWidth = 4;
     ctx.strokeRect(10, 10, 44, 44);
   }]);
 
+  // --- SLIDING DOOR: Steel slab with handle recess ---
+  addTex(CellType.DOOR, [(ctx) => {
+    ctx.fillStyle = '#5b6b7a';
+    ctx.fillRect(0, 0, 64, 64);
+    ctx.fillStyle = '#718396';
+    ctx.fillRect(4, 4, 56, 26);
+    ctx.fillRect(4, 34, 56, 26);
+    ctx.fillStyle = '#3b4652';
+    ctx.fillRect(0, 30, 64, 4);
+    ctx.fillStyle = '#facc15'; // Hazard strip on the leading edge
+    ctx.fillRect(0, 0, 6, 64);
+    ctx.fillStyle = '#1f2937';
+    ctx.fillRect(10, 26, 4, 12); // Handle
+  }]);
+
   // --- FLOOR & CEILING (Bright) ---
   addTex(CellType.FLOOR, [(ctx) => {
     ctx.fillStyle = '#555555';
@@ -104,6 +129,63 @@ export const generateTextures = (): Record<number, Texture[]> => {
     ctx.fillRect(0, 30, 64, 4);
   }]);
 
+  // --- FLOOR MATERIALS ---
+  addTex(CellType.FLOOR_TILE, [(ctx) => {
+    for (let y = 0; y < 64; y += 16) {
+      for (let x = 0; x < 64; x += 16) {
+        ctx.fillStyle = ((x + y) / 16) % 2 === 0 ? '#6b7280' : '#4b5563';
+        ctx.fillRect(x, y, 16, 16);
+      }
+    }
+    ctx.fillStyle = '#2f5a2f'; // Slime seeping through the grout
+    ctx.fillRect(0, 31, 64, 2);
+    ctx.fillRect(31, 0, 2, 64);
+  }]);
+
+  addTex(CellType.FLOOR_GRASS, [(ctx) => {
+    ctx.fillStyle = '#3f6b2a';
+    ctx.fillRect(0, 0, 64, 64);
+    // Fixed scatter so every worker and reload generates the same grass
+    for (let i = 0; i < 160; i++) {
+      const x = (i * 37) % 64, y = (i * 23 + (i >> 3)) % 64;
+      ctx.fillStyle = i % 3 === 0 ? '#5a8f3a' : '#2f5220';
+      ctx.fillRect(x, y, 1, 3);
+    }
+  }]);
+
+  addTex(CellType.FLOOR_WOOD, [(ctx) => {
+    ctx.fillStyle = '#6b4423';
+    ctx.fillRect(0, 0, 64, 64);
+    ctx.fillStyle = '#4a2f17';
+    for (let x = 0; x < 64; x += 16) {
+      ctx.fillRect(x, 0, 1, 64);
+      ctx.fillRect(x + 8, ((x / 16) * 24) % 64, 8, 1); // Staggered board ends
+    }
+  }]);
+
+  // --- SKY: Panorama wrapped once around the horizon ---
+  addTex(CellType.SKY, [(ctx) => {
+    const gradient = ctx.createLinearGradient(0, 0, 0, SKY_HEIGHT);
+    gradient.addColorStop(0, '#0b1d4a');
+    gradient.addColorStop(0.7, '#4a6fa5');
+    gradient.addColorStop(1, '#d8a47f');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, SKY_WIDTH, SKY_HEIGHT);
+    // Clouds
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
+    for (let i = 0; i < 12; i++) {
+      const x = (i * 83) % SKY_WIDTH, y = 20 + (i * 29) % 50;
+      ctx.fillRect(x, y, 40 + (i % 4) * 12, 4);
+      ctx.fillRect(x + 8, y - 3, 24, 3);
+    }
+    // Distant hills along the bottom edge, which meets the horizon
+    ctx.fillStyle = '#1f2d3a';
+    for (let x = 0; x < SKY_WIDTH; x++) {
+      const hill = 10 + Math.sin(x * Math.PI * 2 / SKY_WIDTH * 3) * 6 + Math.sin(x * Math.PI * 2 / SKY_WIDTH * 7) * 3;
+      ctx.fillRect(x, SKY_HEIGHT - hill, 1, hill);
+    }
+  }], SKY_WIDTH, SKY_HEIGHT);
+
   // --- HEALTH ORB: Clean and Borderless ---
   addTex(CellType.HEALTH_ORB, [(ctx) => {
     ctx.fillStyle = '#ffffff';
@@ -126,23 +208,115 @@ export const generateTextures = (): Record<number, Texture[]> => {
     ctx.fill();
   }]);
 
-  // --- ENEMY GUARD: Clean design without black outlines ---
-  addTex(CellType.ENEMY_GUARD, [(ctx) => {
+  // --- ENEMY GUARD: Clean design without black outlines, one view per angle (see sprites.ts) ---
+  // Views 0-4 run front -> back with the guard turned towards screen right; the left-facing views are mirrored.
+  // stride: 0 = standing, 1/2 = alternate legs forward. gun: 0 = lowered, 1 = aimed, 2 = firing
+  const drawGuard = (view: number, stride: number = 0, gun: number = 0) => (ctx: CanvasRenderingContext2D) => {
+    const bodyLeft = [18, 20, 24, 20, 18][view];
+    const bodyWidth = [28, 26, 18, 26, 28][view];
     ctx.fillStyle = '#1e3a8a'; // Blue suit
-    ctx.fillRect(18, 18, 28, 32);
-    ctx.fillStyle = '#475569'; // Grey details
-    ctx.fillRect(20, 20, 24, 18);
+    ctx.fillRect(bodyLeft, 18, bodyWidth, 32);
+    ctx.fillStyle = '#475569'; // Grey details, the back plate reads as a pack from behind
+    if (view < 3) ctx.fillRect(bodyLeft + 2, 20, bodyWidth - 4 - (view === 2 ? 6 : 0), 18);
+    else ctx.fillRect(bodyLeft + 4, 20, bodyWidth - 8, 24);
     ctx.fillStyle = '#64748b'; // Lighter helmet
-    ctx.fillRect(24, 6, 16, 12);
-    ctx.fillStyle = '#ff3333'; // Bright Visor
-    ctx.fillRect(24, 10, 16, 4);
+    ctx.fillRect(view === 2 ? 25 : 24, 6, view === 2 ? 14 : 16, 12);
+    ctx.fillStyle = '#ff3333'; // Bright Visor, slides round with the head and is hidden from behind
+    if (view === 0) ctx.fillRect(24, 10, 16, 4);
+    else if (view === 1) ctx.fillRect(29, 10, 11, 4);
+    else if (view === 2) ctx.fillRect(35, 10, 4, 4);
     ctx.fillStyle = '#1e3a8a';
-    ctx.fillRect(20, 50, 8, 10);
-    ctx.fillRect(36, 50, 8, 10);
+    if (view === 2) {
+      // Side on, the legs scissor apart
+      const spread = stride === 0 ? 0 : 4;
+      ctx.fillRect(25 - spread, 50, 7, 10);
+      ctx.fillRect(33 + spread, 50, 7, 10);
+    } else {
+      // Facing or away, the lifted leg looks shorter
+      ctx.fillRect(20, 50, 8, stride === 1 ? 7 : 10);
+      ctx.fillRect(36, 50, 8, stride === 2 ? 7 : 10);
+    }
     ctx.fillStyle = '#334155'; // Dark Grey Gun (not pitch black)
-    ctx.fillRect(42, 28, 14, 6);
+    const gunRect = [[42, 28, 14, 6], [40, 28, 18, 6], [36, 28, 24, 6], [44, 28, 10, 6], [44, 24, 4, 4]][view];
+    const gunY = gunRect[1] - (gun > 0 ? 4 : 0);
+    if (view < 4 || gun > 0) ctx.fillRect(gunRect[0], gunY, gunRect[2], gunRect[3]);
+    if (gun === 2) {
+      ctx.fillStyle = '#fde047'; // Muzzle flash
+      ctx.fillRect(gunRect[0] + gunRect[2] - 2, gunY - 3, 8, gunRect[3] + 6);
+    }
+  };
+  const mirrored = (draw: (ctx: CanvasRenderingContext2D) => void) => (ctx: CanvasRenderingContext2D) => {
+    ctx.translate(TEX_WIDTH, 0);
+    ctx.scale(-1, 1);
+    draw(ctx);
+  };
+  // All 8 angles of one pose, in the order getSpriteTexture expects
+  const guardAngles = (stride: number, gun: number) => [
+    drawGuard(0, stride, gun),
+    mirrored(drawGuard(1, stride, gun)),
+    mirrored(drawGuard(2, stride, gun)),
+    mirrored(drawGuard(3, stride, gun)),
+    drawGuard(4, stride, gun),
+    drawGuard(3, stride, gun),
+    drawGuard(2, stride, gun),
+    drawGuard(1, stride, gun)
+  ];
+  // Frames: standing, aiming, firing
+  addTex(CellType.ENEMY_GUARD, [...guardAngles(0, 0), ...guardAngles(0, 1), ...guardAngles(0, 2)]);
+  // Frames: left step, passing, right step, passing
+  addTex(CellType.ENEMY_GUARD_WALK, [...guardAngles(1, 0), ...guardAngles(0, 0), ...guardAngles(2, 0), ...guardAngles(0, 0)]);
+
+  // --- PAIN GUARD: Front view flinching back, flashed red ---
+  addTex(CellType.ENEMY_GUARD_PAIN, [(ctx) => {
+    ctx.translate(0, 2);
+    drawGuard(0)(ctx);
+    ctx.globalCompositeOperation = 'source-atop'; // Only tint the guard, not the transparent background
+    ctx.fillStyle = 'rgba(255, 60, 60, 0.45)';
+    ctx.fillRect(0, 0, TEX_WIDTH, TEX_HEIGHT);
+    ctx.globalCompositeOperation = 'source-over';
   }]);
 
+  // --- DYING GUARD: Buckles, kneels, then topples towards the corpse pose ---
+  addTex(CellType.ENEMY_GUARD_DYING, [
+    (ctx) => {
+      ctx.translate(0, 4);
+      drawGuard(0)(ctx);
+    },
+    (ctx) => {
+      ctx.fillStyle = '#1e3a8a';
+      ctx.fillRect(18, 30, 28, 22);
+      ctx.fillRect(16, 52, 32, 8); // Knees
+      ctx.fillStyle = '#475569';
+      ctx.fillRect(20, 32, 24, 14);
+      ctx.fillStyle = '#64748b';
+      ctx.fillRect(22, 18, 16, 12);
+      ctx.fillStyle = '#ff3333';
+      ctx.fillRect(22, 22, 16, 4);
+    },
+    (ctx) => {
+      ctx.fillStyle = '#1e3a8a';
+      ctx.fillRect(14, 40, 36, 16);
+      ctx.fillStyle = '#475569';
+      ctx.fillRect(18, 42, 26, 10);
+      ctx.fillStyle = '#64748b';
+      ctx.fillRect(6, 42, 12, 12);
+      ctx.fillStyle = '#334155';
+      ctx.fillRect(48, 50, 12, 5); // Dropped gun
+    },
+    (ctx) => {
+      ctx.fillStyle = '#1e3a8a';
+      ctx.fillRect(10, 50, 44, 10);
+      ctx.fillStyle = '#475569';
+      ctx.fillRect(14, 51, 30, 7);
+      ctx.fillStyle = '#64748b';
+      ctx.fillRect(4, 52, 12, 10);
+      ctx.fillStyle = '#880000';
+      ctx.globalAlpha = 0.6;
+      ctx.beginPath(); ctx.arc(32, 60, 10, 0, Math.PI * 2); ctx.fill();
+      ctx.globalAlpha = 1.0;
+    }
+  ]);
+
   // --- DEAD GUARD: Lying down ---
   addTex(CellType.ENEMY_GUARD_DEAD, [(ctx) => {
     ctx.fillStyle = '#1e3a8a'; // Blue suit
@@ -166,5 +340,40 @@ export const generateTextures = (): Record<number, Texture[]> => {
     ctx.fillRect(20, 20, 24, 24);
   }]);
 
+  // --- DECALS: Stamped onto walls and floors, transparent outside the mark ---
+  addTex(CellType.DECAL_BULLET, [0, 1, 2].map(variant => (ctx: CanvasRenderingContext2D) => {
+    ctx.strokeStyle = 'rgba(40, 40, 40, 0.7)';
+    ctx.lineWidth = 2;
+    for (let i = 0; i < 4; i++) {
+      const angle = (i + variant * 0.4) * Math.PI / 2 + variant;
+      ctx.beginPath();
+      ctx.moveTo(32, 32);
+      ctx.lineTo(32 + Math.cos(angle) * (14 + i * 3), 32 + Math.sin(angle) * (14 + i * 3));
+      ctx.stroke();
+    }
+    ctx.fillStyle = '#111111';
+    ctx.beginPath(); ctx.arc(32, 32, 9, 0, Math.PI * 2); ctx.fill();
+  }));
+
+  addTex(CellType.DECAL_SCORCH, [0, 1].map(variant => (ctx: CanvasRenderingContext2D) => {
+    const gradient = ctx.createRadialGradient(32, 32, 2, 32, 32, 30);
+    gradient.addColorStop(0, 'rgba(10, 8, 6, 0.95)');
+    gradient.addColorStop(0.6, 'rgba(30, 24, 18, 0.6)');
+    gradient.addColorStop(1, 'rgba(30, 24, 18, 0)');
+    ctx.fillStyle = gradient;
+    ctx.beginPath(); ctx.ellipse(32, 32, 30, 30 - variant * 8, variant, 0, Math.PI * 2); ctx.fill();
+  }));
+
+  addTex(CellType.DECAL_BLOOD, [0, 1, 2].map(variant => (ctx: CanvasRenderingContext2D) => {
+    ctx.fillStyle = 'rgba(120, 0, 0, 0.85)';
+    ctx.beginPath(); ctx.arc(32, 32, 16 + variant * 2, 0, Math.PI * 2); ctx.fill();
+    // Droplets thrown out at fixed angles so variants stay the same across reloads
+    for (let i = 0; i < 7; i++) {
+      const angle = i * 0.9 + variant * 2.1;
+      const dist = 18 + ((i * 7 + variant * 5) % 11);
+      ctx.beginPath(); ctx.arc(32 + Math.cos(angle) * dist, 32 + Math.sin(angle) * dist, 2 + (i % 3), 0, Math.PI * 2); ctx.fill();
+    }
+  }));
+
   return textures;
 };
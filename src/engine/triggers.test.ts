@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { CellType, EnemyType, MapActionType, MapSound, TriggerKind, type MapAction, type MapDefinition, type MapTrigger } from '../types';
+import { MAX_WAVE_SIZE, activateSwitch, checkTriggers, createTriggerRunner, setWallCell, takeDueActions, updateAreaTriggers } from './triggers';
+
+// A corridor with a door at 2,2 and a switch in the wall at 0,2
+const GRID = [
+  [1, 1, 1, 1, 1],
+  [1, 0, 0, 0, 1],
+  [1, 0, 6, 0, 1],
+  [1, 0, 0, 0, 1],
+  [1, 1, 1, 1, 1]
+];
+
+const map = (triggers: unknown): MapDefinition =>
+  ({ version: 1, id: 't', name: 'T', author: 'tests', grid: GRID, playerSpawns: [{ x: 1.5, y: 1.5 }], enemySpawns: [], triggers } as MapDefinition);
+
+const area = (id: string, actions: MapAction[], once?: boolean): MapTrigger =>
+  ({ id, kind: TriggerKind.AREA, x0: 3, y0: 1, x1: 3, y1: 3, actions, once });
+const lever = (id: string, actions: MapAction[]): MapTrigger => ({ id, kind: TriggerKind.SWITCH, x: 0, y: 2, actions });
+
+const OPEN = { type: MapActionType.OPEN_DOOR, x: 2, y: 2 } as const;
+
+describe('checkTriggers', () => {
+  it('accepts maps without triggers and every valid action', () => {
+    expect(checkTriggers(map(undefined))).toEqual([]);
+    expect(checkTriggers(map([
+      area('hall', [
+        OPEN,
+        { type: MapActionType.SPAWN_WAVE, count: 3, spawns: [{ x: 1.5, y: 3.5 }], enemy: EnemyType.RUSHER, delay: 500 },
+        { type: MapActionType.SET_WALL, x: 0, y: 1, cell: CellType.WALL_3 },
+        { type: MapActionType.PLAY_SOUND, sound: MapSound.ALARM, x: 3, y: 3 },
+        { type: MapActionType.MESSAGE, text: 'Go', duration: 2000 },
+        { type: MapActionType.END_LEVEL }
+      ]),
+      lever('lever', [OPEN])
+    ]))).toEqual([]);
+  });
+
+  it('needs a list of triggers with unique ids', () => {
+    expect(checkTriggers(map({}))).toEqual(['triggers must be a list']);
+    expect(checkTriggers(map([area('a', [OPEN]), area('a', [OPEN]), { ...area('', [OPEN]) }]))).toEqual([
+      'duplicate trigger id a',
+      'trigger 2 needs an id'
+    ]);
+  });
+
+  it('checks where areas and switches are', () => {
+    expect(checkTriggers(map([
+      { ...area('back', [OPEN]), x0: 3, x1: 1 },
+      { ...area('off', [OPEN]), x1: 9 },
+      { ...area('half', [OPEN]), y0: 1.5 },
+      { ...lever('floor', [OPEN]), x: 1, y: 1 },
+      { id: 'odd', kind: 'TIMER', actions: [OPEN] }
+    ]))).toEqual([
+      'trigger back needs x0 <= x1 and y0 <= y1 on the map',
+      'trigger off needs x0 <= x1 and y0 <= y1 on the map',
+      'trigger half needs x0 <= x1 and y0 <= y1 on the map',
+      'trigger floor switch must be a wall cell',
+      'trigger odd has unknown kind TIMER'
+    ]);
+  });
+
+  it('reports each bad action by trigger and index', () => {
+    expect(checkTriggers(map([area('hall', [
+      { type: MapActionType.OPEN_DOOR, x: 1, y: 1 },
+      { type: MapActionType.SPAWN_WAVE, count: MAX_WAVE_SIZE + 1, spawns: [{ x: 0.5, y: 0.5 }], enemy: 'DRAGON' },
+      { type: MapActionType.SET_WALL, x: 2, y: 2, cell: CellType.DOOR },
+      { type: MapActionType.PLAY_SOUND, sound: 'BOOM', x: 2 },
+      { type: MapActionType.MESSAGE, text: '', duration: -1 },
+      { type: 'TELEPORT', delay: -5 },
+      null
+    ] as unknown as MapAction[])]))).toEqual([
+      'trigger hall action 0 must point at a door',
+      `trigger hall action 1 count must be 1 to ${MAX_WAVE_SIZE}`,
+      'trigger hall action 1 spawn 0 must be on open floor',
+      'trigger hall action 1 has unknown enemy DRAGON',
+      'trigger hall action 2 must point at a wall',
+      `trigger hall action 2 has unknown wall ID ${CellType.DOOR}`,
+      'trigger hall action 3 has unknown sound BOOM',
+      'trigger hall action 3 position must be a cell on the map',
+      'trigger hall action 4 needs text',
+      'trigger hall action 4 duration must be a positive number',
+      'trigger hall action 5 delay must be a number of at least 0',
+      'trigger hall action 5 has unknown type TELEPORT',
+      'trigger hall action 6 must be an object'
+    ]);
+  });
+
+  it('needs at least one action', () => {
+    expect(checkTriggers(map([area('empty', [])]))).toEqual(['trigger empty needs at least one action']);
+  });
+});
+
+describe('trigger runner', () => {
+  const message = (text: string, delay?: number): MapAction => ({ type: MapActionType.MESSAGE, text, delay });
+
+  it('fires an area once on entry and queues its actions by delay', () => {
+    const runner = createTriggerRunner();
+    const triggers = [area('hall', [message('later', 1000), message('now')])];
+    updateAreaTriggers(runner, triggers, [{ x: 1.5, y: 1.5 }], 0);
+    expect(runner.queue).toEqual([]);
+
+    updateAreaTriggers(runner, triggers, [{ x: 3.5, y: 2.5 }], 100);
+    expect(takeDueActions(runner, 100)).toEqual([message('now')]);
+    expect(takeDueActions(runner, 500)).toEqual([]);
+    expect(takeDueActions(runner, 1100)).toEqual([message('later', 1000)]);
+
+    // Walking out and back in does nothing for a once-only trigger
+    updateAreaTriggers(runner, triggers, [{ x: 1.5, y: 1.5 }], 2000);
+    updateAreaTriggers(runner, triggers, [{ x: 3.5, y: 1.5 }], 2100);
+    expect(takeDueActions(runner, 5000)).toEqual([]);
+  });
+
+  it('fires a repeating area each time it is entered, not every tick inside it', () => {
+    const runner = createTriggerRunner();
+    const triggers = [area('loop', [message('again')], false)];
+    updateAreaTriggers(runner, triggers, [{ x: 3.5, y: 1.5 }], 0);
+    updateAreaTriggers(runner, triggers, [{ x: 3.5, y: 2.5 }], 10);
+    expect(takeDueActions(runner, 10)).toHaveLength(1);
+    updateAreaTriggers(runner, triggers, [{ x: 2.5, y: 1.5 }], 20);
+    updateAreaTriggers(runner, triggers, [{ x: 3.5, y: 1.5 }], 30);
+    expect(takeDueActions(runner, 30)).toHaveLength(1);
+  });
+
+  it('treats an area as occupied while any player is in it', () => {
+    const runner = createTriggerRunner();
+    const triggers = [area('loop', [message('again')], false)];
+    const inside = { x: 3.5, y: 1.5 }, outside = { x: 1.5, y: 1.5 };
+    updateAreaTriggers(runner, triggers, [outside, inside], 0);
+    expect(takeDueActions(runner, 0)).toHaveLength(1);
+    // A second player walking in, or the first leaving, is not a fresh entry
+    updateAreaTriggers(runner, triggers, [inside, inside], 10);
+    updateAreaTriggers(runner, triggers, [outside, inside], 20);
+    expect(takeDueActions(runner, 20)).toEqual([]);
+    updateAreaTriggers(runner, triggers, [outside, outside], 30);
+    updateAreaTriggers(runner, triggers, [inside, outside], 40);
+    expect(takeDueActions(runner, 40)).toHaveLength(1);
+  });
+
+  it('uses a switch only on its cell, and only once', () => {
+    const runner = createTriggerRunner();
+    const triggers = [lever('lever', [OPEN])];
+    expect(activateSwitch(runner, triggers, 1, 2, 0)).toBe(false);
+    expect(activateSwitch(runner, triggers, 0, 2, 0)).toBe(true);
+    expect(activateSwitch(runner, triggers, 0, 2, 10)).toBe(false);
+    expect(takeDueActions(runner, 10)).toEqual([OPEN]);
+  });
+});
+
+describe('setWallCell', () => {
+  it('copies the changed column and leaves the original grid alone', () => {
+    const next = setWallCell(GRID, 0, 2, CellType.WALL_2);
+    expect(next[0][2]).toBe(CellType.WALL_2);
+    expect(GRID[0][2]).toBe(CellType.WALL_1);
+    expect(next[1]).toBe(GRID[1]);
+  });
+});
@@ -0,0 +1,135 @@
+import { CellType, MapActionType, MapSound, TriggerKind, type MapAction, type MapDefinition, type MapTrigger, type Vector2 } from '../types';
+import { isEnemyType } from './enemies';
+
+export const DEFAULT_MESSAGE_TIME = 3000; // ms a MESSAGE action stays on the HUD without its own duration
+export const MAX_WAVE_SIZE = 16;
+
+// Walls a SET_WALL action may swap between. Doors and open floor would change the level's layout.
+const WALL_CELLS = new Set<number>([CellType.WALL_1, CellType.WALL_2, CellType.WALL_3, CellType.WALL_4, CellType.WALL_WINDOW]);
+const SOUNDS = new Set<string>(Object.values(MapSound));
+
+// Tracks a level's triggers while it is played: which have fired, where the player stands, and the
+// actions waiting on their delay
+export interface TriggerRunner {
+  fired: Set<string>; // IDs of once-only triggers that already went off
+  inside: Set<string>; // Area triggers a player is standing in, so they fire on entry rather than every tick
+  queue: { at: number, action: MapAction }[];
+}
+
+export const createTriggerRunner = (): TriggerRunner => ({ fired: new Set(), inside: new Set(), queue: [] });
+
+const fire = (runner: TriggerRunner, trigger: MapTrigger, now: number) => {
+  if (runner.fired.has(trigger.id)) return;
+  if (trigger.once !== false) runner.fired.add(trigger.id);
+  for (const action of trigger.actions) runner.queue.push({ at: now + (action.delay ?? 0), action });
+};
+
+const isInArea = (trigger: MapTrigger, x: number, y: number) =>
+  trigger.kind === TriggerKind.AREA && x >= trigger.x0 && x <= trigger.x1 && y >= trigger.y0 && y <= trigger.y1;
+
+// Fires area triggers a player has just walked into. An area counts as occupied while any of them is in it.
+export const updateAreaTriggers = (runner: TriggerRunner, triggers: MapTrigger[], positions: Vector2[], now: number) => {
+  const cells = positions.map(pos => ({ x: Math.floor(pos.x), y: Math.floor(pos.y) }));
+  for (const trigger of triggers) {
+    if (trigger.kind !== TriggerKind.AREA) continue;
+    if (!cells.some(({ x, y }) => isInArea(trigger, x, y))) runner.inside.delete(trigger.id);
+    else if (!runner.inside.has(trigger.id)) {
+      runner.inside.add(trigger.id);
+      fire(runner, trigger, now);
+    }
+  }
+};
+
+// Fires the switch on a cell, if there is one that can still be used. True when something was switched.
+export const activateSwitch = (runner: TriggerRunner, triggers: MapTrigger[], mapX: number, mapY: number, now: number): boolean => {
+  const trigger = triggers.find(t => t.kind === TriggerKind.SWITCH && t.x === mapX && t.y === mapY && !runner.fired.has(t.id));
+  if (!trigger) return false;
+  fire(runner, trigger, now);
+  return true;
+};
+
+// The event runner: hands back every queued action whose delay is up, in the order they were due
+export const takeDueActions = (runner: TriggerRunner, now: number): MapAction[] => {
+  const due = runner.queue.filter(q => q.at <= now).sort((a, b) => a.at - b.at);
+  if (due.length === 0) return [];
+  runner.queue = runner.queue.filter(q => q.at > now);
+  return due.map(q => q.action);
+};
+
+// Copy-on-write: the renderer only re-sends map layers it hasn't seen, and the map file's own grid stays untouched for restarts
+export const setWallCell = (map: number[][], mapX: number, mapY: number, cell: number): number[][] =>
+  map.map((row, x) => x === mapX ? row.map((c, y) => y === mapY ? cell : c) : row);
+
+const isNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+
+// Whole-cell coordinates on the grid, safe to index it with
+const isCell = (grid: number[][], x: unknown, y: unknown): boolean =>
+  Number.isInteger(x) && Number.isInteger(y) && grid[x as number]?.[y as number] !== undefined;
+
+const checkAction = (action: MapAction, grid: number[][], name: string): string[] => {
+  if (typeof action !== 'object' || action === null) return [`${name} must be an object`];
+  const errors: string[] = [];
+  if (action.delay !== undefined && !(isNumber(action.delay) && action.delay >= 0)) errors.push(`${name} delay must be a number of at least 0`);
+  switch (action.type) {
+    case MapActionType.OPEN_DOOR:
+      if (!isCell(grid, action.x, action.y) || grid[action.x][action.y] !== CellType.DOOR) errors.push(`${name} must point at a door`);
+      break;
+    case MapActionType.SPAWN_WAVE:
+      if (!isNumber(action.count) || action.count < 1 || action.count > MAX_WAVE_SIZE) errors.push(`${name} count must be 1 to ${MAX_WAVE_SIZE}`);
+      if (action.spawns !== undefined && !Array.isArray(action.spawns)) errors.push(`${name} spawns must be a list`);
+      else (action.spawns ?? []).forEach((p, i) => {
+        if (!isNumber(p?.x) || !isNumber(p?.y) || grid[Math.floor(p.x)]?.[Math.floor(p.y)] !== CellType.EMPTY) errors.push(`${name} spawn ${i} must be on open floor`);
+      });
+      if (action.enemy !== undefined && !isEnemyType(action.enemy)) errors.push(`${name} has unknown enemy ${String(action.enemy)}`);
+      break;
+    case MapActionType.SET_WALL:
+      if (!isCell(grid, action.x, action.y) || !WALL_CELLS.has(grid[action.x][action.y])) errors.push(`${name} must point at a wall`);
+      if (!WALL_CELLS.has(action.cell)) errors.push(`${name} has unknown wall ID ${action.cell}`);
+      break;
+    case MapActionType.PLAY_SOUND:
+      if (!SOUNDS.has(action.sound)) errors.push(`${name} has unknown sound ${action.sound}`);
+      if ((action.x !== undefined || action.y !== undefined) && !isCell(grid, action.x, action.y)) errors.push(`${name} position must be a cell on the map`);
+      break;
+    case MapActionType.MESSAGE:
+      if (typeof action.text !== 'string' || !action.text) errors.push(`${name} needs text`);
+      if (action.duration !== undefined && !(isNumber(action.duration) && action.duration > 0)) errors.push(`${name} duration must be a positive number`);
+      break;
+    case MapActionType.END_LEVEL:
+      if (action.text !== undefined && typeof action.text !== 'string') errors.push(`${name} text must be a string`);
+      break;
+    default:
+      errors.push(`${name} has unknown type ${String((action as { type?: unknown }).type)}`);
+  }
+  return errors;
+};
+
+// Problems with a map's triggers, for validateMap. The grid has already been checked.
+export const checkTriggers = (def: MapDefinition): string[] => {
+  if (def.triggers === undefined) return [];
+  if (!Array.isArray(def.triggers)) return ['triggers must be a list'];
+  const grid = def.grid;
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  def.triggers.forEach((trigger, i) => {
+    const name = `trigger ${typeof trigger?.id === 'string' && trigger.id ? trigger.id : i}`;
+    if (typeof trigger?.id !== 'string' || !trigger.id) errors.push(`trigger ${i} needs an id`);
+    else if (ids.has(trigger.id)) errors.push(`duplicate trigger id ${trigger.id}`);
+    else ids.add(trigger.id);
+
+    if (trigger?.kind === TriggerKind.AREA) {
+      const { x0, y0, x1, y1 } = trigger;
+      if (!isCell(grid, x0, y0) || !isCell(grid, x1, y1) || x0 > x1 || y0 > y1) {
+        errors.push(`${name} needs x0 <= x1 and y0 <= y1 on the map`);
+      }
+    } else if (trigger?.kind === TriggerKind.SWITCH) {
+      const { x, y } = trigger;
+      if (!isCell(grid, x, y) || !WALL_CELLS.has(grid[x][y])) {
+        errors.push(`${name} switch must be a wall cell`);
+      }
+    } else errors.push(`${name} has unknown kind ${String((trigger as { kind?: unknown })?.kind)}`);
+
+    if (!Array.isArray(trigger?.actions) || trigger.actions.length === 0) errors.push(`${name} needs at least one action`);
+    else trigger.actions.forEach((action, j) => errors.push(...checkAction(action, grid, `${name} action ${j}`)));
+  });
+  return errors;
+};
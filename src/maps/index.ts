@@ -0,0 +1,38 @@
+import type { MapDefinition } from '../types';
+import { loadMap } from '../engine/maps';
+import { generateMap, parseGeneratedMapId } from '../engine/generator';
+
+// Every map in this folder. The multiplayer server reads the same files, so dropping a JSON file here
+// adds it to both singleplayer and rooms.
+const files = import.meta.glob<object>('./*.json', { eager: true, import: 'default' });
+
+export const DEFAULT_MAP_ID = 'compound';
+
+// A broken file is left out of the library rather than taking the game down with it
+const loadLibraryMap = (file: object): MapDefinition[] => {
+  try {
+    return [loadMap(file)];
+  } catch (e) {
+    console.error(e);
+    return [];
+  }
+};
+
+export const MAP_LIBRARY: MapDefinition[] = Object.values(files)
+  .flatMap(loadLibraryMap)
+  .sort((a, b) => (a.id === DEFAULT_MAP_ID ? -1 : b.id === DEFAULT_MAP_ID ? 1 : a.name.localeCompare(b.name)));
+
+// Generated maps are built once per ID and kept, since every restart and respawn looks the map up again
+const generated = new Map<string, MapDefinition>();
+
+const getGeneratedMap = (id: string): MapDefinition | undefined => {
+  const options = parseGeneratedMapId(id);
+  if (!options) return undefined;
+  if (!generated.has(id)) generated.set(id, generateMap(options));
+  return generated.get(id);
+};
+
+// Unknown IDs (an old room, a removed file) fall back to the default map
+export const getMap = (id?: string | null): MapDefinition =>
+  MAP_LIBRARY.find(m => m.id === id) ?? (id ? getGeneratedMap(id) : undefined) ??
+  MAP_LIBRARY.find(m => m.id === DEFAULT_MAP_ID) ?? MAP_LIBRARY[0];
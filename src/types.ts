@@ -22,21 +22,80 @@ export const EnemyState = {
   CHASE: 1,
   ATTACK: 2,
   DYING: 3,
-  DEAD: 4
+  DEAD: 4,
+  PATROL: 5, // Walking a route from the map
+  SEARCH: 6, // Heading for where the target was last seen, then looking around
+  COVER: 7, // Ducking out of the target's line of sight for a moment
+  RETREAT: 8 // Badly hurt, falling back out of sight
 } as const;
 
 export type EnemyStateValue = typeof EnemyState[keyof typeof EnemyState];
 
+// Sprite sequences an entity can play (see engine/animation)
+export const EnemyAnimation = {
+  IDLE: 'IDLE',
+  WALK: 'WALK',
+  ATTACK: 'ATTACK',
+  PAIN: 'PAIN',
+  DYING: 'DYING',
+  DEAD: 'DEAD'
+} as const;
+
+export type EnemyAnimationName = typeof EnemyAnimation[keyof typeof EnemyAnimation];
+
+// Enemy archetypes (see ENEMIES in constants)
+export const EnemyType = {
+  GUARD: 'GUARD',
+  RUSHER: 'RUSHER',
+  SNIPER: 'SNIPER',
+  HEAVY: 'HEAVY',
+  BOSS: 'BOSS'
+} as const;
+
+export type EnemyTypeName = typeof EnemyType[keyof typeof EnemyType];
+
+// Path an enemy is following, kept between ticks by the navigation module
+export interface NavState {
+  path: Vector2[]; // Cell centres still to visit, next first
+  goalX: number; // Cell the path was planned to
+  goalY: number;
+  plannedAt: number;
+  lastKnownTarget: Vector2 | null; // Where its target was last seen
+}
+
+// What an enemy's behaviour remembers between ticks (see engine/behavior)
+export interface EnemyBrain {
+  stateSince: number; // When it entered its current state
+  noticedAt: number | null; // When it spotted its target from IDLE or PATROL; it reacts once the reaction time is up
+  lastSeenAt: number; // When it last had its target in sight
+  maxHealth: number;
+  lastHealth: number; // Health last tick, so being hurt can be noticed
+  route: Vector2[] | null; // Patrol route, walked in a loop
+  routeIndex: number;
+  cover: Vector2 | null; // Cell centre it is heading for or holding in COVER and RETREAT
+  holdUntil: number; // When COVER or RETREAT stops holding, or SEARCH stops looking around
+  strafeSign: number; // 1 or -1, which way it is strafing in ATTACK
+  strafeUntil: number;
+}
+
 export interface Enemy {
   id: number;
+  type?: EnemyTypeName; // Archetype; unset for player avatars
   pos: Vector2;
   dir: Vector2;
   state: EnemyStateValue;
   health: number;
   textureId: number;
   lastAttackTime: number;
-  animationTimer: number;
+  lastShotAt?: number; // When it last fired, keeps it on the minimap radar for a moment
+  animationTimer: number; // ms into the current animation
+  animation?: EnemyAnimationName;
+  currentFrame?: number; // Frame of textureId to draw, set by the animation
+  z?: number; // Elevation when standing on a ledge (network players)
   networkId?: string; // For Multiplayer mapping
+  palette?: string; // Suit colour of a player avatar, '#rrggbb'
+  nav?: NavState;
+  brain?: EnemyBrain;
 }
 
 export interface Item {
@@ -44,6 +103,7 @@ export interface Item {
   pos: Vector2;
   textureId: number;
   spawnTime: number;
+  isPlaced?: boolean; // Placed by the map rather than dropped, so it never despawns
 }
 
 export interface Particle {
@@ -54,13 +114,145 @@ export interface Particle {
   velocity: Vector2;
 }
 
+// Which face of a map cell a decal is stamped on. X_MIN is the face at the cell's low X edge, and so on.
+export const DecalFace = {
+  X_MIN: 0,
+  X_MAX: 1,
+  Y_MIN: 2,
+  Y_MAX: 3,
+  FLOOR: 4
+} as const;
+
+export type DecalFaceValue = typeof DecalFace[keyof typeof DecalFace];
+
+// A mark drawn in the texture space of a cell face (see engine/decals)
 export interface Decal {
   mapX: number;
   mapY: number;
-  side: number;
-  wallX: number;
-  wallY: number; // Normalized Y on wall [0, 1]
-  life: number;
+  face: DecalFaceValue;
+  textureId: number; // CellType.DECAL_*
+  variant: number; // Frame of textureId
+  u: number; // Centre across the face: wall X fraction, or X fraction within the cell on the floor
+  v: number; // Centre height above the floor on walls, Y fraction within the cell on the floor
+  size: number; // Width and height in wall units
+  spawnTime: number;
+}
+
+export interface Door {
+  mapX: number;
+  mapY: number;
+  axis: number; // 0 = slab spans the Y axis (hit from X sides), 1 = spans the X axis
+  openAmount: number; // 0 = closed, 1 = fully slid into the wall
+  isOpen: boolean; // Target state, openAmount animates towards it
+  openedAt: number;
+}
+
+export interface Light {
+  pos: Vector2;
+  intensity: number; // Brightness added at the centre, 1.0 = a fully lit surface
+  radius: number;
+  duration?: number; // Dynamic lights fade out over this many ms...
+  expiresAt?: number; // ...and are dropped at this time
+}
+
+// Rectangle of cells (inclusive) given its own floor and/or ceiling texture
+export interface SurfaceRegion {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  floor?: number;
+  ceiling?: number;
+}
+
+export interface PlayerSpawn extends Vector2 {
+  angle?: number; // Facing in radians, 0 = +X
+}
+
+export interface ItemSpawn extends Vector2 {
+  type: number; // CellType.HEALTH_ORB or CellType.AMMO_BOX
+}
+
+// A labelled point of interest, shown on the tactical map
+export interface MapObjective extends Vector2 {
+  label: string;
+}
+
+// A marker a player drops on the tactical map. Shared with the room in multiplayer.
+export interface Waypoint {
+  id: string;
+  pos: Vector2;
+  ownerId: string; // Socket ID, or 'local' in singleplayer
+  color: string; // '#rrggbb', the owner's suit colour
+}
+
+// What a map trigger can do when it fires (see engine/triggers)
+export const MapActionType = {
+  OPEN_DOOR: 'OPEN_DOOR',
+  SPAWN_WAVE: 'SPAWN_WAVE',
+  SET_WALL: 'SET_WALL',
+  PLAY_SOUND: 'PLAY_SOUND',
+  MESSAGE: 'MESSAGE',
+  END_LEVEL: 'END_LEVEL'
+} as const;
+
+export type MapActionTypeValue = typeof MapActionType[keyof typeof MapActionType];
+
+// Sounds a map can play from a trigger
+export const MapSound = {
+  DOOR: 'DOOR',
+  SWITCH: 'SWITCH',
+  ALARM: 'ALARM',
+  PICKUP: 'PICKUP',
+  HEAL: 'HEAL',
+  GUNSHOT: 'GUNSHOT'
+} as const;
+
+export type MapSoundName = typeof MapSound[keyof typeof MapSound];
+
+export type MapAction = { delay?: number } & ( // delay: ms after the trigger fires, 0 by default
+  | { type: typeof MapActionType.OPEN_DOOR, x: number, y: number }
+  | { type: typeof MapActionType.SPAWN_WAVE, count: number, spawns?: Vector2[], enemy?: EnemyTypeName } // Spawns default to the map's enemySpawns, archetypes to the spawner's pick
+  | { type: typeof MapActionType.SET_WALL, x: number, y: number, cell: number } // Swaps a wall for another wall texture
+  | { type: typeof MapActionType.PLAY_SOUND, sound: MapSoundName, x?: number, y?: number } // Positional when x and y are given
+  | { type: typeof MapActionType.MESSAGE, text: string, duration?: number }
+  | { type: typeof MapActionType.END_LEVEL, text?: string }
+);
+
+// AREA triggers fire when the player walks into a rectangle of cells (inclusive), SWITCH triggers when
+// the player uses a wall cell (KeyE, like a door)
+export const TriggerKind = {
+  AREA: 'AREA',
+  SWITCH: 'SWITCH'
+} as const;
+
+export type MapTrigger = {
+  id: string;
+  once?: boolean; // true by default; repeating areas fire each time they are entered, switches each use
+  actions: MapAction[];
+} & (
+  | { kind: typeof TriggerKind.AREA, x0: number, y0: number, x1: number, y1: number }
+  | { kind: typeof TriggerKind.SWITCH, x: number, y: number }
+);
+
+// A level as stored in src/maps/*.json (see engine/maps). The grid is indexed grid[x][y].
+export interface MapDefinition {
+  version: number;
+  id: string;
+  name: string;
+  author: string;
+  description?: string;
+  grid: number[][];
+  heights?: Record<string, number>; // "x,y" -> height in wall units, like doors
+  surfaces?: SurfaceRegion[];
+  ambientLight?: number;
+  lights?: Light[];
+  playerSpawns: PlayerSpawn[];
+  enemySpawns: Vector2[];
+  itemSpawns?: ItemSpawn[];
+  objectives?: MapObjective[];
+  triggers?: MapTrigger[]; // Singleplayer only
+  patrols?: Vector2[][]; // Routes, each walked in a loop by enemies that spawn near it
 }
 
 export const Difficulty = {
@@ -71,22 +263,114 @@ export const Difficulty = {
 
 export type DifficultyLevel = typeof Difficulty[keyof typeof Difficulty];
 
+// Local split-screen: players fight each other, or the AI together
+export const LocalMatchMode = {
+  COOP: 'COOP',
+  VERSUS: 'VERSUS'
+} as const;
+
+export type LocalMatchModeValue = typeof LocalMatchMode[keyof typeof LocalMatchMode];
+
+// Input device driving one split-screen player (see engine/controls)
+export const ControlScheme = {
+  KEYBOARD_LEFT: 'KEYBOARD_LEFT',
+  KEYBOARD_RIGHT: 'KEYBOARD_RIGHT',
+  GAMEPAD_1: 'GAMEPAD_1',
+  GAMEPAD_2: 'GAMEPAD_2',
+  GAMEPAD_3: 'GAMEPAD_3',
+  GAMEPAD_4: 'GAMEPAD_4'
+} as const;
+
+export type ControlSchemeValue = typeof ControlScheme[keyof typeof ControlScheme];
+
+export interface LocalMatchConfig {
+  mode: LocalMatchModeValue;
+  difficulty: DifficultyLevel; // AI strength in co-op
+  controls: ControlSchemeValue[]; // One per player, 2 to 4
+  mapId: string;
+}
+
+// How the Raycaster draws walls and sprites: canvas drawImage per column, or straight into its pixel buffer
+export const RenderMode = {
+  CANVAS: 'CANVAS',
+  BUFFER: 'BUFFER'
+} as const;
+
+export type RenderModeValue = typeof RenderMode[keyof typeof RenderMode];
+
+// Full-screen effects applied to the finished frame (see engine/postprocess)
+export const PostEffect = {
+  NIGHT_VISION: 'NIGHT_VISION',
+  GRAYSCALE: 'GRAYSCALE',
+  CHROMATIC: 'CHROMATIC',
+  BLUR: 'BLUR',
+  SCANLINES: 'SCANLINES'
+} as const;
+
+export type PostEffectName = typeof PostEffect[keyof typeof PostEffect];
+
+export interface ScreenEffect {
+  id: PostEffectName;
+  strength: number; // 0..1
+  duration?: number; // Triggered effects fade out over this many ms...
+  expiresAt?: number; // ...and are dropped at this time
+}
+
+// Anything the Raycaster draws as a billboard
+export interface RenderSprite {
+  pos: Vector2;
+  textureId: number;
+  dir?: Vector2; // Picks the view for directional sprites
+  z?: number;
+  currentFrame?: number;
+  palette?: string; // Draws the recoloured copy of textureId (see engine/palette)
+}
+
+// What the Raycaster needs for a frame. GameState satisfies it; the render worker rebuilds it from snapshots.
+export interface RenderState {
+  player: Player;
+  map: number[][];
+  heights: number[][];
+  lightMap: number[][];
+  floors: number[][];
+  ceilings: number[][];
+  lights: Light[];
+  doors: Record<string, Door>;
+  decals: Record<string, Decal[]>;
+  enemies: RenderSprite[];
+  items: RenderSprite[];
+  particles: RenderSprite[];
+  effects: ScreenEffect[];
+}
+
 export interface GameState {
   player: Player;
   enemies: Enemy[];
   items: Item[];
   particles: Particle[];
-  decals: Decal[];
+  decals: Record<string, Decal[]>; // Keyed by cell face "x,y,face" (see engine/decals)
+  doors: Record<string, Door>;
   map: number[][];
+  heights: number[][]; // Per-cell top height, parallel to map (see engine/heights)
+  lightMap: number[][]; // Baked per-cell brightness, parallel to map (see engine/lighting)
+  floors: number[][]; // Per-cell floor texture IDs, parallel to map (see engine/surfaces)
+  ceilings: number[][]; // Per-cell ceiling texture IDs, CellType.SKY for open sky
+  lights: Light[]; // Dynamic lights
+  effects: ScreenEffect[]; // Triggered post-process effects, settings and game state add the rest per frame
   lastTime: number;
   score: number;
 }
 
-export interface Texture {
-  image: HTMLCanvasElement;
-  data: Uint32Array; // Raw pixel data for floor casting
+// Raw texels, all the renderer's buffer path needs (see engine/renderTarget for headless use)
+export interface TextureSource {
+  data: Uint32Array; // ABGR pixels, row-major
   width: number;
   height: number;
+  fps?: number; // Frame rate when the texture has several frames, set by texture packs
+}
+
+export interface Texture extends TextureSource {
+  image: HTMLCanvasElement | OffscreenCanvas;
 }
 
 export const CellType = {
@@ -96,15 +380,25 @@ export const CellType = {
   WALL_3: 3,      // Blue Tech (Animated)
   WALL_4: 4,      // Wood/Pipes
   WALL_WINDOW: 5, // Window
+  DOOR: 6,        // Sliding Door
   FLOOR: 100,
   CEILING: 101,
+  FLOOR_TILE: 102,
+  FLOOR_GRASS: 103,
+  FLOOR_WOOD: 104,
+  SKY: 110,       // Ceiling ID for open-sky cells, drawn as the panorama
   HEALTH_ORB: 50,
   AMMO_BOX: 51,
   ENEMY_GUARD: 99,
   ENEMY_GUARD_WALK: 98,
   ENEMY_GUARD_DEAD: 97,
+  ENEMY_GUARD_PAIN: 96,
+  ENEMY_GUARD_DYING: 95,
   PARTICLE_BLOOD: 200,
-  PARTICLE_IMPACT: 201
+  PARTICLE_IMPACT: 201,
+  DECAL_BULLET: 210,
+  DECAL_SCORCH: 211,
+  DECAL_BLOOD: 212
 } as const;
 
 export type CellTypeValue = typeof CellType[keyof typeof CellType];